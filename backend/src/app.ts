@@ -9,10 +9,8 @@ import { apiLimiter, authLimiter } from './middleware/rateLimiter';
 import { globalErrorHandler, notFound } from './middleware/errorHandler';
 
 // Import routes
-import authRoutes from './routes/authRoutes';
-import bloodRequestRoutes from './routes/bloodRequestRoutes';
-import donationRoutes from './routes/donationRoutes';
-import userRoutes from './routes/userRoutes';
+import { apiRoutes } from './routes';
+import docsRoutes from './routes/docsRoutes';
 
 const app = express();
 
@@ -72,10 +70,10 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/blood-requests', bloodRequestRoutes);
-app.use('/api/donations', donationRoutes);
-app.use('/api/users', userRoutes);
+apiRoutes.forEach(({ path, router }) => app.use(path, router));
+
+// API documentation (OpenAPI document and viewer)
+app.use('/api/docs', docsRoutes);
 
 // 404 handler
 app.use(notFound);
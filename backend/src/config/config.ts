@@ -20,11 +20,35 @@ interface Config {
   emailUser: string;
   emailPass: string;
   emailFrom: string;
+  emailSecure: boolean;
+  passwordResetExpireMinutes: number;
   frontendUrl: string;
+  apiUrl: string;
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
   maxFileSize: number;
   uploadPath: string;
+  pincodeDataPath: string;
+  donorSearchRadiusKm: number;
+  maxDonorAlertsPerRequest: number;
+  requestExpiryJobIntervalMs: number;
+  requestExpiryWarningHours: number;
+  maxRequestExtensions: number;
+  donationCodeExpireMinutes: number;
+  donationCodeMaxAttempts: number;
+  inventoryJobIntervalMs: number;
+  inventoryExpiryWarningDays: number;
+  donationPolicyPath: string;
+  pointsJobIntervalMs: number;
+  leaderboardJobIntervalMs: number;
+  contactRequestExpireHours: number;
+  maxContactRequestsPerDay: number;
+  dataExportSyncMaxRecords: number;
+  dataExportExpireHours: number;
+  dataExportJobIntervalMs: number;
+  dataExportTimeoutMinutes: number;
+  accountDeletionGraceDays: number;
+  accountDeletionJobIntervalMs: number;
 }
 
 const config: Config = {
@@ -44,11 +68,35 @@ const config: Config = {
   emailUser: process.env.EMAIL_USER || '',
   emailPass: process.env.EMAIL_PASS || '',
   emailFrom: process.env.EMAIL_FROM || 'noreply@bloodbuddy.com',
+  emailSecure: process.env.EMAIL_SECURE === 'true',
+  passwordResetExpireMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRE_MINUTES || '30', 10),
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+  apiUrl: process.env.API_URL || 'http://localhost:3001',
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
-  uploadPath: process.env.UPLOAD_PATH || './uploads'
+  uploadPath: process.env.UPLOAD_PATH || './uploads',
+  pincodeDataPath: process.env.PINCODE_DATA_PATH || '',
+  donorSearchRadiusKm: parseFloat(process.env.DONOR_SEARCH_RADIUS_KM || '25'),
+  maxDonorAlertsPerRequest: parseInt(process.env.MAX_DONOR_ALERTS_PER_REQUEST || '50', 10),
+  requestExpiryJobIntervalMs: parseInt(process.env.REQUEST_EXPIRY_JOB_INTERVAL_MS || '60000', 10), // 1 minute
+  requestExpiryWarningHours: parseInt(process.env.REQUEST_EXPIRY_WARNING_HOURS || '6', 10),
+  maxRequestExtensions: parseInt(process.env.MAX_REQUEST_EXTENSIONS || '1', 10),
+  donationCodeExpireMinutes: parseInt(process.env.DONATION_CODE_EXPIRE_MINUTES || '30', 10),
+  donationCodeMaxAttempts: parseInt(process.env.DONATION_CODE_MAX_ATTEMPTS || '5', 10),
+  inventoryJobIntervalMs: parseInt(process.env.INVENTORY_JOB_INTERVAL_MS || '3600000', 10), // 1 hour
+  inventoryExpiryWarningDays: parseInt(process.env.INVENTORY_EXPIRY_WARNING_DAYS || '3', 10),
+  donationPolicyPath: process.env.DONATION_POLICY_PATH || '',
+  pointsJobIntervalMs: parseInt(process.env.POINTS_JOB_INTERVAL_MS || '60000', 10), // 1 minute
+  leaderboardJobIntervalMs: parseInt(process.env.LEADERBOARD_JOB_INTERVAL_MS || '900000', 10), // 15 minutes
+  contactRequestExpireHours: parseInt(process.env.CONTACT_REQUEST_EXPIRE_HOURS || '72', 10),
+  maxContactRequestsPerDay: parseInt(process.env.MAX_CONTACT_REQUESTS_PER_DAY || '10', 10),
+  dataExportSyncMaxRecords: parseInt(process.env.DATA_EXPORT_SYNC_MAX_RECORDS || '2000', 10),
+  dataExportExpireHours: parseInt(process.env.DATA_EXPORT_EXPIRE_HOURS || '48', 10),
+  dataExportJobIntervalMs: parseInt(process.env.DATA_EXPORT_JOB_INTERVAL_MS || '60000', 10), // 1 minute
+  dataExportTimeoutMinutes: parseInt(process.env.DATA_EXPORT_TIMEOUT_MINUTES || '30', 10),
+  accountDeletionGraceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10),
+  accountDeletionJobIntervalMs: parseInt(process.env.ACCOUNT_DELETION_JOB_INTERVAL_MS || '3600000', 10) // 1 hour
 };
 
 // Validate required environment variables
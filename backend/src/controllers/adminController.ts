@@ -0,0 +1,378 @@
+import { Response } from 'express';
+import User, { IUserDocument } from '../models/User';
+import BloodRequest, { IBloodRequestDocument } from '../models/BloodRequest';
+import DonationRecord, { IDonationRecordDocument } from '../models/DonationRecord';
+import AuditLog, { IAuditLogDocument } from '../models/AuditLog';
+import { IApiResponse, IPaginatedResponse, AuditAction } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { revokeAllSessions } from '../services/sessionService';
+import { recordAudit, pickFields } from '../services/auditService';
+import { cancelPendingPledges } from '../services/pledgeService';
+import { reverseDonation as reverseVerifiedDonation } from '../services/donationVerificationService';
+import { publishBloodRequestEvent, publishBloodRequestUpdate } from '../services/socketService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const USER_LIST: ListQuerySpec = {
+  sortFields: ['createdAt', 'name', 'email', 'donationCount'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  }
+};
+
+const AUDIT_LOG_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  },
+  defaultLimit: 20
+};
+
+const ACCOUNT_FIELDS = ['accountStatus', 'suspendedUntil', 'statusReason', 'isVerified'];
+
+// Blood request fields an admin may correct
+const EDITABLE_REQUEST_FIELDS = [
+  'patientName',
+  'bloodGroup',
+  'component',
+  'urgency',
+  'hospital',
+  'city',
+  'pincode',
+  'unitsNeeded',
+  'contactPhone',
+  'description',
+  'status'
+];
+
+// Load the target user, refusing admins acting on their own account
+const findTargetUser = async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const user = await User.findById(req.params.id);
+
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      message: 'User not found'
+    });
+    return null;
+  }
+
+  if (user._id.toString() === req.user!._id.toString()) {
+    res.status(400).json({
+      success: false,
+      message: 'Admins cannot change their own account'
+    });
+    return null;
+  }
+
+  return user;
+};
+
+// Apply an account change to a user and record it in the audit log
+const updateAccount = async (
+  req: AuthRequest,
+  user: IUserDocument,
+  action: AuditAction,
+  changes: Partial<IUserDocument>
+): Promise<void> => {
+  const before = pickFields(user, ACCOUNT_FIELDS);
+
+  user.set(changes);
+  await user.save();
+
+  await recordAudit(req, {
+    action,
+    targetType: 'user',
+    targetId: user._id,
+    reason: req.body.reason,
+    before,
+    after: pickFields(user, ACCOUNT_FIELDS)
+  });
+};
+
+// Get users for moderation with filtering and pagination
+export const getUsers = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IUserDocument>>>) => {
+  const filter: any = {};
+
+  if (req.query.userType) {
+    filter.userType = req.query.userType;
+  }
+
+  if (req.query.accountStatus) {
+    filter.accountStatus = req.query.accountStatus;
+  }
+
+  if (req.query.isVerified !== undefined) {
+    filter.isVerified = req.query.isVerified === 'true';
+  }
+
+  if (req.query.email) {
+    filter.email = (req.query.email as string).toLowerCase();
+  }
+
+  const users = await findPage(User, filter, req.query, USER_LIST, { select: '-googleId' });
+
+  res.json({
+    success: true,
+    message: 'Users retrieved successfully',
+    data: users
+  });
+});
+
+// Suspend a user until a given date, or until reinstated
+export const suspendUser = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const user = await findTargetUser(req, res);
+  if (!user) return;
+
+  await updateAccount(req, user, 'suspend_user', {
+    accountStatus: 'suspended',
+    suspendedUntil: req.body.until ? new Date(req.body.until) : undefined,
+    statusReason: req.body.reason
+  });
+  await revokeAllSessions(user._id.toString(), 'account_blocked');
+
+  res.json({
+    success: true,
+    message: 'User suspended successfully',
+    data: user
+  });
+});
+
+// Ban a user permanently
+export const banUser = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const user = await findTargetUser(req, res);
+  if (!user) return;
+
+  await updateAccount(req, user, 'ban_user', {
+    accountStatus: 'banned',
+    suspendedUntil: undefined,
+    statusReason: req.body.reason,
+    isAvailable: false
+  });
+  await revokeAllSessions(user._id.toString(), 'account_blocked');
+
+  res.json({
+    success: true,
+    message: 'User banned successfully',
+    data: user
+  });
+});
+
+// Lift a suspension or ban
+export const reinstateUser = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const user = await findTargetUser(req, res);
+  if (!user) return;
+
+  if (user.accountStatus === 'active') {
+    res.status(400).json({
+      success: false,
+      message: 'User is not suspended or banned'
+    });
+    return;
+  }
+
+  await updateAccount(req, user, 'reinstate_user', {
+    accountStatus: 'active',
+    suspendedUntil: undefined,
+    statusReason: undefined
+  });
+
+  res.json({
+    success: true,
+    message: 'User reinstated successfully',
+    data: user
+  });
+});
+
+// Set whether a hospital account is verified, which controls whether it can confirm donations
+const setHospitalVerification = async (
+  req: AuthRequest,
+  res: Response<IApiResponse<IUserDocument>>,
+  verified: boolean
+): Promise<void> => {
+  const user = await findTargetUser(req, res);
+  if (!user) return;
+
+  if (user.userType !== 'hospital') {
+    res.status(400).json({
+      success: false,
+      message: 'Only hospital accounts can be verified'
+    });
+    return;
+  }
+
+  await updateAccount(req, user, verified ? 'verify_hospital' : 'unverify_hospital', {
+    isVerified: verified
+  });
+
+  res.json({
+    success: true,
+    message: verified ? 'Hospital verified successfully' : 'Hospital verification removed',
+    data: user
+  });
+};
+
+// Verify a hospital account
+export const verifyHospital = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  await setHospitalVerification(req, res, true);
+});
+
+// Remove a hospital account's verification
+export const unverifyHospital = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  await setHospitalVerification(req, res, false);
+});
+
+// Edit a blood request, e.g. to correct or tone down an abusive one
+export const updateBloodRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument>>) => {
+  const bloodRequest = await BloodRequest.findById(req.params.id);
+
+  if (!bloodRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Blood request not found'
+    });
+  }
+
+  const fields = EDITABLE_REQUEST_FIELDS.filter(field => req.body[field] !== undefined);
+
+  if (fields.length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'No editable fields provided'
+    });
+  }
+
+  const before = pickFields(bloodRequest, fields);
+
+  fields.forEach(field => bloodRequest.set(field, req.body[field]));
+  bloodRequest.addHistory('updated', req.user!, `Edited by admin: ${req.body.reason}`);
+  await bloodRequest.save();
+
+  await recordAudit(req, {
+    action: 'update_blood_request',
+    targetType: 'blood_request',
+    targetId: bloodRequest._id,
+    reason: req.body.reason,
+    before,
+    after: pickFields(bloodRequest, fields)
+  });
+
+  publishBloodRequestUpdate(bloodRequest);
+
+  return res.json({
+    success: true,
+    message: 'Blood request updated successfully',
+    data: bloodRequest
+  });
+});
+
+// Take down a blood request; it is cancelled rather than deleted so the record is kept
+export const removeBloodRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument>>) => {
+  const bloodRequest = await BloodRequest.findById(req.params.id);
+
+  if (!bloodRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Blood request not found'
+    });
+  }
+
+  if (bloodRequest.status === 'cancelled') {
+    return res.status(400).json({
+      success: false,
+      message: 'Blood request has already been removed'
+    });
+  }
+
+  const before = pickFields(bloodRequest, ['status']);
+
+  bloodRequest.status = 'cancelled';
+  bloodRequest.addHistory('cancelled', req.user!, `Removed by admin: ${req.body.reason}`);
+  await bloodRequest.save();
+
+  await cancelPendingPledges(bloodRequest._id, 'Request was removed');
+
+  await recordAudit(req, {
+    action: 'remove_blood_request',
+    targetType: 'blood_request',
+    targetId: bloodRequest._id,
+    reason: req.body.reason,
+    before,
+    after: pickFields(bloodRequest, ['status'])
+  });
+
+  publishBloodRequestEvent('bloodRequest:cancelled', bloodRequest);
+
+  return res.json({
+    success: true,
+    message: 'Blood request removed successfully',
+    data: bloodRequest
+  });
+});
+
+// Reverse a fraudulent donation, taking it out of the donor's stats and its request
+export const reverseDonation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+  const donationRecord = await DonationRecord.findById(req.params.id);
+
+  if (!donationRecord) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donation record not found'
+    });
+  }
+
+  const reversedRecord = await reverseVerifiedDonation(donationRecord._id, req.user!, req.body.reason);
+
+  if (!reversedRecord) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only completed donations can be reversed'
+    });
+  }
+
+  await recordAudit(req, {
+    action: 'reverse_donation',
+    targetType: 'donation',
+    targetId: reversedRecord._id,
+    reason: req.body.reason,
+    before: { status: donationRecord.status, verifiedBy: donationRecord.verifiedBy },
+    after: pickFields(reversedRecord, ['status', 'reversedAt'])
+  });
+
+  return res.json({
+    success: true,
+    message: 'Donation reversed successfully',
+    data: reversedRecord
+  });
+});
+
+// Get the audit log of admin actions, newest first
+export const getAuditLogs = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IAuditLogDocument>>>) => {
+  const filter: any = {};
+
+  if (req.query.action) {
+    filter.action = req.query.action;
+  }
+
+  if (req.query.targetType) {
+    filter.targetType = req.query.targetType;
+  }
+
+  if (req.query.targetId) {
+    filter.targetId = req.query.targetId;
+  }
+
+  if (req.query.adminId) {
+    filter.adminId = req.query.adminId;
+  }
+
+  const logs = await findPage(AuditLog, filter, req.query, AUDIT_LOG_LIST);
+
+  res.json({
+    success: true,
+    message: 'Audit logs retrieved successfully',
+    data: logs
+  });
+});
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { findPage } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+import { getHospitalAppointments } from './appointmentController';
+
+jest.mock('../services/listQueryService', () => ({
+  ...jest.requireActual('../services/listQueryService'),
+  findPage: jest.fn().mockResolvedValue({ data: [], pagination: {} })
+}));
+
+// Call a catchAsync handler and wait for its response or error
+const run = (handler: Function, req: any): Promise<{ status: number; body?: any; error?: any }> => {
+  return new Promise(resolve => {
+    let status = 200;
+    const res: any = {
+      status: jest.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: jest.fn((body: any) => {
+        resolve({ status, body });
+        return res;
+      })
+    };
+    handler(req, res, (error: any) => resolve({ status: 500, error }));
+  });
+};
+
+describe('getHospitalAppointments', () => {
+  const hospitalId = new mongoose.Types.ObjectId();
+
+  afterEach(() => jest.mocked(findPage).mockClear());
+
+  it('shows the hospital only the public profile of booked donors', async () => {
+    const { status } = await run(getHospitalAppointments, {
+      params: {},
+      user: { _id: hospitalId, name: 'City Hospital', userType: 'hospital' },
+      query: {}
+    });
+
+    expect(status).toBe(200);
+    const [, filter, , , options] = jest.mocked(findPage).mock.calls[0];
+    expect(filter).toEqual({ hospitalId, startTime: { $gte: expect.any(Date) } });
+    expect(options!.populate).toEqual({ path: 'donorId', select: PUBLIC_PROFILE_SELECT });
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('phone');
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('email');
+  });
+});
@@ -0,0 +1,354 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import Appointment, { IAppointmentDocument } from '../models/Appointment';
+import HospitalSchedule, { IHospitalScheduleDocument } from '../models/HospitalSchedule';
+import User from '../models/User';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { buildCalendar } from '../services/calendarService';
+import {
+  AppointmentSlot,
+  getAvailableSlots,
+  bookAppointment as bookHospitalAppointment,
+  cancelAppointment as cancelBookedAppointment,
+  checkInAppointment as checkInBookedAppointment,
+  toCalendarEvent,
+  getLocalDayRange
+} from '../services/appointmentService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+
+const APPOINTMENT_LIST: ListQuerySpec = {
+  sortFields: ['startTime', 'createdAt'],
+  defaultSort: { startTime: -1 },
+  ranges: {
+    date: { field: 'startTime', type: 'date' }
+  }
+};
+
+// How far back the calendar feed goes
+const FEED_HISTORY_DAYS = 90;
+
+// Get the current hospital's schedule, creating an empty one on first use
+const findOrCreateSchedule = async (hospitalId: any): Promise<IHospitalScheduleDocument> => {
+  const schedule = await HospitalSchedule.findOneAndUpdate(
+    { hospitalId },
+    { $setOnInsert: { hospitalId } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return schedule!;
+};
+
+// Load an appointment the current user is the donor or hospital of
+const findOwnAppointment = async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const appointment = await Appointment.findById(req.params.id);
+
+  if (!appointment) {
+    res.status(404).json({
+      success: false,
+      message: 'Appointment not found'
+    });
+    return null;
+  }
+
+  const userId = req.user!._id.toString();
+
+  if (appointment.donorId.toString() !== userId && appointment.hospitalId.toString() !== userId) {
+    res.status(403).json({
+      success: false,
+      message: 'You can only access your own appointments'
+    });
+    return null;
+  }
+
+  return appointment;
+};
+
+// Send an iCalendar document as a file download
+const sendCalendar = (res: Response, filename: string, calendar: string) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(calendar);
+};
+
+// Get own working hours, slot settings and blocked dates
+export const getSchedule = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IHospitalScheduleDocument>>) => {
+  const schedule = await findOrCreateSchedule(req.user!._id);
+
+  res.json({
+    success: true,
+    message: 'Schedule retrieved successfully',
+    data: schedule
+  });
+});
+
+// Update working hours and slot settings
+export const updateSchedule = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IHospitalScheduleDocument>>) => {
+  const schedule = await findOrCreateSchedule(req.user!._id);
+
+  ['timezone', 'slotMinutes', 'donorsPerSlot', 'workingHours']
+    .filter(field => req.body[field] !== undefined)
+    .forEach(field => schedule.set(field, req.body[field]));
+
+  await schedule.save();
+
+  res.json({
+    success: true,
+    message: 'Schedule updated successfully',
+    data: schedule
+  });
+});
+
+// Block out a date, e.g. a holiday
+export const addBlockedDate = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IHospitalScheduleDocument>>) => {
+  const schedule = await findOrCreateSchedule(req.user!._id);
+
+  if (schedule.isBlocked(req.body.date)) {
+    return res.status(400).json({
+      success: false,
+      message: 'This date is already blocked'
+    });
+  }
+
+  schedule.blockedDates.push({ date: req.body.date, reason: req.body.reason });
+  await schedule.save();
+
+  // Appointments already booked on the date are kept; the hospital cancels them if needed
+  const { start, end } = getLocalDayRange(req.body.date, schedule.timezone);
+  const booked = await Appointment.countDocuments({
+    hospitalId: req.user!._id,
+    status: 'booked',
+    startTime: { $gte: start, $lt: end }
+  });
+
+  return res.json({
+    success: true,
+    message: booked > 0
+      ? `Date blocked; ${booked} appointment(s) already booked on it still need to be cancelled`
+      : 'Date blocked successfully',
+    data: schedule
+  });
+});
+
+// Unblock a date
+export const removeBlockedDate = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IHospitalScheduleDocument>>) => {
+  const schedule = await findOrCreateSchedule(req.user!._id);
+
+  if (!schedule.isBlocked(req.params.date)) {
+    return res.status(404).json({
+      success: false,
+      message: 'This date is not blocked'
+    });
+  }
+
+  schedule.set('blockedDates', schedule.blockedDates.filter(blocked => blocked.date !== req.params.date));
+  await schedule.save();
+
+  return res.json({
+    success: true,
+    message: 'Date unblocked successfully',
+    data: schedule
+  });
+});
+
+// Get a hospital's free appointment slots on a date
+export const getHospitalAvailability = catchAsync(async (req: Request, res: Response<IApiResponse<AppointmentSlot[]>>) => {
+  const schedule = await HospitalSchedule.findOne({ hospitalId: req.params.hospitalId });
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      message: 'This hospital does not take appointments'
+    });
+  }
+
+  const slots = await getAvailableSlots(schedule, req.query.date as string);
+
+  return res.json({
+    success: true,
+    message: 'Available slots retrieved successfully',
+    data: slots
+  });
+});
+
+// Book an appointment at a hospital
+export const bookAppointment = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IAppointmentDocument>>) => {
+  const [hospital, schedule] = await Promise.all([
+    User.findOne({ _id: req.body.hospitalId, userType: 'hospital', isVerified: true }),
+    HospitalSchedule.findOne({ hospitalId: req.body.hospitalId })
+  ]);
+
+  if (!hospital || !schedule) {
+    return res.status(404).json({
+      success: false,
+      message: 'Hospital not found or not taking appointments'
+    });
+  }
+
+  const appointment = await bookHospitalAppointment(schedule, hospital, req.user!, new Date(req.body.startTime), req.body.notes);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Appointment booked successfully',
+    data: appointment
+  });
+});
+
+// Get current donor's appointments
+export const getMyAppointments = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IAppointmentDocument>>>) => {
+  const filter: any = { donorId: req.user!._id };
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  const appointments = await findPage(Appointment, filter, req.query, APPOINTMENT_LIST);
+
+  res.json({
+    success: true,
+    message: 'Appointments retrieved successfully',
+    data: appointments
+  });
+});
+
+// Get the current hospital's appointments, optionally for one local date
+export const getHospitalAppointments = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IAppointmentDocument>>>) => {
+  const filter: any = { hospitalId: req.user!._id };
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  if (req.query.date) {
+    const schedule = await findOrCreateSchedule(req.user!._id);
+    const { start, end } = getLocalDayRange(req.query.date as string, schedule.timezone);
+    filter.startTime = { $gte: start, $lt: end };
+  } else {
+    filter.startTime = { $gte: new Date() };
+  }
+
+  const appointments = await findPage(Appointment, filter, req.query, { ...APPOINTMENT_LIST, defaultSort: { startTime: 1 } }, {
+    populate: { path: 'donorId', select: PUBLIC_PROFILE_SELECT }
+  });
+
+  res.json({
+    success: true,
+    message: 'Appointments retrieved successfully',
+    data: appointments
+  });
+});
+
+// Cancel an appointment, as its donor or hospital
+export const cancelAppointment = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IAppointmentDocument>>) => {
+  const appointment = await findOwnAppointment(req, res);
+  if (!appointment) return;
+
+  const cancelled = await cancelBookedAppointment(appointment, req.user!, req.body.reason);
+
+  if (!cancelled) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only booked appointments can be cancelled'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Appointment cancelled successfully',
+    data: cancelled
+  });
+});
+
+// Check a donor in, creating their donation record for verification
+export const checkInAppointment = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IAppointmentDocument>>) => {
+  const appointment = await Appointment.findOne({ _id: req.params.id, hospitalId: req.user!._id });
+
+  if (!appointment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Appointment not found'
+    });
+  }
+
+  const checkedIn = await checkInBookedAppointment(appointment, req.user!);
+
+  return res.json({
+    success: true,
+    message: 'Donor checked in; the donation is awaiting verification',
+    data: checkedIn
+  });
+});
+
+// Mark a donor who did not turn up
+export const markNoShow = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IAppointmentDocument>>) => {
+  const appointment = await Appointment.findOneAndUpdate(
+    { _id: req.params.id, hospitalId: req.user!._id, status: 'booked', startTime: { $lte: new Date() } },
+    { $set: { status: 'no_show' } },
+    { new: true }
+  );
+
+  if (!appointment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Appointment not found, not booked or not started yet'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Appointment marked as no-show',
+    data: appointment
+  });
+});
+
+// Download an appointment as an iCalendar file
+export const downloadAppointmentCalendar = catchAsync(async (req: AuthRequest, res: Response) => {
+  const appointment = await findOwnAppointment(req, res);
+  if (!appointment) return;
+
+  return sendCalendar(
+    res,
+    `appointment-${appointment._id}.ics`,
+    buildCalendar('Blood donation appointment', [toCalendarEvent(appointment)])
+  );
+});
+
+// Create (or replace) the secret URL of the donor's appointment feed
+export const createCalendarFeed = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ url: string }>>) => {
+  const user = req.user!;
+  const feedToken = user.createCalendarFeedToken();
+  await user.save({ validateBeforeSave: false });
+
+  res.status(201).json({
+    success: true,
+    message: 'Calendar feed created; any previous feed URL no longer works',
+    data: { url: `${config.apiUrl}/api/appointments/feed/${feedToken}.ics` }
+  });
+});
+
+// Serve a donor's appointments as a subscribable iCalendar feed
+export const getCalendarFeed = catchAsync(async (req: Request, res: Response<IApiResponse>) => {
+  const hashedToken = crypto.createHash('sha256').update(req.params.token).digest('hex');
+  const user = await User.findOne({ calendarFeedToken: hashedToken });
+
+  if (!user || user.isBlocked()) {
+    return res.status(404).json({
+      success: false,
+      message: 'Calendar feed not found'
+    });
+  }
+
+  const appointments = await Appointment.find({
+    donorId: user._id,
+    status: { $in: ['booked', 'completed', 'cancelled'] },
+    startTime: { $gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) }
+  }).sort({ startTime: 1 });
+
+  return sendCalendar(
+    res,
+    'blood-donation-appointments.ics',
+    buildCalendar('Blood donation appointments', appointments.map(toCalendarEvent))
+  );
+});
@@ -1,10 +1,19 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
 import User, { IUserDocument } from '../models/User';
 import { config } from '../config/config';
-import { generateToken, generateRefreshToken, verifyRefreshToken } from '../middleware/auth';
+import { sendPasswordResetEmail } from '../services/emailService';
+import {
+  startSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  getActiveSessions
+} from '../services/sessionService';
+import { refreshEligibleDates } from '../services/donationVerificationService';
 import { IApiResponse, IAuthTokens } from '../types';
 
 // Configure Google OAuth Strategy
@@ -106,8 +115,11 @@ export const handleGoogleAuth = async (req: Request, res: Response<IApiResponse<
       });
     }
 
-    const accessToken = generateToken(user._id!);
-    const refreshToken = generateRefreshToken(user._id!);
+    if (user.isBlocked()) {
+      return res.redirect(`${config.frontendUrl}/login?error=account_blocked`);
+    }
+
+    const { accessToken, refreshToken } = await startSession(user._id!.toString(), req);
 
     return res.redirect(`${config.frontendUrl}/auth/success?token=${accessToken}&refresh=${refreshToken}`);
   } catch (error) {
@@ -128,16 +140,23 @@ export const refreshToken = async (req: Request, res: Response<IApiResponse<IAut
       });
     }
 
-    const decoded = verifyRefreshToken(refreshToken);
-    
-    if (!decoded) {
+    const result = await rotateSession(refreshToken, req);
+
+    if (result.status === 'reused') {
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token was already used. This session has been ended, please log in again.'
+      });
+    }
+
+    if (result.status === 'invalid') {
       return res.status(401).json({
         success: false,
         message: 'Invalid or expired refresh token'
       });
     }
 
-    const user = await User.findById(decoded.userId);
+    const user = await User.findById(result.userId);
     
     if (!user) {
       return res.status(401).json({
@@ -146,16 +165,10 @@ export const refreshToken = async (req: Request, res: Response<IApiResponse<IAut
       });
     }
 
-    const newAccessToken = generateToken(user._id);
-    const newRefreshToken = generateRefreshToken(user._id);
-
-    res.json({
+    return res.json({
       success: true,
       message: 'Tokens refreshed successfully',
-      data: {
-        accessToken: newAccessToken,
-        refreshToken: newRefreshToken
-      }
+      data: result.tokens
     });
   } catch (error) {
     console.error('Refresh token error:', error);
@@ -169,7 +182,7 @@ export const refreshToken = async (req: Request, res: Response<IApiResponse<IAut
 // Manual registration
 export const register = async (req: Request, res: Response<IApiResponse<IAuthTokens>>) => {
   try {
-    const { name, email, userType, bloodGroup, phone, city, pincode, age, weight } = req.body;
+    const { name, email, password, userType, bloodGroup, phone, city, pincode, age, weight, sex } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -184,6 +197,7 @@ export const register = async (req: Request, res: Response<IApiResponse<IAuthTok
     const user = new User({
       name,
       email,
+      password,
       userType,
       bloodGroup: userType === 'donor' ? bloodGroup : undefined,
       phone,
@@ -191,13 +205,13 @@ export const register = async (req: Request, res: Response<IApiResponse<IAuthTok
       pincode,
       age: userType === 'donor' ? age : undefined,
       weight: userType === 'donor' ? weight : undefined,
+      sex: userType === 'donor' ? sex : undefined,
       isVerified: false
     });
 
     await user.save();
 
-    const accessToken = generateToken(user._id);
-    const refreshToken = generateRefreshToken(user._id);
+    const { accessToken, refreshToken } = await startSession(user._id.toString(), req);
 
     res.status(201).json({
       success: true,
@@ -219,19 +233,25 @@ export const register = async (req: Request, res: Response<IApiResponse<IAuthTok
 // Manual login
 export const login = async (req: Request, res: Response<IApiResponse<IAuthTokens>>) => {
   try {
-    const { email } = req.body;
+    const { email, password } = req.body;
 
-    const user = await User.findOne({ email });
+    const user = await User.findOne({ email }).select('+password');
     
-    if (!user) {
+    if (!user || !(await user.comparePassword(password))) {
       return res.status(401).json({
         success: false,
         message: 'Invalid credentials'
       });
     }
 
-    const accessToken = generateToken(user._id);
-    const refreshToken = generateRefreshToken(user._id);
+    if (user.isBlocked()) {
+      return res.status(403).json({
+        success: false,
+        message: user.accountStatus === 'banned' ? 'Account has been banned' : 'Account is suspended'
+      });
+    }
+
+    const { accessToken, refreshToken } = await startSession(user._id.toString(), req);
 
     res.json({
       success: true,
@@ -278,15 +298,45 @@ export const updateProfile = async (req: Request, res: Response<IApiResponse<IUs
     // Remove sensitive fields
     delete updates._id;
     delete updates.googleId;
+    delete updates.password;
+    delete updates.passwordChangedAt;
+    delete updates.passwordResetToken;
+    delete updates.passwordResetExpires;
+    delete updates.pushTokens;
+    delete updates.calendarFeedToken;
     delete updates.createdAt;
+
+    // Roles, verification, account status, donation stats and deferrals are only changed by admins or hospitals
+    delete updates.userType;
+    delete updates.isVerified;
+    delete updates.accountStatus;
+    delete updates.suspendedUntil;
+    delete updates.statusReason;
+    delete updates.donationCount;
+    delete updates.lastDonation;
+    delete updates.nextEligibleDates;
+    delete updates.eligibilityUpdatedAt;
+    delete updates.tier;
+    delete updates.streak;
+    delete updates.leaderboardOptOut;
+    delete updates.deletionRequestedAt;
+    delete updates.deletionScheduledFor;
+    delete updates.deletedAt;
+    delete updates.deferrals;
     delete updates.updatedAt;
 
-    const updatedUser = await User.findByIdAndUpdate(
+    let updatedUser = await User.findByIdAndUpdate(
       user._id,
       updates,
       { new: true, runValidators: true }
     );
 
+    // Donation intervals depend on sex, so recompute them when it changes
+    if (updatedUser && updatedUser.sex !== user.sex) {
+      await refreshEligibleDates(user._id);
+      updatedUser = await User.findById(user._id);
+    }
+
     res.json({
       success: true,
       message: 'Profile updated successfully',
@@ -301,10 +351,225 @@ export const updateProfile = async (req: Request, res: Response<IApiResponse<IUs
   }
 };
 
-// Logout (client-side token removal)
-export const logout = async (req: Request, res: Response<IApiResponse>) => {
-  res.json({
+// Change password for the logged-in user
+export const changePassword = async (req: Request, res: Response<IApiResponse<IAuthTokens>>) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById((req.user as IUserDocument)._id).select('+password');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Accounts created through Google have no password yet
+    if (user.password && !(await user.comparePassword(currentPassword))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    // End every session, including this one, and start a fresh one for this device
+    await revokeAllSessions(user._id.toString(), 'password_changed');
+    const { accessToken, refreshToken } = await startSession(user._id.toString(), req);
+
+    return res.json({
+      success: true,
+      message: 'Password changed successfully',
+      data: {
+        accessToken,
+        refreshToken
+      }
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Send a password reset link by email
+export const forgotPassword = async (req: Request, res: Response<IApiResponse>) => {
+  // Same response whether or not the email exists, so accounts cannot be enumerated
+  const genericResponse = {
     success: true,
-    message: 'Logout successful'
-  });
+    message: 'If an account exists for this email, a password reset link has been sent'
+  };
+
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+
+    if (!user) {
+      return res.json(genericResponse);
+    }
+
+    const resetToken = user.createPasswordResetToken();
+    await user.save({ validateBeforeSave: false });
+
+    try {
+      await sendPasswordResetEmail(user.email, user.name, resetToken);
+    } catch (error) {
+      // Logged only: a different response would show that the account exists
+      console.error('Password reset email error:', error);
+
+      user.passwordResetToken = undefined;
+      user.passwordResetExpires = undefined;
+      await user.save({ validateBeforeSave: false });
+    }
+
+    return res.json(genericResponse);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Reset password using the emailed token
+export const resetPassword = async (req: Request, res: Response<IApiResponse<IAuthTokens>>) => {
+  try {
+    const { token, password } = req.body;
+
+    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+    const user = await User.findOne({
+      passwordResetToken: hashedToken,
+      passwordResetExpires: { $gt: new Date() }
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset token is invalid or has expired'
+      });
+    }
+
+    user.password = password;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    await revokeAllSessions(user._id.toString(), 'password_changed');
+    const { accessToken, refreshToken } = await startSession(user._id.toString(), req);
+
+    return res.json({
+      success: true,
+      message: 'Password reset successfully',
+      data: {
+        accessToken,
+        refreshToken
+      }
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Logout from the current session
+export const logout = async (req: Request, res: Response<IApiResponse>) => {
+  try {
+    const user = req.user as IUserDocument;
+
+    await revokeSession(req.sessionId!, user._id!.toString(), 'logout');
+
+    return res.json({
+      success: true,
+      message: 'Logout successful'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Logout from every device
+export const logoutAll = async (req: Request, res: Response<IApiResponse<{ revoked: number }>>) => {
+  try {
+    const user = req.user as IUserDocument;
+
+    const revoked = await revokeAllSessions(user._id!.toString(), 'logout_all');
+
+    return res.json({
+      success: true,
+      message: 'Logged out from all devices',
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// List the current user's active sessions
+export const getSessions = async (req: Request, res: Response<IApiResponse<any[]>>) => {
+  try {
+    const user = req.user as IUserDocument;
+
+    const sessions = await getActiveSessions(user._id!.toString());
+
+    return res.json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: sessions.map(session => ({
+        ...session.toJSON(),
+        current: session._id.toString() === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Revoke one of the current user's sessions
+export const deleteSession = async (req: Request, res: Response<IApiResponse>) => {
+  try {
+    const user = req.user as IUserDocument;
+
+    const revoked = await revokeSession(req.params.id, user._id!.toString(), 'revoked');
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Delete session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
 };
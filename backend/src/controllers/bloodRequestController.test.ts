@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest';
+import { findPage } from '../services/listQueryService';
+import { getBloodRequests, updateBloodRequest } from './bloodRequestController';
+
+jest.mock('../services/listQueryService', () => ({
+  ...jest.requireActual('../services/listQueryService'),
+  findPage: jest.fn().mockResolvedValue({ data: [], pagination: {} })
+}));
+
+jest.mock('../services/socketService', () => ({
+  publishBloodRequestEvent: jest.fn(),
+  publishBloodRequestUpdate: jest.fn()
+}));
+
+// Call a catchAsync handler and wait for its response or error
+const run = (handler: Function, req: any): Promise<{ status: number; body?: any; error?: any }> => {
+  return new Promise(resolve => {
+    let status = 200;
+    const res: any = {
+      status: jest.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: jest.fn((body: any) => {
+        resolve({ status, body });
+        return res;
+      })
+    };
+    handler(req, res, (error: any) => resolve({ status: 500, error }));
+  });
+};
+
+describe('updateBloodRequest', () => {
+  const requesterId = new mongoose.Types.ObjectId();
+  const requestId = new mongoose.Types.ObjectId();
+  const user = { _id: requesterId, name: 'Requester', userType: 'patient' };
+  let update: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(BloodRequest, 'findById').mockResolvedValue({
+      _id: requestId,
+      requesterId,
+      status: 'active',
+      urgency: 'normal'
+    } as any);
+    update = jest.spyOn(BloodRequest, 'findByIdAndUpdate').mockReturnValue({
+      populate: jest.fn().mockResolvedValue({ _id: requestId, status: 'active', urgency: 'normal' })
+    } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('changes only the fields a requester may edit', async () => {
+    const expiresAt = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    const { status } = await run(updateBloodRequest, {
+      params: { id: requestId.toString() },
+      user,
+      body: {
+        unitsNeeded: 3,
+        description: 'Surgery moved to Monday',
+        expiresAt,
+        extensionCount: 0,
+        requesterId: new mongoose.Types.ObjectId(),
+        status: 'fulfilled'
+      }
+    });
+
+    expect(status).toBe(200);
+    const [, changes] = update.mock.calls[0];
+    expect(changes.$set).toEqual({ unitsNeeded: 3, description: 'Surgery moved to Monday' });
+  });
+
+  it('rejects an update that only touches expiry and extensions', async () => {
+    const { status } = await run(updateBloodRequest, {
+      params: { id: requestId.toString() },
+      user,
+      body: { expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), extensionCount: 0 }
+    });
+
+    expect(status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('getBloodRequests', () => {
+  afterEach(() => jest.mocked(findPage).mockClear());
+
+  it('lists the most urgent requests first', async () => {
+    const { status } = await run(getBloodRequests, { query: {} });
+
+    expect(status).toBe(200);
+    const [, , , spec] = jest.mocked(findPage).mock.calls[0];
+    expect(spec.defaultSort).toEqual({ urgencyRank: -1, createdAt: 1 });
+    expect(spec.sortFields).toContain('urgencyRank');
+    expect(spec.sortFields).not.toContain('urgency');
+  });
+});
@@ -1,9 +1,38 @@
 import { Request, Response } from 'express';
-import BloodRequest, { IBloodRequestDocument } from '../models/BloodRequest';
+import BloodRequest, { IBloodRequestDocument, getExpiryDate, BLOOD_REQUEST_SEARCH_WEIGHTS, URGENCY_RANK } from '../models/BloodRequest';
 import User from '../models/User';
-import { IApiResponse, IPaginatedResponse, BloodGroup, UrgencyLevel } from '../types';
+import { IApiResponse, IPaginatedResponse, ISearchResult, BloodGroup, UrgencyLevel } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { alertDonorsForRequest } from '../services/notificationService';
+import { publishBloodRequestEvent, publishBloodRequestUpdate } from '../services/socketService';
+import { cancelPendingPledges } from '../services/pledgeService';
+import { PUBLIC_PROFILE_SELECT, toPublicProfile } from '../services/contactService';
+import { textPattern, textSearch } from '../services/searchService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+import { fromGeoPoint } from '../services/geoService';
+
+const BLOOD_REQUEST_LIST: ListQuerySpec = {
+  sortFields: ['createdAt', 'expiresAt', 'urgencyRank', 'unitsNeeded'],
+  defaultSort: { urgencyRank: -1, createdAt: 1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' },
+    units: { field: 'unitsNeeded', type: 'number' }
+  }
+};
+
+// Fields a requester may change on an active request. Blood group and component are fixed once
+// donors have pledged, and status, progress, expiry and extensions only change through their own
+// workflows.
+const REQUESTER_EDITABLE_FIELDS = ['patientName', 'urgency', 'hospital', 'city', 'pincode', 'unitsNeeded', 'contactPhone', 'description'];
+
+// Alert donors in the background so the requester is not kept waiting
+const alertDonorsInBackground = (bloodRequest: IBloodRequestDocument, reason: 'created' | 'escalated'): void => {
+  alertDonorsForRequest(bloodRequest, reason).catch(error => {
+    console.error('Donor alerting error:', error);
+  });
+};
 
 // Create blood request
 export const createBloodRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument>>) => {
@@ -14,11 +43,16 @@ export const createBloodRequest = catchAsync(async (req: AuthRequest, res: Respo
   };
 
   const bloodRequest = new BloodRequest(requestData);
+  bloodRequest.addHistory('created', req.user!);
   await bloodRequest.save();
 
+  alertDonorsInBackground(bloodRequest, 'created');
+
   // Populate requester details
   await bloodRequest.populate('requesterId', 'name email phone');
 
+  publishBloodRequestEvent('bloodRequest:created', bloodRequest);
+
   res.status(201).json({
     success: true,
     message: 'Blood request created successfully',
@@ -28,10 +62,6 @@ export const createBloodRequest = catchAsync(async (req: AuthRequest, res: Respo
 
 // Get all blood requests with filtering and pagination
 export const getBloodRequests = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<IBloodRequestDocument>>>) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-
   // Build filter query
   const filter: any = { status: 'active' };
   
@@ -44,7 +74,7 @@ export const getBloodRequests = catchAsync(async (req: Request, res: Response<IA
   }
   
   if (req.query.city) {
-    filter.city = new RegExp(req.query.city as string, 'i');
+    filter.city = textPattern(req.query.city as string);
   }
   
   if (req.query.pincode) {
@@ -54,31 +84,14 @@ export const getBloodRequests = catchAsync(async (req: Request, res: Response<IA
   // Only show non-expired requests
   filter.expiresAt = { $gt: new Date() };
 
-  const [requests, total] = await Promise.all([
-    BloodRequest.find(filter)
-      .populate('requesterId', 'name email phone')
-      .sort({ urgency: -1, createdAt: 1 })
-      .skip(skip)
-      .limit(limit),
-    BloodRequest.countDocuments(filter)
-  ]);
-
-  const pages = Math.ceil(total / limit);
+  const requests = await findPage(BloodRequest, filter, req.query, BLOOD_REQUEST_LIST, {
+    populate: { path: 'requesterId', select: 'name email phone' }
+  });
 
   res.json({
     success: true,
     message: 'Blood requests retrieved successfully',
-    data: {
-      data: requests,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages,
-        hasNext: page < pages,
-        hasPrev: page > 1
-      }
-    }
+    data: requests
   });
 });
 
@@ -86,7 +99,7 @@ export const getBloodRequests = catchAsync(async (req: Request, res: Response<IA
 export const getBloodRequest = catchAsync(async (req: Request, res: Response<IApiResponse<IBloodRequestDocument>>) => {
   const bloodRequest = await BloodRequest.findById(req.params.id)
     .populate('requesterId', 'name email phone')
-    .populate('fulfilledBy', 'name email phone bloodGroup');
+    .populate('fulfilledBy', PUBLIC_PROFILE_SELECT);
 
   if (!bloodRequest) {
     return res.status(404).json({
@@ -129,12 +142,43 @@ export const updateBloodRequest = catchAsync(async (req: AuthRequest, res: Respo
     });
   }
 
+  const updates = Object.fromEntries(
+    REQUESTER_EDITABLE_FIELDS.filter(field => req.body[field] !== undefined).map(field => [field, req.body[field]])
+  );
+
+  if (!Object.keys(updates).length) {
+    return res.status(400).json({
+      success: false,
+      message: `Nothing to update; editable fields are: ${REQUESTER_EDITABLE_FIELDS.join(', ')}`
+    });
+  }
+
   const updatedRequest = await BloodRequest.findByIdAndUpdate(
     req.params.id,
-    req.body,
+    {
+      $set: updates,
+      $push: {
+        history: {
+          action: 'updated',
+          status: bloodRequest.status,
+          by: req.user!._id,
+          byName: req.user!.name,
+          note: `Updated ${Object.keys(updates).join(', ')}`,
+          at: new Date()
+        }
+      }
+    },
     { new: true, runValidators: true }
   ).populate('requesterId', 'name email phone');
 
+  if (updatedRequest && URGENCY_RANK[updatedRequest.urgency] > URGENCY_RANK[bloodRequest.urgency]) {
+    alertDonorsInBackground(updatedRequest, 'escalated');
+  }
+
+  if (updatedRequest) {
+    publishBloodRequestUpdate(updatedRequest);
+  }
+
   res.json({
     success: true,
     message: 'Blood request updated successfully',
@@ -162,6 +206,11 @@ export const deleteBloodRequest = catchAsync(async (req: AuthRequest, res: Respo
   }
 
   await BloodRequest.findByIdAndDelete(req.params.id);
+  await cancelPendingPledges(bloodRequest._id, 'Request was withdrawn');
+
+  // Feeds treat a deleted request like a cancelled one
+  bloodRequest.status = 'cancelled';
+  publishBloodRequestEvent('bloodRequest:cancelled', bloodRequest);
 
   res.json({
     success: true,
@@ -169,7 +218,7 @@ export const deleteBloodRequest = catchAsync(async (req: AuthRequest, res: Respo
   });
 });
 
-// Mark request as fulfilled
+// Close a request as fulfilled by the requester, e.g. when blood was arranged outside the app
 export const fulfillRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument>>) => {
   const bloodRequest = await BloodRequest.findById(req.params.id);
 
@@ -180,6 +229,13 @@ export const fulfillRequest = catchAsync(async (req: AuthRequest, res: Response<
     });
   }
 
+  if (bloodRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to fulfill this request'
+    });
+  }
+
   if (bloodRequest.status !== 'active') {
     return res.status(400).json({
       success: false,
@@ -188,33 +244,81 @@ export const fulfillRequest = catchAsync(async (req: AuthRequest, res: Response<
   }
 
   bloodRequest.status = 'fulfilled';
-  if (req.user!._id) {
-    bloodRequest.fulfilledBy.push(req.user!._id);
-  }
-  
+  bloodRequest.addHistory('fulfilled', req.user!, req.body.note || 'Closed by requester');
   await bloodRequest.save();
 
-  res.json({
+  await cancelPendingPledges(bloodRequest._id, 'Request has been fulfilled');
+
+  publishBloodRequestEvent('bloodRequest:fulfilled', bloodRequest);
+
+  return res.json({
     success: true,
     message: 'Request marked as fulfilled',
     data: bloodRequest
   });
 });
 
+// Extend an active request, or renew an expired one, by another full lifetime
+export const extendBloodRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument>>) => {
+  const bloodRequest = await BloodRequest.findById(req.params.id);
+
+  if (!bloodRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Blood request not found'
+    });
+  }
+
+  if (bloodRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to extend this request'
+    });
+  }
+
+  if (bloodRequest.status !== 'active' && bloodRequest.status !== 'expired') {
+    return res.status(400).json({
+      success: false,
+      message: 'Only active or expired requests can be extended'
+    });
+  }
+
+  if ((bloodRequest.extensionCount || 0) >= config.maxRequestExtensions) {
+    return res.status(400).json({
+      success: false,
+      message: 'This request has already been extended. Please create a new request.'
+    });
+  }
+
+  // Extend from the current expiry if it is still ahead, otherwise from now
+  const now = new Date();
+  const from = bloodRequest.expiresAt && bloodRequest.expiresAt > now ? bloodRequest.expiresAt : now;
+
+  bloodRequest.expiresAt = getExpiryDate(bloodRequest.urgency, from);
+  bloodRequest.status = 'active';
+  bloodRequest.extensionCount = (bloodRequest.extensionCount || 0) + 1;
+  bloodRequest.expiryWarningSentAt = undefined;
+  bloodRequest.addHistory('extended', req.user!, `Extended until ${bloodRequest.expiresAt.toISOString()}`);
+  await bloodRequest.save();
+
+  publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+
+  return res.json({
+    success: true,
+    message: 'Blood request extended successfully',
+    data: bloodRequest
+  });
+});
+
 // Get user's blood requests
-export const getUserBloodRequests = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IBloodRequestDocument[]>>) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-
-  const [requests, total] = await Promise.all([
-    BloodRequest.find({ requesterId: req.user!._id })
-      .populate('fulfilledBy', 'name email phone bloodGroup')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit),
-    BloodRequest.countDocuments({ requesterId: req.user!._id })
-  ]);
+export const getUserBloodRequests = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IBloodRequestDocument>>>) => {
+  const requests = await findPage(
+    BloodRequest,
+    { requesterId: req.user!._id },
+    req.query,
+    { ...BLOOD_REQUEST_LIST, defaultSort: { createdAt: -1 } },
+    { populate: { path: 'fulfilledBy', select: PUBLIC_PROFILE_SELECT } }
+  );
 
   res.json({
     success: true,
@@ -223,27 +327,45 @@ export const getUserBloodRequests = catchAsync(async (req: AuthRequest, res: Res
   });
 });
 
-// Get nearby donors for a blood request
+// Get nearby donors who are compatible with a blood request, without their contact details
 export const getNearbyDonors = catchAsync(async (req: Request, res: Response<IApiResponse<any[]>>) => {
-  const { bloodGroup, city, pincode } = req.query;
+  const bloodRequest = await BloodRequest.findById(req.params.id);
 
-  if (!bloodGroup) {
-    return res.status(400).json({
+  if (!bloodRequest) {
+    return res.status(404).json({
       success: false,
-      message: 'Blood group is required'
+      message: 'Blood request not found'
     });
   }
 
+  // Search around the given point, or around the request's own location
+  const near = req.query.lat !== undefined
+    ? { lat: parseFloat(req.query.lat as string), lng: parseFloat(req.query.lng as string) }
+    : fromGeoPoint(bloodRequest.location);
+
+  if (near) {
+    const radiusKm = parseFloat(req.query.radiusKm as string) || config.donorSearchRadiusKm;
+    const donors = await User.findNearbyDonors(bloodRequest.bloodGroup, near, radiusKm, bloodRequest.component);
+
+    return res.json({
+      success: true,
+      message: 'Nearby donors retrieved successfully',
+      data: donors.map(toPublicProfile)
+    });
+  }
+
+  // Requests whose pincode could not be placed on the map fall back to city matching
   const donors = await User.findAvailableDonors(
-    bloodGroup as BloodGroup,
-    city as string,
-    pincode as string
+    bloodRequest.bloodGroup,
+    (req.query.city as string) ?? bloodRequest.city,
+    req.query.pincode as string | undefined,
+    bloodRequest.component
   );
 
   res.json({
     success: true,
     message: 'Nearby donors retrieved successfully',
-    data: donors
+    data: donors.map(toPublicProfile)
   });
 });
 
@@ -266,32 +388,62 @@ export const getBloodRequestStats = catchAsync(async (req: Request, res: Respons
   });
 });
 
-// Search blood requests
-export const searchBloodRequests = catchAsync(async (req: Request, res: Response<IApiResponse<IBloodRequestDocument[]>>) => {
+// Search active blood requests by hospital, patient name, city or description, best matches first
+export const searchBloodRequests = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<ISearchResult<any>>>>) => {
   const { q, bloodGroup, city, urgency } = req.query;
-  
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
   const filter: any = { status: 'active', expiresAt: { $gt: new Date() } };
-  
-  if (q) {
-    filter.$or = [
-      { patientName: new RegExp(q as string, 'i') },
-      { hospital: new RegExp(q as string, 'i') },
-      { description: new RegExp(q as string, 'i') }
-    ];
-  }
-  
+
   if (bloodGroup) filter.bloodGroup = bloodGroup;
-  if (city) filter.city = new RegExp(city as string, 'i');
+  if (city) filter.city = textPattern(city as string);
   if (urgency) filter.urgency = urgency;
 
-  const requests = await BloodRequest.find(filter)
-    .populate('requesterId', 'name email phone')
-    .sort({ urgency: -1, createdAt: 1 })
-    .limit(20);
+  let results: ISearchResult<any>[];
+  let total: number;
+
+  if (q) {
+    const search = await textSearch(BloodRequest, {
+      q: q as string,
+      filter,
+      weights: BLOOD_REQUEST_SEARCH_WEIGHTS,
+      page,
+      limit
+    });
+    await BloodRequest.populate(search.results.map(result => result.doc), { path: 'requesterId', select: 'name email phone' });
+
+    results = search.results.map(({ doc, score, highlights }) => ({ ...doc.toJSON(), score, highlights }));
+    total = search.total;
+  } else {
+    const [requests, count] = await Promise.all([
+      BloodRequest.find(filter)
+        .populate('requesterId', 'name email phone')
+        .sort({ urgencyRank: -1, createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      BloodRequest.countDocuments(filter)
+    ]);
+
+    results = requests.map(request => ({ ...request.toJSON(), score: 0, highlights: [] }));
+    total = count;
+  }
+
+  const pages = Math.ceil(total / limit);
 
   res.json({
     success: true,
     message: 'Search results retrieved successfully',
-    data: requests
+    data: {
+      data: results,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1
+      }
+    }
   });
 });
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import DonationCamp from '../models/DonationCamp';
+import { findPage } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+import { getCampBookings } from './campController';
+
+jest.mock('../services/listQueryService', () => ({
+  ...jest.requireActual('../services/listQueryService'),
+  findPage: jest.fn().mockResolvedValue({ data: [], pagination: {} })
+}));
+
+// Call a catchAsync handler and wait for its response or error
+const run = (handler: Function, req: any): Promise<{ status: number; body?: any; error?: any }> => {
+  return new Promise(resolve => {
+    let status = 200;
+    const res: any = {
+      status: jest.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: jest.fn((body: any) => {
+        resolve({ status, body });
+        return res;
+      })
+    };
+    handler(req, res, (error: any) => resolve({ status: 500, error }));
+  });
+};
+
+describe('getCampBookings', () => {
+  const organizerId = new mongoose.Types.ObjectId();
+  const campId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(DonationCamp, 'findById').mockResolvedValue({ _id: campId, organizerId } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(findPage).mockClear();
+  });
+
+  it('shows the organiser only the public profile of booked donors', async () => {
+    const { status } = await run(getCampBookings, {
+      params: { id: campId.toString() },
+      user: { _id: organizerId, name: 'Organiser', userType: 'hospital' },
+      query: {}
+    });
+
+    expect(status).toBe(200);
+    const [, filter, , , options] = jest.mocked(findPage).mock.calls[0];
+    expect(filter).toEqual({ campId });
+    expect(options!.populate).toEqual({ path: 'donorId', select: PUBLIC_PROFILE_SELECT });
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('phone');
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('email');
+  });
+
+  it('only lists bookings for the organiser', async () => {
+    const { status } = await run(getCampBookings, {
+      params: { id: campId.toString() },
+      user: { _id: new mongoose.Types.ObjectId(), name: 'Someone', userType: 'donor' },
+      query: {}
+    });
+
+    expect(status).toBe(403);
+    expect(findPage).not.toHaveBeenCalled();
+  });
+});
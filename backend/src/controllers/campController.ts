@@ -0,0 +1,346 @@
+import { Request, Response } from 'express';
+import DonationCamp, { IDonationCampDocument } from '../models/DonationCamp';
+import CampBooking, { ICampBookingDocument } from '../models/CampBooking';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { resolvePincode, toGeoPoint, kmToMeters } from '../services/geoService';
+import { bookSlot, cancelBooking as cancelCampBooking, checkInBooking, cancelCamp as cancelScheduledCamp } from '../services/campService';
+import { textPattern } from '../services/searchService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+
+const CAMP_LIST: ListQuerySpec = {
+  sortFields: ['date', 'name', 'createdAt'],
+  defaultSort: { date: 1 },
+  ranges: {
+    date: { field: 'date', type: 'date' }
+  }
+};
+
+const BOOKING_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  }
+};
+
+// A camp's bookings for its organiser, grouped by slot
+const CAMP_BOOKING_LIST: ListQuerySpec = {
+  ...BOOKING_LIST,
+  sortFields: ['slotId', 'createdAt'],
+  defaultSort: { slotId: 1, createdAt: 1 },
+  defaultLimit: 50
+};
+
+const EARTH_RADIUS_METERS = 6378100;
+
+// Camp fields an organiser may change after creation; slots are fixed once donors can book them
+const EDITABLE_CAMP_FIELDS = ['name', 'description', 'venue', 'address', 'city', 'pincode', 'date'];
+
+// Load a camp owned by the current user
+const findOrganizedCamp = async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const camp = await DonationCamp.findById(req.params.id);
+
+  if (!camp) {
+    res.status(404).json({
+      success: false,
+      message: 'Donation camp not found'
+    });
+    return null;
+  }
+
+  if (camp.organizerId.toString() !== req.user!._id.toString()) {
+    res.status(403).json({
+      success: false,
+      message: 'Only the camp organiser can perform this action'
+    });
+    return null;
+  }
+
+  return camp;
+};
+
+// Get upcoming camps, nearest first when a location is given
+export const getCamps = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<IDonationCampDocument>>>) => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const filter: any = { status: 'scheduled', date: { $gte: startOfToday } };
+
+  if (req.query.city) {
+    filter.city = textPattern(req.query.city as string);
+  }
+
+  // Prefer a distance search: explicit coordinates first, then the pincode's location
+  const near = req.query.lat !== undefined
+    ? { lat: parseFloat(req.query.lat as string), lng: parseFloat(req.query.lng as string) }
+    : resolvePincode(req.query.pincode as string | undefined);
+
+  if (!near) {
+    const camps = await findPage(DonationCamp, filter, req.query, CAMP_LIST);
+
+    return res.json({
+      success: true,
+      message: 'Donation camps retrieved successfully',
+      data: camps
+    });
+  }
+
+  // Distance searches are ordered by distance, so they are paged by page number only
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+  const radiusKm = parseFloat(req.query.radiusKm as string) || config.donorSearchRadiusKm;
+
+  // $nearSphere sorts by distance but cannot be counted, so the count uses the equivalent $geoWithin
+  const [camps, total] = await Promise.all([
+    DonationCamp.find({
+      ...filter,
+      location: { $nearSphere: { $geometry: toGeoPoint(near), $maxDistance: kmToMeters(radiusKm) } }
+    })
+      .skip(skip)
+      .limit(limit),
+    DonationCamp.countDocuments({
+      ...filter,
+      location: { $geoWithin: { $centerSphere: [[near.lng, near.lat], kmToMeters(radiusKm) / EARTH_RADIUS_METERS] } }
+    })
+  ]);
+
+  const pages = Math.ceil(total / limit);
+
+  return res.json({
+    success: true,
+    message: 'Donation camps retrieved successfully',
+    data: {
+      data: camps,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1
+      }
+    }
+  });
+});
+
+// Get single camp
+export const getCamp = catchAsync(async (req: Request, res: Response<IApiResponse<IDonationCampDocument>>) => {
+  const camp = await DonationCamp.findById(req.params.id)
+    .populate('organizerId', 'name email phone');
+
+  if (!camp) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donation camp not found'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Donation camp retrieved successfully',
+    data: camp
+  });
+});
+
+// Create a donation camp
+export const createCamp = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationCampDocument>>) => {
+  const camp = new DonationCamp({
+    name: req.body.name,
+    description: req.body.description,
+    venue: req.body.venue,
+    address: req.body.address,
+    city: req.body.city,
+    pincode: req.body.pincode,
+    date: req.body.date,
+    slots: req.body.slots.map((slot: any) => ({
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      capacity: slot.capacity
+    })),
+    organizerId: req.user!._id,
+    organizerName: req.user!.name
+  });
+
+  await camp.save();
+
+  res.status(201).json({
+    success: true,
+    message: 'Donation camp created successfully',
+    data: camp
+  });
+});
+
+// Update camp details
+export const updateCamp = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationCampDocument>>) => {
+  const camp = await findOrganizedCamp(req, res);
+  if (!camp) return;
+
+  if (camp.status !== 'scheduled') {
+    return res.status(400).json({
+      success: false,
+      message: 'Only scheduled camps can be updated'
+    });
+  }
+
+  EDITABLE_CAMP_FIELDS
+    .filter(field => req.body[field] !== undefined)
+    .forEach(field => camp.set(field, req.body[field]));
+
+  await camp.save();
+
+  return res.json({
+    success: true,
+    message: 'Donation camp updated successfully',
+    data: camp
+  });
+});
+
+// Cancel a camp and its bookings
+export const cancelCamp = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationCampDocument>>) => {
+  const camp = await findOrganizedCamp(req, res);
+  if (!camp) return;
+
+  if (camp.status !== 'scheduled') {
+    return res.status(400).json({
+      success: false,
+      message: 'Only scheduled camps can be cancelled'
+    });
+  }
+
+  await cancelScheduledCamp(camp);
+
+  return res.json({
+    success: true,
+    message: 'Donation camp cancelled successfully',
+    data: camp
+  });
+});
+
+// Book a slot at a camp, or join its waitlist when full
+export const bookCampSlot = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<ICampBookingDocument>>) => {
+  const camp = await DonationCamp.findById(req.params.id);
+
+  if (!camp) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donation camp not found'
+    });
+  }
+
+  const booking = await bookSlot(camp, req.body.slotId, req.user!);
+
+  return res.status(201).json({
+    success: true,
+    message: booking.status === 'booked'
+      ? 'Slot booked successfully'
+      : 'The slot is full; you have been added to the waitlist',
+    data: booking
+  });
+});
+
+// Get current user's camp bookings
+export const getMyBookings = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<ICampBookingDocument>>>) => {
+  const filter: any = { donorId: req.user!._id };
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  const bookings = await findPage(CampBooking, filter, req.query, BOOKING_LIST, {
+    populate: { path: 'campId', select: 'name venue address city date slots status' }
+  });
+
+  res.json({
+    success: true,
+    message: 'Camp bookings retrieved successfully',
+    data: bookings
+  });
+});
+
+// Cancel own booking
+export const cancelBooking = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<ICampBookingDocument>>) => {
+  const booking = await CampBooking.findById(req.params.id);
+
+  if (!booking) {
+    return res.status(404).json({
+      success: false,
+      message: 'Booking not found'
+    });
+  }
+
+  if (booking.donorId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'You can only cancel your own bookings'
+    });
+  }
+
+  const cancelled = await cancelCampBooking(booking);
+
+  if (!cancelled) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only booked or waitlisted bookings can be cancelled'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Booking cancelled successfully',
+    data: cancelled
+  });
+});
+
+// Get the bookings for a camp, in booking order
+export const getCampBookings = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<ICampBookingDocument>>>) => {
+  const camp = await findOrganizedCamp(req, res);
+  if (!camp) return;
+
+  const filter: any = { campId: camp._id };
+
+  if (req.query.slotId) {
+    filter.slotId = req.query.slotId;
+  }
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  const bookings = await findPage(CampBooking, filter, req.query, CAMP_BOOKING_LIST, {
+    populate: { path: 'donorId', select: PUBLIC_PROFILE_SELECT }
+  });
+
+  return res.json({
+    success: true,
+    message: 'Camp bookings retrieved successfully',
+    data: bookings
+  });
+});
+
+// Check a donor in at the camp, creating their donation record
+export const checkIn = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<ICampBookingDocument>>) => {
+  const camp = await findOrganizedCamp(req, res);
+  if (!camp) return;
+
+  const booking = await CampBooking.findOne({ _id: req.params.bookingId, campId: camp._id });
+
+  if (!booking) {
+    return res.status(404).json({
+      success: false,
+      message: 'Booking not found'
+    });
+  }
+
+  const checkedIn = await checkInBooking(camp, booking);
+
+  return res.json({
+    success: true,
+    message: 'Donor checked in; the donation is awaiting verification',
+    data: checkedIn
+  });
+});
@@ -0,0 +1,419 @@
+import { Response } from 'express';
+import ContactRequest, { IContactRequestDocument } from '../models/ContactRequest';
+import ContactDisclosure, { IContactDisclosureDocument } from '../models/ContactDisclosure';
+import BloodRequest from '../models/BloodRequest';
+import User from '../models/User';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { notifyUserById } from '../services/pledgeService';
+import { CONTACT_FIELDS, expireContactRequests, recordDisclosure } from '../services/contactService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const CONTACT_REQUEST_LIST: ListQuerySpec = {
+  sortFields: ['createdAt', 'expiresAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  }
+};
+
+const CONTACT_ACCESS_LOG_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  },
+  defaultLimit: 20
+};
+
+// Relayed conversations are kept short; longer exchanges should move to a shared number
+const MAX_RELAY_MESSAGES = 100;
+
+// Ask a donor to get in touch; their number stays hidden until they approve
+export const createContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const requester = req.user!;
+  const donor = await User.findOne({
+    _id: req.body.donorId,
+    userType: 'donor',
+    accountStatus: { $nin: ['suspended', 'banned'] },
+    deletionRequestedAt: { $exists: false }
+  });
+
+  if (!donor) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donor not found'
+    });
+  }
+
+  if (donor._id.toString() === requester._id.toString()) {
+    return res.status(400).json({
+      success: false,
+      message: 'You cannot send a contact request to yourself'
+    });
+  }
+
+  if (req.body.bloodRequestId) {
+    const bloodRequest = await BloodRequest.findById(req.body.bloodRequestId).select('requesterId');
+
+    if (!bloodRequest || bloodRequest.requesterId.toString() !== requester._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Blood request not found among your requests'
+      });
+    }
+  }
+
+  await expireContactRequests({ requesterId: requester._id, donorId: donor._id });
+
+  const existing = await ContactRequest.exists({
+    requesterId: requester._id,
+    donorId: donor._id,
+    status: { $in: ['pending', 'approved'] }
+  });
+
+  if (existing) {
+    return res.status(409).json({
+      success: false,
+      message: 'You already have an open contact request with this donor'
+    });
+  }
+
+  const sentToday = await ContactRequest.countDocuments({
+    requesterId: requester._id,
+    createdAt: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+  });
+
+  if (sentToday >= config.maxContactRequestsPerDay) {
+    return res.status(429).json({
+      success: false,
+      message: `You can send up to ${config.maxContactRequestsPerDay} contact requests a day`
+    });
+  }
+
+  const contactRequest = await ContactRequest.create({
+    requesterId: requester._id,
+    requesterName: requester.name,
+    donorId: donor._id,
+    bloodRequestId: req.body.bloodRequestId,
+    message: req.body.message,
+    expiresAt: new Date(Date.now() + config.contactRequestExpireHours * 60 * 60 * 1000)
+  });
+
+  notifyUserById(donor._id, {
+    type: 'contact_request',
+    title: `${requester.name} would like to contact you`,
+    message: `"${req.body.message}" Approve the request to share your number or to talk through Blood Buddy ` +
+      'without sharing it, or decline it.',
+    data: { contactRequestId: contactRequest._id, bloodRequestId: contactRequest.bloodRequestId }
+  }, `contact-request:${contactRequest._id}:received`);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Contact request sent; the donor\'s details are shared only if they approve',
+    data: contactRequest
+  });
+});
+
+const listContactRequests = async (req: AuthRequest, filter: Record<string, any>) => {
+  await expireContactRequests(filter);
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  return findPage(ContactRequest, filter, req.query, CONTACT_REQUEST_LIST, {
+    select: '-messages',
+    populate: [
+      { path: 'donorId', select: 'name bloodGroup city' },
+      { path: 'bloodRequestId', select: 'patientName bloodGroup hospital city urgency status' }
+    ]
+  });
+};
+
+// Get contact requests sent to the current donor
+export const getReceivedContactRequests = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IContactRequestDocument>>>) => {
+  const contactRequests = await listContactRequests(req, { donorId: req.user!._id });
+
+  res.json({
+    success: true,
+    message: 'Contact requests retrieved successfully',
+    data: contactRequests
+  });
+});
+
+// Get contact requests the current user has sent
+export const getSentContactRequests = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IContactRequestDocument>>>) => {
+  const contactRequests = await listContactRequests(req, { requesterId: req.user!._id });
+
+  res.json({
+    success: true,
+    message: 'Contact requests retrieved successfully',
+    data: contactRequests
+  });
+});
+
+// Get a contact request with its relayed messages (requester or donor)
+export const getContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  await expireContactRequests({ _id: req.params.id });
+
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || !contactRequest.isParty(req.user!._id)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+  }
+
+  await contactRequest.populate([
+    { path: 'donorId', select: 'name bloodGroup city' },
+    { path: 'bloodRequestId', select: 'patientName bloodGroup hospital city urgency status' }
+  ]);
+
+  return res.json({
+    success: true,
+    message: 'Contact request retrieved successfully',
+    data: contactRequest
+  });
+});
+
+// Shared checks for the donor answering a request
+const findPendingForDonor = async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  await expireContactRequests({ _id: req.params.id });
+
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || contactRequest.donorId.toString() !== req.user!._id.toString()) {
+    res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+    return null;
+  }
+
+  if (contactRequest.status !== 'pending') {
+    res.status(400).json({
+      success: false,
+      message: `Contact request is ${contactRequest.status}`
+    });
+    return null;
+  }
+
+  return contactRequest;
+};
+
+// Approve a contact request, sharing the donor's number or only relaying messages (donor)
+export const approveContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const contactRequest = await findPendingForDonor(req, res);
+  if (!contactRequest) return;
+
+  contactRequest.status = 'approved';
+  contactRequest.shareMode = req.body.shareMode;
+  contactRequest.responseNote = req.body.note;
+  contactRequest.respondedAt = new Date();
+  await contactRequest.save();
+
+  notifyUserById(contactRequest.requesterId, {
+    type: 'contact_request_approved',
+    title: `${req.user!.name} approved your contact request`,
+    message: contactRequest.shareMode === 'phone'
+      ? 'You can now see their phone number on the contact request.'
+      : 'You can message them through Blood Buddy; their number stays private.',
+    data: { contactRequestId: contactRequest._id }
+  }, `contact-request:${contactRequest._id}:approved`);
+
+  res.json({
+    success: true,
+    message: 'Contact request approved',
+    data: contactRequest
+  });
+});
+
+// Decline a contact request (donor)
+export const declineContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const contactRequest = await findPendingForDonor(req, res);
+  if (!contactRequest) return;
+
+  contactRequest.status = 'declined';
+  contactRequest.responseNote = req.body.note;
+  contactRequest.respondedAt = new Date();
+  await contactRequest.save();
+
+  notifyUserById(contactRequest.requesterId, {
+    type: 'contact_request_declined',
+    title: 'Your contact request was declined',
+    message: req.body.note || 'The donor is not able to be contacted right now.',
+    data: { contactRequestId: contactRequest._id }
+  }, `contact-request:${contactRequest._id}:declined`);
+
+  res.json({
+    success: true,
+    message: 'Contact request declined',
+    data: contactRequest
+  });
+});
+
+// Withdraw an approval; the requester loses access to the number and the relay (donor)
+export const revokeContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || contactRequest.donorId.toString() !== req.user!._id.toString()) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+  }
+
+  if (contactRequest.status !== 'approved') {
+    return res.status(400).json({
+      success: false,
+      message: 'Only approved contact requests can be revoked'
+    });
+  }
+
+  contactRequest.status = 'revoked';
+  contactRequest.responseNote = req.body.note;
+  contactRequest.respondedAt = new Date();
+  await contactRequest.save();
+
+  return res.json({
+    success: true,
+    message: 'Contact request revoked',
+    data: contactRequest
+  });
+});
+
+// Cancel a pending contact request (requester)
+export const cancelContactRequest = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || contactRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+  }
+
+  if (contactRequest.status !== 'pending') {
+    return res.status(400).json({
+      success: false,
+      message: 'Only pending contact requests can be cancelled'
+    });
+  }
+
+  contactRequest.status = 'cancelled';
+  await contactRequest.save();
+
+  return res.json({
+    success: true,
+    message: 'Contact request cancelled',
+    data: contactRequest
+  });
+});
+
+// Reveal the donor's number on an approved request; every call is logged for the donor (requester)
+export const getDonorContact = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ name: string; phone: string }>>) => {
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || contactRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+  }
+
+  if (contactRequest.status !== 'approved' || contactRequest.shareMode !== 'phone') {
+    return res.status(403).json({
+      success: false,
+      message: contactRequest.status === 'approved'
+        ? 'The donor chose to talk through Blood Buddy messages instead of sharing their number'
+        : 'The donor has not shared their contact details'
+    });
+  }
+
+  const donor = await User.findById(contactRequest.donorId).select('name phone');
+
+  if (!donor) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donor not found'
+    });
+  }
+
+  await recordDisclosure(req, donor._id, {
+    reason: 'contact_request',
+    contactRequestId: contactRequest._id,
+    fields: CONTACT_FIELDS
+  });
+
+  return res.json({
+    success: true,
+    message: 'Donor contact details retrieved successfully',
+    data: { name: donor.name, phone: donor.phone }
+  });
+});
+
+// Send a message to the other side of an approved request, without revealing either number
+export const sendContactMessage = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IContactRequestDocument>>) => {
+  const contactRequest = await ContactRequest.findById(req.params.id);
+
+  if (!contactRequest || !contactRequest.isParty(req.user!._id)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact request not found'
+    });
+  }
+
+  if (contactRequest.status !== 'approved') {
+    return res.status(400).json({
+      success: false,
+      message: 'Messages can only be sent on approved contact requests'
+    });
+  }
+
+  if (contactRequest.messages.length >= MAX_RELAY_MESSAGES) {
+    return res.status(400).json({
+      success: false,
+      message: 'This conversation has reached its message limit'
+    });
+  }
+
+  contactRequest.messages.push({ senderId: req.user!._id, body: req.body.body, sentAt: new Date() });
+  await contactRequest.save();
+
+  const recipientId = contactRequest.requesterId.toString() === req.user!._id.toString()
+    ? contactRequest.donorId
+    : contactRequest.requesterId;
+  const message = contactRequest.messages[contactRequest.messages.length - 1];
+
+  notifyUserById(recipientId, {
+    type: 'contact_message',
+    title: `New message from ${req.user!.name}`,
+    message: req.body.body,
+    data: { contactRequestId: contactRequest._id }
+  }, `contact-request:${contactRequest._id}:message:${message._id}`);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Message sent',
+    data: contactRequest
+  });
+});
+
+// Get every time the current user's contact details were shown to someone
+export const getMyContactAccessLog = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IContactDisclosureDocument>>>) => {
+  const filter = { userId: req.user!._id };
+
+  const disclosures = await findPage(ContactDisclosure, filter, req.query, CONTACT_ACCESS_LOG_LIST, {
+    select: '-ipAddress -userId'
+  });
+
+  res.json({
+    success: true,
+    message: 'Contact access log retrieved successfully',
+    data: disclosures
+  });
+});
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { apiRoutes } from '../routes';
+import { buildOpenApiSpec } from '../services/openApiService';
+
+const SWAGGER_UI_URL = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5';
+
+// Routers do not change once the app is running, so the document is built on first use
+let spec: Record<string, any> | undefined;
+
+// Get the OpenAPI 3 document for the API
+export const getOpenApiSpec = (req: Request, res: Response): void => {
+  spec = spec || buildOpenApiSpec(apiRoutes);
+  res.json(spec);
+};
+
+// Interactive viewer (Swagger UI) for the OpenAPI document
+export const getDocsViewer = (req: Request, res: Response): void => {
+  // The app-wide policy only allows scripts and styles from this origin
+  res.setHeader(
+    'Content-Security-Policy',
+    `default-src 'self'; script-src 'self' ${SWAGGER_UI_URL}/; style-src 'self' 'unsafe-inline' ${SWAGGER_UI_URL}/; img-src 'self' data: https:`
+  );
+  res.type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Blood Buddy Pro API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_URL}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_URL}/swagger-ui-bundle.js"></script>
+  <script src="/api/docs/viewer.js"></script>
+</body>
+</html>
+`);
+};
+
+// Start-up script for the viewer; served separately because inline scripts are not allowed
+export const getDocsViewerScript = (req: Request, res: Response): void => {
+  res.type('application/javascript').send(
+    "window.ui = SwaggerUIBundle({ url: '/api/docs/openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });\n"
+  );
+};
@@ -1,32 +1,125 @@
 import { Request, Response } from 'express';
 import DonationRecord, { IDonationRecordDocument } from '../models/DonationRecord';
-import BloodRequest from '../models/BloodRequest';
 import User from '../models/User';
-import { IApiResponse, IPaginatedResponse } from '../types';
-import { catchAsync } from '../middleware/errorHandler';
+import BloodRequest from '../models/BloodRequest';
+import { IApiResponse, IPaginatedResponse, BloodGroup, LeaderboardPeriod } from '../types';
+import { catchAsync, AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { recordDonationCancelled } from '../services/pledgeService';
+import { verifyDonation } from '../services/donationVerificationService';
+import { isCompatible } from '../services/bloodCompatibility';
+import {
+  DonorRank,
+  LeaderboardFilter,
+  getLeaderboardWindow,
+  getLeaderboard,
+  getDonorRank
+} from '../services/leaderboardService';
+import { getMemberIds, getMembership } from '../services/organisationService';
+import { textPattern } from '../services/searchService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT, recordDisclosure } from '../services/contactService';
+
+const DONATION_LIST: ListQuerySpec = {
+  sortFields: ['date', 'createdAt', 'unitsContributed', 'points'],
+  defaultSort: { date: -1 },
+  ranges: {
+    date: { field: 'date', type: 'date' },
+    units: { field: 'unitsContributed', type: 'number' }
+  }
+};
+
+// Fields donors may set when recording a donation. The blood group comes from the donor's profile;
+// status, points, verification and links to pledges and camps are only set by the server.
+const DONOR_CREATE_FIELDS = ['hospital', 'hospitalId', 'requestId', 'city', 'unitsContributed', 'donationType', 'date', 'notes'];
+
+// Fields donors may still change while their donation waits for a hospital; the donation type is
+// confirmed by the hospital
+const DONOR_UPDATE_FIELDS = ['date', 'notes'];
+
+const donorFields = (body: any, fields: string[]): Record<string, any> => {
+  return Object.fromEntries(fields.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+};
+
+// City, blood group and organisation filters of a leaderboard query. An organisation's board lists
+// its members, so only they (and admins) can filter by it.
+const leaderboardFilter = async (req: AuthRequest): Promise<LeaderboardFilter> => {
+  const organisationId = req.query.organisationId as string | undefined;
+
+  if (organisationId && req.user?.userType !== 'admin' && !(req.user && await getMembership(organisationId, req.user._id))) {
+    throw new AppError('Only members of this organisation can see its leaderboard', 403);
+  }
+
+  return {
+    city: req.query.city as string | undefined,
+    bloodGroup: req.query.bloodGroup as BloodGroup | undefined,
+    ...(organisationId && { donorIds: await getMemberIds(organisationId) })
+  };
+};
 
 // Create donation record
 export const createDonationRecord = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
-  const donationData = {
-    ...req.body,
+  if (!req.user!.bloodGroup) {
+    return res.status(400).json({
+      success: false,
+      message: 'Add your blood group to your profile before recording a donation'
+    });
+  }
+
+  const donationData: Record<string, any> = {
+    ...donorFields(req.body, DONOR_CREATE_FIELDS),
     donorId: req.user!._id,
     donorName: req.user!.name,
     bloodGroup: req.user!.bloodGroup
   };
 
-  const donationRecord = new DonationRecord(donationData);
-  await donationRecord.save();
+  // Donations at a registered hospital go into its approval queue
+  if (req.body.hospitalId) {
+    const hospital = await User.findOne({ _id: req.body.hospitalId, userType: 'hospital', isVerified: true });
 
-  // If this donation is for a specific request, update the request
+    if (!hospital) {
+      return res.status(400).json({
+        success: false,
+        message: 'Hospital not found'
+      });
+    }
+
+    donationData.hospital = hospital.name;
+    donationData.city = donationData.city || hospital.city;
+  }
+
+  // A donation can only be given for an open request the donor's blood suits
   if (req.body.requestId) {
-    await BloodRequest.findByIdAndUpdate(
-      req.body.requestId,
-      { $addToSet: { fulfilledBy: req.user!._id } }
-    );
+    const bloodRequest = await BloodRequest.findById(req.body.requestId);
+
+    if (!bloodRequest || !bloodRequest.canBeFulfilled()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Blood request is not active'
+      });
+    }
+
+    if (bloodRequest.requesterId.toString() === req.user!._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot donate for your own request'
+      });
+    }
+
+    if (!isCompatible(req.user!.bloodGroup, bloodRequest.bloodGroup, bloodRequest.component)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your blood group is not compatible with this request'
+      });
+    }
   }
 
-  res.status(201).json({
+  // Requests and donor stats only count a donation once a hospital verifies it
+  const donationRecord = new DonationRecord(donationData);
+  await donationRecord.save();
+
+  return res.status(201).json({
     success: true,
     message: 'Donation record created successfully',
     data: donationRecord
@@ -35,10 +128,6 @@ export const createDonationRecord = catchAsync(async (req: AuthRequest, res: Res
 
 // Get all donation records with pagination
 export const getDonationRecords = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<IDonationRecordDocument>>>) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-
   const filter: any = {};
   
   if (req.query.status) {
@@ -50,43 +139,26 @@ export const getDonationRecords = catchAsync(async (req: Request, res: Response<
   }
   
   if (req.query.city) {
-    filter.city = new RegExp(req.query.city as string, 'i');
+    filter.city = textPattern(req.query.city as string);
   }
 
-  const [donations, total] = await Promise.all([
-    DonationRecord.find(filter)
-      .populate('donorId', 'name email phone bloodGroup')
-      .populate('requestId', 'patientName hospital urgency')
-      .sort({ date: -1 })
-      .skip(skip)
-      .limit(limit),
-    DonationRecord.countDocuments(filter)
-  ]);
-
-  const pages = Math.ceil(total / limit);
+  const donations = await findPage(DonationRecord, filter, req.query, DONATION_LIST, {
+    populate: [
+      { path: 'donorId', select: 'name email phone bloodGroup' },
+      { path: 'requestId', select: 'patientName hospital urgency' }
+    ]
+  });
 
   res.json({
     success: true,
     message: 'Donation records retrieved successfully',
-    data: {
-      data: donations,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages,
-        hasNext: page < pages,
-        hasPrev: page > 1
-      }
-    }
+    data: donations
   });
 });
 
 // Get single donation record
-export const getDonationRecord = catchAsync(async (req: Request, res: Response<IApiResponse<IDonationRecordDocument>>) => {
-  const donationRecord = await DonationRecord.findById(req.params.id)
-    .populate('donorId', 'name email phone bloodGroup')
-    .populate('requestId', 'patientName hospital urgency');
+export const getDonationRecord = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+  const donationRecord = await DonationRecord.findById(req.params.id);
 
   if (!donationRecord) {
     return res.status(404).json({
@@ -95,6 +167,28 @@ export const getDonationRecord = catchAsync(async (req: Request, res: Response<I
     });
   }
 
+  const isDonor = donationRecord.donorId.toString() === req.user!._id.toString();
+  const isHospital = donationRecord.hospitalId?.toString() === req.user!._id.toString();
+  const isAdmin = req.user!.userType === 'admin';
+
+  // Only the donor, the hospital the donation was made at and admins can see a donation
+  if (!isDonor && !isHospital && !isAdmin) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to view this donation record'
+    });
+  }
+
+  // The donor's contact details are only shown to admins, and the disclosure is logged
+  if (isAdmin && !isDonor) {
+    await recordDisclosure(req, donationRecord.donorId, { reason: 'admin', fields: ['email', 'phone'] });
+  }
+
+  await donationRecord.populate([
+    { path: 'donorId', select: isDonor || isAdmin ? 'name email phone bloodGroup' : PUBLIC_PROFILE_SELECT },
+    { path: 'requestId', select: 'patientName hospital urgency' }
+  ]);
+
   res.json({
     success: true,
     message: 'Donation record retrieved successfully',
@@ -121,17 +215,17 @@ export const updateDonationRecord = catchAsync(async (req: AuthRequest, res: Res
     });
   }
 
-  // Don't allow updates to completed donations
-  if (donationRecord.status === 'completed') {
+  // Only donations still waiting for a hospital can be changed
+  if (donationRecord.status !== 'pending') {
     return res.status(400).json({
       success: false,
-      message: 'Cannot update completed donations'
+      message: 'Only pending donations can be updated'
     });
   }
 
-  const updatedRecord = await DonationRecord.findByIdAndUpdate(
-    req.params.id,
-    req.body,
+  const updatedRecord = await DonationRecord.findOneAndUpdate(
+    { _id: req.params.id, status: 'pending' },
+    donorFields(req.body, DONOR_UPDATE_FIELDS),
     { new: true, runValidators: true }
   ).populate('donorId', 'name email phone bloodGroup');
 
@@ -142,8 +236,8 @@ export const updateDonationRecord = catchAsync(async (req: AuthRequest, res: Res
   });
 });
 
-// Mark donation as completed
-export const completeDonation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+// Issue a one-time code for the donor to show at the hospital (as an OTP or QR code)
+export const createVerificationCode = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
   const donationRecord = await DonationRecord.findById(req.params.id);
 
   if (!donationRecord) {
@@ -153,6 +247,13 @@ export const completeDonation = catchAsync(async (req: AuthRequest, res: Respons
     });
   }
 
+  if (donationRecord.donorId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to verify this donation'
+    });
+  }
+
   if (donationRecord.status !== 'pending') {
     return res.status(400).json({
       success: false,
@@ -160,30 +261,174 @@ export const completeDonation = catchAsync(async (req: AuthRequest, res: Respons
     });
   }
 
-  donationRecord.status = 'completed';
+  const code = donationRecord.createVerificationCode();
   await donationRecord.save();
 
+  return res.json({
+    success: true,
+    message: 'Verification code created successfully',
+    data: {
+      code,
+      expiresAt: donationRecord.verificationCodeExpires,
+      // Encode this in a QR code for the hospital to scan
+      qrData: JSON.stringify({ donationId: donationRecord._id, code })
+    }
+  });
+});
+
+// Verify a donation with the code shown by the donor (hospital only)
+export const verifyDonationCode = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+  const { donationId, code } = req.body;
+
+  const donationRecord = await DonationRecord.findById(donationId)
+    .select('+verificationCode +verificationCodeExpires +verificationAttempts');
+
+  if (!donationRecord || donationRecord.status !== 'pending') {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid or expired verification code'
+    });
+  }
+
+  // A donation recorded for a hospital can only be verified there
+  if (donationRecord.hospitalId && donationRecord.hospitalId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only the hospital where the donation took place can verify it'
+    });
+  }
+
+  if (!donationRecord.checkVerificationCode(code)) {
+    donationRecord.verificationAttempts = (donationRecord.verificationAttempts || 0) + 1;
+
+    // Too many wrong guesses burn the code; the donor has to request a new one
+    if (donationRecord.verificationAttempts >= config.donationCodeMaxAttempts) {
+      donationRecord.verificationCode = undefined;
+      donationRecord.verificationCodeExpires = undefined;
+    }
+    await donationRecord.save();
+
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid or expired verification code'
+    });
+  }
+
+  const verifiedRecord = await verifyDonation(donationRecord._id, req.user!, 'code', req.body.donationType);
+
+  if (!verifiedRecord) {
+    return res.status(400).json({
+      success: false,
+      message: 'Donation is not pending'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Donation verified successfully',
+    data: verifiedRecord
+  });
+});
+
+// Get pending donations awaiting this hospital's approval
+export const getVerificationQueue = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IDonationRecordDocument>>>) => {
+  const donations = await findPage(
+    DonationRecord,
+    { hospitalId: req.user!._id, status: 'pending' },
+    req.query,
+    { ...DONATION_LIST, defaultSort: { date: 1 } },
+    {
+      populate: [
+        { path: 'donorId', select: PUBLIC_PROFILE_SELECT },
+        { path: 'requestId', select: 'patientName hospital urgency' }
+      ]
+    }
+  );
+
   res.json({
+    success: true,
+    message: 'Verification queue retrieved successfully',
+    data: donations
+  });
+});
+
+// Approve a donation from the hospital's queue, marking it completed
+export const completeDonation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+  const donationRecord = await DonationRecord.findById(req.params.id);
+
+  if (!donationRecord) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donation record not found'
+    });
+  }
+
+  if (donationRecord.hospitalId?.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only the hospital where the donation took place can approve it'
+    });
+  }
+
+  const verifiedRecord = await verifyDonation(donationRecord._id, req.user!, 'approval', req.body.donationType);
+
+  if (!verifiedRecord) {
+    return res.status(400).json({
+      success: false,
+      message: 'Donation is not pending'
+    });
+  }
+
+  return res.json({
     success: true,
     message: 'Donation marked as completed',
+    data: verifiedRecord
+  });
+});
+
+// Reject a donation from the hospital's queue
+export const rejectDonation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument>>) => {
+  const donationRecord = await DonationRecord.findById(req.params.id);
+
+  if (!donationRecord) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donation record not found'
+    });
+  }
+
+  if (donationRecord.hospitalId?.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only the hospital where the donation took place can reject it'
+    });
+  }
+
+  if (donationRecord.status !== 'pending') {
+    return res.status(400).json({
+      success: false,
+      message: 'Donation is not pending'
+    });
+  }
+
+  donationRecord.status = 'cancelled';
+  donationRecord.rejectionReason = req.body.reason;
+  await donationRecord.save();
+
+  await recordDonationCancelled(donationRecord);
+
+  return res.json({
+    success: true,
+    message: 'Donation rejected successfully',
     data: donationRecord
   });
 });
 
 // Get user's donation records
-export const getUserDonationRecords = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDonationRecordDocument[]>>) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-
-  const [donations, total] = await Promise.all([
-    DonationRecord.find({ donorId: req.user!._id })
-      .populate('requestId', 'patientName hospital urgency')
-      .sort({ date: -1 })
-      .skip(skip)
-      .limit(limit),
-    DonationRecord.countDocuments({ donorId: req.user!._id })
-  ]);
+export const getUserDonationRecords = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IDonationRecordDocument>>>) => {
+  const donations = await findPage(DonationRecord, { donorId: req.user!._id }, req.query, DONATION_LIST, {
+    populate: { path: 'requestId', select: 'patientName hospital urgency' }
+  });
 
   res.json({
     success: true,
@@ -210,19 +455,40 @@ export const getDonationStats = catchAsync(async (req: Request, res: Response<IA
   });
 });
 
-// Get top donors leaderboard
-export const getTopDonors = catchAsync(async (req: Request, res: Response<IApiResponse<any[]>>) => {
+// Get a leaderboard for a period (all time by default), optionally by city and blood group
+export const getTopDonors = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<any>>>) => {
+  const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 10;
-  
-  const topDonors = await DonationRecord.getTopDonors(limit);
-  
+  const window = getLeaderboardWindow(
+    (req.query.period as LeaderboardPeriod) || 'all_time',
+    req.query.date ? new Date(req.query.date as string) : new Date()
+  );
+
+  const topDonors = await getLeaderboard(window, await leaderboardFilter(req), page, limit);
+
   res.json({
     success: true,
-    message: 'Top donors retrieved successfully',
+    message: `Top donors for ${window.periodKey === 'all' ? 'all time' : window.periodKey} retrieved successfully`,
     data: topDonors
   });
 });
 
+// Get the current donor's rank on a leaderboard
+export const getMyLeaderboardRank = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<DonorRank>>) => {
+  const window = getLeaderboardWindow(
+    (req.query.period as LeaderboardPeriod) || 'all_time',
+    req.query.date ? new Date(req.query.date as string) : new Date()
+  );
+
+  const rank = await getDonorRank(req.user!, window, await leaderboardFilter(req));
+
+  res.json({
+    success: true,
+    message: 'Leaderboard rank retrieved successfully',
+    data: rank
+  });
+});
+
 // Get donations by blood group
 export const getDonationsByBloodGroup = catchAsync(async (req: Request, res: Response<IApiResponse<any[]>>) => {
   const donationsByBloodGroup = await DonationRecord.getDonationsByBloodGroup();
@@ -245,12 +511,18 @@ export const getUserDonationSummary = catchAsync(async (req: AuthRequest, res: R
         _id: null,
         totalDonations: { $sum: 1 },
         totalUnits: { $sum: '$unitsContributed' },
-        totalPoints: { $sum: '$points' },
+        totalPoints: {
+          $sum: { $cond: [{ $eq: ['$status', 'completed'] }, '$points', 0] }
+        },
         completedDonations: {
           $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] }
         },
-        lastDonation: { $max: '$date' },
-        averagePointsPerDonation: { $avg: '$points' }
+        lastDonation: {
+          $max: { $cond: [{ $eq: ['$status', 'completed'] }, '$date', null] }
+        },
+        averagePointsPerDonation: {
+          $avg: { $cond: [{ $eq: ['$status', 'completed'] }, '$points', null] }
+        }
       }
     }
   ]);
@@ -270,12 +542,15 @@ export const getUserDonationSummary = catchAsync(async (req: AuthRequest, res: R
       (Date.now() - new Date(userSummary.lastDonation).getTime()) / (1000 * 60 * 60 * 24)
     );
     userSummary.daysSinceLastDonation = daysSinceLastDonation;
-    userSummary.canDonate = daysSinceLastDonation >= 90;
   } else {
     userSummary.daysSinceLastDonation = null;
-    userSummary.canDonate = true;
   }
 
+  // Takes the eligibility policy and any deferrals into account
+  userSummary.canDonate = req.user!.get('canDonate');
+  userSummary.nextEligibleDate = req.user!.get('nextEligibleDate');
+  userSummary.nextEligibleDates = req.user!.getNextEligibleDates();
+
   res.json({
     success: true,
     message: 'User donation summary retrieved successfully',
@@ -302,16 +577,18 @@ export const cancelDonation = catchAsync(async (req: AuthRequest, res: Response<
     });
   }
 
-  if (donationRecord.status === 'completed') {
+  if (donationRecord.status === 'completed' || donationRecord.status === 'reversed') {
     return res.status(400).json({
       success: false,
-      message: 'Cannot cancel completed donations'
+      message: 'Cannot cancel completed or reversed donations'
     });
   }
 
   donationRecord.status = 'cancelled';
   await donationRecord.save();
 
+  await recordDonationCancelled(donationRecord);
+
   res.json({
     success: true,
     message: 'Donation cancelled successfully',
@@ -0,0 +1,251 @@
+import { Response } from 'express';
+import InventoryUnit, { IInventoryUnitDocument } from '../models/InventoryUnit';
+import InventoryThreshold, { IInventoryThresholdDocument } from '../models/InventoryThreshold';
+import User from '../models/User';
+import { IApiResponse, IPaginatedResponse, BloodGroup, BloodComponent } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import {
+  StockLevel,
+  getDefaultExpiry,
+  getStockLevels,
+  claimUnits,
+  checkShortage
+} from '../services/inventoryService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const INVENTORY_UNIT_LIST: ListQuerySpec = {
+  sortFields: ['expiresAt', 'collectedAt', 'createdAt'],
+  defaultSort: { expiresAt: 1 },
+  ranges: {
+    collected: { field: 'collectedAt', type: 'date' },
+    expires: { field: 'expiresAt', type: 'date' }
+  }
+};
+
+// Check par levels in the background so the hospital is not kept waiting
+const checkShortageInBackground = (hospitalId: any, bloodGroup: BloodGroup, component: BloodComponent): void => {
+  checkShortage(hospitalId, bloodGroup, component).catch(error => {
+    console.error('Inventory shortage check error:', error);
+  });
+};
+
+// Get usable stock per blood group and component
+export const getInventory = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<StockLevel[]>>) => {
+  const levels = await getStockLevels(req.user!._id);
+
+  res.json({
+    success: true,
+    message: 'Inventory retrieved successfully',
+    data: levels
+  });
+});
+
+// Get inventory units with filtering and pagination
+export const getInventoryUnits = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IInventoryUnitDocument>>>) => {
+  const filter: any = { hospitalId: req.user!._id };
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  if (req.query.bloodGroup) {
+    filter.bloodGroup = req.query.bloodGroup as BloodGroup;
+  }
+
+  if (req.query.component) {
+    filter.component = req.query.component as BloodComponent;
+  }
+
+  const units = await findPage(InventoryUnit, filter, req.query, INVENTORY_UNIT_LIST);
+
+  res.json({
+    success: true,
+    message: 'Inventory units retrieved successfully',
+    data: units
+  });
+});
+
+// Add units to stock
+export const addInventoryUnits = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryUnitDocument[]>>) => {
+  const { bloodGroup, component, bagNumbers } = req.body;
+  const collectedAt = req.body.collectedAt ? new Date(req.body.collectedAt) : new Date();
+  const expiresAt = req.body.expiresAt ? new Date(req.body.expiresAt) : getDefaultExpiry(component, collectedAt);
+
+  if (expiresAt <= collectedAt) {
+    return res.status(400).json({
+      success: false,
+      message: 'Expiry date must be after the collection date'
+    });
+  }
+
+  // One unit per bag number, or the requested quantity of unlabelled units
+  const quantity = bagNumbers?.length || req.body.quantity || 1;
+
+  const units = await InventoryUnit.insertMany(
+    Array.from({ length: quantity }, (_, index) => ({
+      hospitalId: req.user!._id,
+      bloodGroup,
+      component,
+      bagNumber: bagNumbers?.[index],
+      collectedAt,
+      expiresAt,
+      source: 'manual',
+      statusChangedBy: req.user!._id
+    }))
+  );
+
+  return res.status(201).json({
+    success: true,
+    message: `${units.length} unit(s) added to inventory`,
+    data: units
+  });
+});
+
+// Issue units for transfusion, first expiring first out
+export const issueInventoryUnits = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryUnitDocument[]>>) => {
+  const { bloodGroup, component, quantity, issuedTo, requestId } = req.body;
+
+  const units = await claimUnits(req.user!._id, bloodGroup, component, quantity, 'issued', {
+    issuedTo,
+    requestId,
+    statusChangedBy: req.user!._id
+  });
+
+  if (!units) {
+    return res.status(409).json({
+      success: false,
+      message: `Not enough usable ${bloodGroup} ${component} units in stock`
+    });
+  }
+
+  checkShortageInBackground(req.user!._id, bloodGroup, component);
+
+  return res.json({
+    success: true,
+    message: `${units.length} unit(s) issued`,
+    data: units
+  });
+});
+
+// Transfer units to another hospital's stock
+export const transferInventoryUnits = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryUnitDocument[]>>) => {
+  const { bloodGroup, component, quantity, toHospitalId } = req.body;
+
+  if (toHospitalId === req.user!._id.toString()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Cannot transfer units to your own hospital'
+    });
+  }
+
+  const targetHospital = await User.findOne({ _id: toHospitalId, userType: 'hospital', isVerified: true });
+
+  if (!targetHospital) {
+    return res.status(404).json({
+      success: false,
+      message: 'Receiving hospital not found or not verified'
+    });
+  }
+
+  const units = await claimUnits(req.user!._id, bloodGroup, component, quantity, 'transferred', {
+    transferredTo: targetHospital._id,
+    statusChangedBy: req.user!._id
+  });
+
+  if (!units) {
+    return res.status(409).json({
+      success: false,
+      message: `Not enough usable ${bloodGroup} ${component} units in stock`
+    });
+  }
+
+  // The units keep their bag numbers and dates at the receiving hospital
+  await InventoryUnit.insertMany(units.map(unit => ({
+    hospitalId: targetHospital._id,
+    bloodGroup: unit.bloodGroup,
+    component: unit.component,
+    bagNumber: unit.bagNumber,
+    collectedAt: unit.collectedAt,
+    expiresAt: unit.expiresAt,
+    source: 'transfer',
+    donationRecordId: unit.donationRecordId,
+    transferredFrom: req.user!._id,
+    statusChangedBy: req.user!._id
+  })));
+
+  checkShortageInBackground(req.user!._id, bloodGroup, component);
+
+  return res.json({
+    success: true,
+    message: `${units.length} unit(s) transferred to ${targetHospital.name}`,
+    data: units
+  });
+});
+
+// Discard a unit, e.g. when it is damaged, contaminated or has expired
+export const discardInventoryUnit = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryUnitDocument>>) => {
+  const unit = await InventoryUnit.findOneAndUpdate(
+    { _id: req.params.id, hospitalId: req.user!._id, status: { $in: ['available', 'expired'] } },
+    {
+      $set: {
+        status: 'discarded',
+        discardReason: req.body.reason,
+        statusChangedAt: new Date(),
+        statusChangedBy: req.user!._id
+      }
+    },
+    { new: true }
+  );
+
+  if (!unit) {
+    return res.status(404).json({
+      success: false,
+      message: 'Unit not found or no longer in stock'
+    });
+  }
+
+  checkShortageInBackground(req.user!._id, unit.bloodGroup, unit.component);
+
+  return res.json({
+    success: true,
+    message: 'Unit discarded successfully',
+    data: unit
+  });
+});
+
+// Get par levels
+export const getInventoryThresholds = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryThresholdDocument[]>>) => {
+  const thresholds = await InventoryThreshold.find({ hospitalId: req.user!._id })
+    .sort({ bloodGroup: 1, component: 1 });
+
+  res.json({
+    success: true,
+    message: 'Inventory thresholds retrieved successfully',
+    data: thresholds
+  });
+});
+
+// Set the par level for a blood group and component
+export const setInventoryThreshold = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IInventoryThresholdDocument>>) => {
+  const { bloodGroup, component, minUnits, autoRequest } = req.body;
+
+  const update: any = { minUnits };
+  if (autoRequest !== undefined) {
+    update.autoRequest = autoRequest;
+  }
+
+  const threshold = await InventoryThreshold.findOneAndUpdate(
+    { hospitalId: req.user!._id, bloodGroup, component },
+    { $set: update },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+
+  checkShortageInBackground(req.user!._id, bloodGroup, component);
+
+  res.json({
+    success: true,
+    message: 'Inventory threshold saved successfully',
+    data: threshold!
+  });
+});
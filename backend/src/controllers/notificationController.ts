@@ -0,0 +1,144 @@
+import { Response } from 'express';
+import Notification, { INotificationDocument } from '../models/Notification';
+import User from '../models/User';
+import { IApiResponse, IPaginatedResponse, INotificationPreferences } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const NOTIFICATION_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  }
+};
+
+// Get the current user's in-app notifications
+export const getNotifications = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<INotificationDocument>>>) => {
+  const filter: any = { userId: req.user!._id, channels: 'inApp' };
+
+  if (req.query.unread === 'true') {
+    filter.readAt = { $exists: false };
+  }
+
+  const notifications = await findPage(Notification, filter, req.query, NOTIFICATION_LIST);
+
+  res.json({
+    success: true,
+    message: 'Notifications retrieved successfully',
+    data: notifications
+  });
+});
+
+// Get the number of unread notifications
+export const getUnreadCount = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ unread: number }>>) => {
+  const unread = await Notification.countDocuments({
+    userId: req.user!._id,
+    channels: 'inApp',
+    readAt: { $exists: false }
+  });
+
+  res.json({
+    success: true,
+    message: 'Unread count retrieved successfully',
+    data: { unread }
+  });
+});
+
+// Mark one notification as read
+export const markNotificationRead = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<INotificationDocument>>) => {
+  const notification = await Notification.findOne({ _id: req.params.id, userId: req.user!._id });
+
+  if (!notification) {
+    return res.status(404).json({
+      success: false,
+      message: 'Notification not found'
+    });
+  }
+
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  return res.json({
+    success: true,
+    message: 'Notification marked as read',
+    data: notification
+  });
+});
+
+// Mark every notification as read
+export const markAllNotificationsRead = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ updated: number }>>) => {
+  const result = await Notification.updateMany(
+    { userId: req.user!._id, readAt: { $exists: false } },
+    { $set: { readAt: new Date() } }
+  );
+
+  res.json({
+    success: true,
+    message: 'All notifications marked as read',
+    data: { updated: result.modifiedCount }
+  });
+});
+
+// Get the current user's notification preferences
+export const getNotificationPreferences = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<INotificationPreferences>>) => {
+  res.json({
+    success: true,
+    message: 'Notification preferences retrieved successfully',
+    data: req.user!.notificationPreferences!
+  });
+});
+
+// Update the current user's notification preferences
+export const updateNotificationPreferences = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<INotificationPreferences>>) => {
+  const { inApp, email, sms, push, quietHours } = req.body;
+  const updates: any = {};
+
+  if (inApp !== undefined) updates['notificationPreferences.inApp'] = inApp;
+  if (email !== undefined) updates['notificationPreferences.email'] = email;
+  if (sms !== undefined) updates['notificationPreferences.sms'] = sms;
+  if (push !== undefined) updates['notificationPreferences.push'] = push;
+
+  if (quietHours) {
+    ['enabled', 'start', 'end', 'timezone'].forEach(field => {
+      if (quietHours[field] !== undefined) {
+        updates[`notificationPreferences.quietHours.${field}`] = quietHours[field];
+      }
+    });
+  }
+
+  const user = await User.findByIdAndUpdate(
+    req.user!._id,
+    { $set: updates },
+    { new: true, runValidators: true }
+  );
+
+  res.json({
+    success: true,
+    message: 'Notification preferences updated successfully',
+    data: user!.notificationPreferences!
+  });
+});
+
+// Register a device token for push notifications
+export const registerPushToken = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+  await User.findByIdAndUpdate(req.user!._id, { $addToSet: { pushTokens: req.body.token } });
+
+  res.json({
+    success: true,
+    message: 'Push token registered successfully'
+  });
+});
+
+// Remove a device token, e.g. when the app is signed out
+export const removePushToken = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+  await User.findByIdAndUpdate(req.user!._id, { $pull: { pushTokens: req.body.token } });
+
+  res.json({
+    success: true,
+    message: 'Push token removed successfully'
+  });
+});
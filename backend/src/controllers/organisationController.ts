@@ -0,0 +1,314 @@
+import { Request, Response } from 'express';
+import Organisation, { IOrganisationDocument } from '../models/Organisation';
+import OrganisationMember, { IOrganisationMemberDocument } from '../models/OrganisationMember';
+import { IApiResponse, IPaginatedResponse, LeaderboardPeriod } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { pickFields } from '../services/auditService';
+import { getLeaderboardWindow } from '../services/leaderboardService';
+import {
+  assertOwnerRemains,
+  createOrganisation as createOrganisationRecord,
+  generateInviteCode,
+  getMembership,
+  getOrganisationStats as computeOrganisationStats,
+  getTeamLeaderboard,
+  isManager,
+  removeFromTeamLeaderboards
+} from '../services/organisationService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const ORGANISATION_LIST: ListQuerySpec = {
+  sortFields: ['name', 'createdAt'],
+  defaultSort: { name: 1 },
+  fields: ['name', 'type', 'description', 'city', 'website', 'isActive', 'createdAt']
+};
+
+const MEMBER_LIST: ListQuerySpec = {
+  sortFields: ['joinedAt', 'role'],
+  defaultSort: { joinedAt: 1 },
+  fields: ['userId', 'role', 'joinedAt'],
+  defaultLimit: 20
+};
+
+const ORGANISATION_FIELDS = ['name', 'type', 'description', 'city', 'website'];
+
+const leaderboardWindow = (req: Request) => getLeaderboardWindow(
+  (req.query.period as LeaderboardPeriod) || 'all_time',
+  req.query.date ? new Date(req.query.date as string) : new Date()
+);
+
+// Get active organisations
+export const getOrganisations = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IOrganisationDocument>>>) => {
+  const filter: any = { isActive: true };
+
+  if (req.query.type) {
+    filter.type = req.query.type;
+  }
+
+  const organisations = await findPage(Organisation, filter, req.query, ORGANISATION_LIST);
+
+  res.json({
+    success: true,
+    message: 'Organisations retrieved successfully',
+    data: organisations
+  });
+});
+
+// Create an organisation; the creator becomes its owner
+export const createOrganisation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const organisation = await createOrganisationRecord(pickFields(req.body, ORGANISATION_FIELDS), req.user!._id);
+
+  res.status(201).json({
+    success: true,
+    message: 'Organisation created successfully',
+    data: { ...organisation.toJSON(), inviteCode: organisation.inviteCode, role: 'owner' }
+  });
+});
+
+// Get the organisations the current user belongs to, with their role in each
+export const getMyOrganisations = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any[]>>) => {
+  const memberships = await OrganisationMember.find({ userId: req.user!._id })
+    .populate('organisationId')
+    .sort({ joinedAt: -1 });
+
+  res.json({
+    success: true,
+    message: 'Organisations retrieved successfully',
+    data: memberships
+      .filter(membership => membership.organisationId)
+      .map(membership => ({
+        organisation: membership.organisationId,
+        role: membership.role,
+        joinedAt: membership.joinedAt
+      }))
+  });
+});
+
+// Join an organisation with its invite code
+export const joinOrganisation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IOrganisationMemberDocument>>) => {
+  const organisation = await Organisation.findOne({ inviteCode: req.body.inviteCode, isActive: true });
+
+  if (!organisation) {
+    return res.status(404).json({
+      success: false,
+      message: 'Invalid invite code'
+    });
+  }
+
+  if (await getMembership(organisation._id, req.user!._id)) {
+    return res.status(409).json({
+      success: false,
+      message: 'You are already a member of this organisation'
+    });
+  }
+
+  const membership = await OrganisationMember.create({
+    organisationId: organisation._id,
+    userId: req.user!._id,
+    role: 'member'
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: `You have joined ${organisation.name}; your donations from now on count toward the team`,
+    data: membership
+  });
+});
+
+// Leave an organisation
+export const leaveOrganisation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+  const membership = await getMembership(req.params.id, req.user!._id);
+
+  if (!membership) {
+    return res.status(404).json({
+      success: false,
+      message: 'You are not a member of this organisation'
+    });
+  }
+
+  await assertOwnerRemains(membership);
+  await membership.deleteOne();
+
+  return res.json({
+    success: true,
+    message: 'You have left the organisation'
+  });
+});
+
+// Get team-vs-team leaderboard
+export const getTeamLeaderboardEntries = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<any>>>) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const window = leaderboardWindow(req);
+
+  const teams = await getTeamLeaderboard(window, page, limit);
+
+  res.json({
+    success: true,
+    message: `Top teams for ${window.periodKey === 'all' ? 'all time' : window.periodKey} retrieved successfully`,
+    data: teams
+  });
+});
+
+// Get organisation by ID; its managers also see the invite code
+export const getOrganisation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const organisation = await Organisation.findById(req.params.id);
+  const membership = organisation && await getMembership(organisation._id, req.user!._id);
+
+  if (!organisation || (!organisation.isActive && !isManager(membership) && req.user!.userType !== 'admin')) {
+    return res.status(404).json({
+      success: false,
+      message: 'Organisation not found'
+    });
+  }
+
+  const members = await OrganisationMember.countDocuments({ organisationId: organisation._id });
+
+  return res.json({
+    success: true,
+    message: 'Organisation retrieved successfully',
+    data: {
+      ...organisation.toJSON(),
+      members,
+      role: membership?.role || null,
+      ...(isManager(membership) && { inviteCode: organisation.inviteCode })
+    }
+  });
+});
+
+// Update organisation details (owners and admins)
+export const updateOrganisation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IOrganisationDocument>>) => {
+  const organisation = await Organisation.findById(req.params.id);
+
+  if (!organisation) {
+    return res.status(404).json({
+      success: false,
+      message: 'Organisation not found'
+    });
+  }
+
+  [...ORGANISATION_FIELDS, 'isActive']
+    .filter(field => req.body[field] !== undefined)
+    .forEach(field => organisation.set(field, req.body[field]));
+  await organisation.save();
+
+  if (!organisation.isActive) {
+    await removeFromTeamLeaderboards(organisation._id);
+  }
+
+  return res.json({
+    success: true,
+    message: 'Organisation updated successfully',
+    data: organisation
+  });
+});
+
+// Replace the invite code; the old one stops working (owners and admins)
+export const regenerateInviteCode = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ inviteCode: string }>>) => {
+  const organisation = await Organisation.findByIdAndUpdate(
+    req.params.id,
+    { inviteCode: generateInviteCode() },
+    { new: true }
+  );
+
+  if (!organisation) {
+    return res.status(404).json({
+      success: false,
+      message: 'Organisation not found'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Invite code regenerated successfully',
+    data: { inviteCode: organisation.inviteCode }
+  });
+});
+
+// Get organisation members (owners and admins). Only names and roles are listed; no contact or
+// medical details.
+export const getOrganisationMembers = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<any>>>) => {
+  const members = await findPage(OrganisationMember, { organisationId: req.params.id }, req.query, MEMBER_LIST, {
+    populate: { path: 'userId', select: 'name' }
+  });
+
+  res.json({
+    success: true,
+    message: 'Members retrieved successfully',
+    data: {
+      ...members,
+      data: members.data.map(member => ({
+        user: member.userId,
+        role: member.role,
+        joinedAt: member.joinedAt
+      }))
+    }
+  });
+});
+
+// Change a member's role (owners only)
+export const updateMemberRole = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IOrganisationMemberDocument>>) => {
+  const member = await getMembership(req.params.id, req.params.userId);
+
+  if (!member) {
+    return res.status(404).json({
+      success: false,
+      message: 'Member not found'
+    });
+  }
+
+  if (member.role !== req.body.role) {
+    if (req.body.role !== 'owner') {
+      await assertOwnerRemains(member);
+    }
+
+    member.role = req.body.role;
+    await member.save();
+  }
+
+  return res.json({
+    success: true,
+    message: 'Member role updated successfully',
+    data: member
+  });
+});
+
+// Remove a member (owners and admins); only owners may remove other owners or admins
+export const removeMember = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+  const member = await getMembership(req.params.id, req.params.userId);
+
+  if (!member) {
+    return res.status(404).json({
+      success: false,
+      message: 'Member not found'
+    });
+  }
+
+  const actor = await getMembership(req.params.id, req.user!._id);
+  if (isManager(member) && actor?.role !== 'owner' && req.user!.userType !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      message: 'Only owners can remove owners or admins'
+    });
+  }
+
+  await assertOwnerRemains(member);
+  await member.deleteOne();
+
+  return res.json({
+    success: true,
+    message: 'Member removed successfully'
+  });
+});
+
+// Get aggregate donation stats for CSR reporting (owners and admins)
+export const getOrganisationStats = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const stats = await computeOrganisationStats(req.params.id, leaderboardWindow(req));
+
+  res.json({
+    success: true,
+    message: 'Organisation stats retrieved successfully',
+    data: stats
+  });
+});
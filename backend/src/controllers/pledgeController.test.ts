@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import Pledge from '../models/Pledge';
+import BloodRequest from '../models/BloodRequest';
+import { notifyUserById } from '../services/pledgeService';
+import { findPage } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+import { declinePledge, getRequestPledges } from './pledgeController';
+
+jest.mock('../services/pledgeService', () => ({
+  ...jest.requireActual('../services/pledgeService'),
+  notifyUserById: jest.fn()
+}));
+
+jest.mock('../services/listQueryService', () => ({
+  ...jest.requireActual('../services/listQueryService'),
+  findPage: jest.fn().mockResolvedValue({ data: [], pagination: {} })
+}));
+
+jest.mock('../services/socketService', () => ({
+  publishBloodRequestEvent: jest.fn(),
+  publishBloodRequestUpdate: jest.fn()
+}));
+
+// Call a catchAsync handler and wait for its response or error
+const run = (handler: Function, req: any): Promise<{ status: number; body?: any; error?: any }> => {
+  return new Promise(resolve => {
+    let status = 200;
+    const res: any = {
+      status: jest.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: jest.fn((body: any) => {
+        resolve({ status, body });
+        return res;
+      })
+    };
+    handler(req, res, (error: any) => resolve({ status: 500, error }));
+  });
+};
+
+describe('declinePledge', () => {
+  const requesterId = new mongoose.Types.ObjectId();
+  const donorId = new mongoose.Types.ObjectId();
+  const pledgeId = new mongoose.Types.ObjectId();
+  const requestId = new mongoose.Types.ObjectId();
+  const user = { _id: requesterId, name: 'Requester', userType: 'patient' };
+
+  beforeEach(() => {
+    jest.spyOn(Pledge, 'findById').mockResolvedValue({ _id: pledgeId, requestId } as any);
+    jest.spyOn(BloodRequest, 'findById').mockResolvedValue({
+      _id: requestId,
+      requesterId,
+      patientName: 'Asha',
+      addHistory: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined)
+    } as any);
+    jest.spyOn(Pledge, 'findOneAndUpdate').mockResolvedValue({
+      _id: pledgeId,
+      donorId,
+      donorName: 'Donor',
+      status: 'declined'
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(notifyUserById).mockClear();
+  });
+
+  it('tells the donor their pledge was declined', async () => {
+    const { status } = await run(declinePledge, { params: { id: pledgeId.toString() }, user, body: {} });
+
+    expect(status).toBe(200);
+    expect(notifyUserById).toHaveBeenCalledWith(
+      donorId,
+      expect.objectContaining({
+        type: 'pledge_declined',
+        title: 'Your pledge for Asha was declined',
+        message: 'The requester declined your pledge. Thank you for offering to help.'
+      }),
+      `pledge:${pledgeId}:declined`
+    );
+  });
+
+  it('passes on the requester\'s note', async () => {
+    await run(declinePledge, { params: { id: pledgeId.toString() }, user, body: { note: 'We have enough donors' } });
+
+    expect(notifyUserById).toHaveBeenCalledWith(
+      donorId,
+      expect.objectContaining({ message: 'The requester declined your pledge: We have enough donors' }),
+      `pledge:${pledgeId}:declined`
+    );
+  });
+
+  it('only lets the requester decline', async () => {
+    const { status } = await run(declinePledge, {
+      params: { id: pledgeId.toString() },
+      user: { ...user, _id: new mongoose.Types.ObjectId() },
+      body: {}
+    });
+
+    expect(status).toBe(403);
+    expect(notifyUserById).not.toHaveBeenCalled();
+  });
+});
+
+describe('getRequestPledges', () => {
+  const requesterId = new mongoose.Types.ObjectId();
+  const requestId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(BloodRequest, 'findById').mockResolvedValue({ _id: requestId, requesterId } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(findPage).mockClear();
+  });
+
+  it('shows the requester only the public profile of pledging donors', async () => {
+    const { status } = await run(getRequestPledges, {
+      params: { id: requestId.toString() },
+      user: { _id: requesterId, name: 'Requester', userType: 'patient' },
+      query: {}
+    });
+
+    expect(status).toBe(200);
+    const [, filter, , , options] = jest.mocked(findPage).mock.calls[0];
+    expect(filter).toEqual({ requestId });
+    expect(options!.populate).toEqual({ path: 'donorId', select: PUBLIC_PROFILE_SELECT });
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('phone');
+    expect(PUBLIC_PROFILE_SELECT.split(' ')).not.toContain('email');
+  });
+});
@@ -0,0 +1,355 @@
+import { Response } from 'express';
+import Pledge, { IPledgeDocument } from '../models/Pledge';
+import BloodRequest from '../models/BloodRequest';
+import DonationRecord from '../models/DonationRecord';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { isCompatible } from '../services/bloodCompatibility';
+import { donationTypeForComponent } from '../services/eligibilityPolicy';
+import { notifyUserById } from '../services/pledgeService';
+import { publishBloodRequestEvent } from '../services/socketService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+import { PUBLIC_PROFILE_SELECT } from '../services/contactService';
+
+const PLEDGE_LIST: ListQuerySpec = {
+  sortFields: ['createdAt', 'unitsPledged'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' },
+    units: { field: 'unitsPledged', type: 'number' }
+  }
+};
+
+// Pledge to donate for a blood request
+export const createPledge = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPledgeDocument>>) => {
+  const donor = req.user!;
+  const bloodRequest = await BloodRequest.findById(req.params.id);
+
+  if (!bloodRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Blood request not found'
+    });
+  }
+
+  if (!bloodRequest.canBeFulfilled()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Request is not active'
+    });
+  }
+
+  if (bloodRequest.requesterId.toString() === donor._id.toString()) {
+    return res.status(400).json({
+      success: false,
+      message: 'You cannot pledge to your own request'
+    });
+  }
+
+  if (!donor.bloodGroup || !isCompatible(donor.bloodGroup, bloodRequest.bloodGroup, bloodRequest.component)) {
+    return res.status(400).json({
+      success: false,
+      message: `Your blood group is not compatible with this ${bloodRequest.bloodGroup} request`
+    });
+  }
+
+  // The request's component decides which kind of donation the donor would give
+  const nextEligibleDate = donor.getNextEligibleDate(donationTypeForComponent(bloodRequest.component));
+  if (nextEligibleDate) {
+    return res.status(400).json({
+      success: false,
+      message: `You can give this donation again from ${nextEligibleDate.toDateString()}`
+    });
+  }
+
+  const existingPledge = await Pledge.findOne({
+    requestId: bloodRequest._id,
+    donorId: donor._id,
+    status: { $in: ['pending', 'accepted'] }
+  });
+
+  if (existingPledge) {
+    return res.status(409).json({
+      success: false,
+      message: 'You have already pledged to this request'
+    });
+  }
+
+  const pledge = await Pledge.create({
+    requestId: bloodRequest._id,
+    donorId: donor._id,
+    donorName: donor.name,
+    bloodGroup: donor.bloodGroup,
+    unitsPledged: req.body.unitsPledged || 1,
+    message: req.body.message
+  });
+
+  bloodRequest.addHistory('pledged', donor, `${pledge.unitsPledged} unit(s) pledged`);
+  await bloodRequest.save();
+
+  notifyUserById(bloodRequest.requesterId, {
+    type: 'pledge_received',
+    title: `${donor.name} pledged to donate for ${bloodRequest.patientName}`,
+    message: `${donor.name} (${donor.bloodGroup}) pledged ${pledge.unitsPledged} unit(s). ` +
+      'Accept or decline the pledge from your request page.',
+    data: { requestId: bloodRequest._id, pledgeId: pledge._id }
+  }, `pledge:${pledge._id}:received`);
+
+  publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Pledge created successfully',
+    data: pledge
+  });
+});
+
+// Get pledges for a blood request (requesters see all, donors see their own)
+export const getRequestPledges = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IPledgeDocument>>>) => {
+  const bloodRequest = await BloodRequest.findById(req.params.id);
+
+  if (!bloodRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Blood request not found'
+    });
+  }
+
+  const filter: any = { requestId: bloodRequest._id };
+
+  if (bloodRequest.requesterId.toString() !== req.user!._id.toString()) {
+    filter.donorId = req.user!._id;
+  }
+
+  const pledges = await findPage(Pledge, filter, req.query, { ...PLEDGE_LIST, defaultSort: { createdAt: 1 } }, {
+    populate: { path: 'donorId', select: PUBLIC_PROFILE_SELECT }
+  });
+
+  return res.json({
+    success: true,
+    message: 'Pledges retrieved successfully',
+    data: pledges
+  });
+});
+
+// Get the current donor's pledges
+export const getMyPledges = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IPledgeDocument>>>) => {
+  const filter: any = { donorId: req.user!._id };
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  const pledges = await findPage(Pledge, filter, req.query, PLEDGE_LIST, {
+    populate: { path: 'requestId', select: 'patientName bloodGroup hospital city urgency status expiresAt' }
+  });
+
+  res.json({
+    success: true,
+    message: 'Pledges retrieved successfully',
+    data: pledges
+  });
+});
+
+// Accept a pending pledge, creating the pending donation record for it
+export const acceptPledge = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPledgeDocument>>) => {
+  const pledge = await Pledge.findById(req.params.id);
+
+  if (!pledge) {
+    return res.status(404).json({
+      success: false,
+      message: 'Pledge not found'
+    });
+  }
+
+  const bloodRequest = await BloodRequest.findById(pledge.requestId);
+
+  if (!bloodRequest || bloodRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to respond to this pledge'
+    });
+  }
+
+  if (!bloodRequest.canBeFulfilled()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Request is not active'
+    });
+  }
+
+  // Claim the pledge first, so two concurrent accepts cannot both create a donation record
+  const accepted = await Pledge.findOneAndUpdate(
+    { _id: pledge._id, status: 'pending' },
+    { $set: { status: 'accepted', respondedAt: new Date(), responseNote: req.body.note } },
+    { new: true }
+  );
+
+  if (!accepted) {
+    return res.status(400).json({
+      success: false,
+      message: 'Pledge is not pending'
+    });
+  }
+
+  let donationRecord;
+  try {
+    donationRecord = await DonationRecord.create({
+      donorId: accepted.donorId,
+      donorName: accepted.donorName,
+      bloodGroup: accepted.bloodGroup,
+      requestId: bloodRequest._id,
+      pledgeId: accepted._id,
+      // Requests posted by a hospital account go straight into its approval queue
+      hospitalId: req.user!.userType === 'hospital' ? req.user!._id : undefined,
+      hospital: bloodRequest.hospital,
+      city: bloodRequest.city,
+      unitsContributed: accepted.unitsPledged,
+      status: 'pending'
+    });
+  } catch (error) {
+    // Give the pledge back so the requester can try again
+    await Pledge.updateOne(
+      { _id: accepted._id, status: 'accepted' },
+      { $set: { status: 'pending' }, $unset: { respondedAt: 1, responseNote: 1 } }
+    );
+    throw error;
+  }
+
+  accepted.donationRecordId = donationRecord._id;
+  await accepted.save();
+
+  bloodRequest.addHistory('pledge_accepted', req.user!, `Pledge from ${accepted.donorName} accepted`);
+  await bloodRequest.save();
+
+  notifyUserById(accepted.donorId, {
+    type: 'pledge_accepted',
+    title: `Your pledge for ${bloodRequest.patientName} was accepted`,
+    message: `Please donate ${accepted.unitsPledged} unit(s) at ${bloodRequest.hospital}, ${bloodRequest.city}. ` +
+      `Contact: ${bloodRequest.contactPhone}.`,
+    data: { requestId: bloodRequest._id, pledgeId: accepted._id, donationRecordId: donationRecord._id }
+  }, `pledge:${accepted._id}:accepted`);
+
+  publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+
+  return res.json({
+    success: true,
+    message: 'Pledge accepted successfully',
+    data: accepted
+  });
+});
+
+// Decline a pending pledge
+export const declinePledge = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPledgeDocument>>) => {
+  const pledge = await Pledge.findById(req.params.id);
+
+  if (!pledge) {
+    return res.status(404).json({
+      success: false,
+      message: 'Pledge not found'
+    });
+  }
+
+  const bloodRequest = await BloodRequest.findById(pledge.requestId);
+
+  if (!bloodRequest || bloodRequest.requesterId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to respond to this pledge'
+    });
+  }
+
+  // Conditional update, so a pledge accepted in the meantime is not declined as well
+  const declined = await Pledge.findOneAndUpdate(
+    { _id: pledge._id, status: 'pending' },
+    { $set: { status: 'declined', respondedAt: new Date(), responseNote: req.body.note } },
+    { new: true }
+  );
+
+  if (!declined) {
+    return res.status(400).json({
+      success: false,
+      message: 'Pledge is not pending'
+    });
+  }
+
+  bloodRequest.addHistory('pledge_declined', req.user!, `Pledge from ${declined.donorName} declined`);
+  await bloodRequest.save();
+
+  notifyUserById(declined.donorId, {
+    type: 'pledge_declined',
+    title: `Your pledge for ${bloodRequest.patientName} was declined`,
+    message: req.body.note
+      ? `The requester declined your pledge: ${req.body.note}`
+      : 'The requester declined your pledge. Thank you for offering to help.',
+    data: { requestId: bloodRequest._id, pledgeId: declined._id }
+  }, `pledge:${declined._id}:declined`);
+
+  return res.json({
+    success: true,
+    message: 'Pledge declined successfully',
+    data: declined
+  });
+});
+
+// Withdraw the current donor's pledge, cancelling its pending donation
+export const withdrawPledge = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPledgeDocument>>) => {
+  const pledge = await Pledge.findById(req.params.id);
+
+  if (!pledge) {
+    return res.status(404).json({
+      success: false,
+      message: 'Pledge not found'
+    });
+  }
+
+  if (pledge.donorId.toString() !== req.user!._id.toString()) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to withdraw this pledge'
+    });
+  }
+
+  if (!pledge.isOpen()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only pending or accepted pledges can be withdrawn'
+    });
+  }
+
+  if (pledge.donationRecordId) {
+    await DonationRecord.updateOne(
+      { _id: pledge.donationRecordId, status: 'pending' },
+      { $set: { status: 'cancelled' } }
+    );
+  }
+
+  const wasAccepted = pledge.status === 'accepted';
+  pledge.status = 'withdrawn';
+  await pledge.save();
+
+  const bloodRequest = await BloodRequest.findById(pledge.requestId);
+
+  if (bloodRequest) {
+    bloodRequest.addHistory('pledge_withdrawn', req.user!);
+    await bloodRequest.save();
+
+    if (wasAccepted) {
+      notifyUserById(bloodRequest.requesterId, {
+        type: 'pledge_withdrawn',
+        title: `${pledge.donorName} withdrew their pledge for ${bloodRequest.patientName}`,
+        message: 'An accepted donor can no longer donate. Other donors can still pledge to your request.',
+        data: { requestId: bloodRequest._id, pledgeId: pledge._id }
+      }, `pledge:${pledge._id}:withdrawn`);
+    }
+
+    publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+  }
+
+  return res.json({
+    success: true,
+    message: 'Pledge withdrawn successfully',
+    data: pledge
+  });
+});
@@ -0,0 +1,191 @@
+import { Response } from 'express';
+import PointsRule, { IPointsRuleDocument } from '../models/PointsRule';
+import PointsRecalculation, { IPointsRecalculationDocument } from '../models/PointsRecalculation';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit, pickFields } from '../services/auditService';
+import { DEFAULT_POINTS_RULE, getPointsRule } from '../services/pointsService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const RECALCULATION_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  },
+  defaultLimit: 20
+};
+
+const RULE_FIELDS = [
+  'effectiveFrom',
+  'basePoints',
+  'extraUnitPoints',
+  'requestPoints',
+  'rareBloodGroupPoints',
+  'campPoints',
+  'firstDonationPoints',
+  'note'
+];
+
+// Get all points rules, latest effective date first, with the one in effect now
+export const getPointsRules = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const [rules, current] = await Promise.all([
+    PointsRule.find().sort({ effectiveFrom: -1 }),
+    getPointsRule()
+  ]);
+
+  res.json({
+    success: true,
+    message: 'Points rules retrieved successfully',
+    data: {
+      current: current || { ...DEFAULT_POINTS_RULE, isDefault: true },
+      rules
+    }
+  });
+});
+
+// Add a points rule; donations already verified keep their score until a recalculation
+export const createPointsRule = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPointsRuleDocument>>) => {
+  const existing = await PointsRule.exists({ effectiveFrom: new Date(req.body.effectiveFrom) });
+
+  if (existing) {
+    return res.status(409).json({
+      success: false,
+      message: 'A points rule already takes effect at this time'
+    });
+  }
+
+  const rule = await PointsRule.create({
+    ...pickFields(req.body, RULE_FIELDS),
+    createdBy: req.user!._id,
+    updatedBy: req.user!._id
+  });
+
+  await recordAudit(req, {
+    action: 'create_points_rule',
+    targetType: 'points_rule',
+    targetId: rule._id,
+    reason: req.body.note,
+    after: pickFields(rule, RULE_FIELDS)
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: rule.effectiveFrom <= new Date()
+      ? 'Points rule created; request a recalculation to rescore donations already verified since it took effect'
+      : 'Points rule created successfully',
+    data: rule
+  });
+});
+
+// Correct a points rule; donations it already scored change only when recalculated
+export const updatePointsRule = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPointsRuleDocument>>) => {
+  const rule = await PointsRule.findById(req.params.id);
+
+  if (!rule) {
+    return res.status(404).json({
+      success: false,
+      message: 'Points rule not found'
+    });
+  }
+
+  const before = pickFields(rule.toObject(), RULE_FIELDS);
+
+  RULE_FIELDS
+    .filter(field => req.body[field] !== undefined)
+    .forEach(field => rule.set(field, req.body[field]));
+  rule.set('updatedBy', req.user!._id);
+  await rule.save();
+
+  await recordAudit(req, {
+    action: 'update_points_rule',
+    targetType: 'points_rule',
+    targetId: rule._id,
+    reason: req.body.note,
+    before,
+    after: pickFields(rule.toObject(), RULE_FIELDS)
+  });
+
+  return res.json({
+    success: true,
+    message: 'Points rule updated; request a recalculation to rescore donations it already scored',
+    data: rule
+  });
+});
+
+// Delete a points rule that has not taken effect yet
+export const deletePointsRule = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+  const rule = await PointsRule.findById(req.params.id);
+
+  if (!rule) {
+    return res.status(404).json({
+      success: false,
+      message: 'Points rule not found'
+    });
+  }
+
+  if (rule.effectiveFrom <= new Date()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Rules already in effect cannot be deleted; add a new rule or correct this one instead'
+    });
+  }
+
+  await rule.deleteOne();
+
+  await recordAudit(req, {
+    action: 'delete_points_rule',
+    targetType: 'points_rule',
+    targetId: rule._id,
+    before: pickFields(rule.toObject(), RULE_FIELDS)
+  });
+
+  return res.json({
+    success: true,
+    message: 'Points rule deleted successfully'
+  });
+});
+
+// Queue a rescoring of the completed donations in a date range, run by the background job
+export const requestPointsRecalculation = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPointsRecalculationDocument>>) => {
+  const recalculation = await PointsRecalculation.create({
+    from: new Date(req.body.from),
+    to: new Date(req.body.to),
+    reason: req.body.reason,
+    requestedBy: req.user!._id
+  });
+
+  await recordAudit(req, {
+    action: 'recalculate_points',
+    targetType: 'points_recalculation',
+    targetId: recalculation._id,
+    reason: req.body.reason,
+    after: pickFields(recalculation, ['from', 'to'])
+  });
+
+  res.status(202).json({
+    success: true,
+    message: 'Points recalculation queued',
+    data: recalculation
+  });
+});
+
+// Get points recalculations, newest first
+export const getPointsRecalculations = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IPointsRecalculationDocument>>>) => {
+  const filter: any = {};
+
+  if (req.query.status) {
+    filter.status = req.query.status;
+  }
+
+  const recalculations = await findPage(PointsRecalculation, filter, req.query, RECALCULATION_LIST, {
+    populate: { path: 'requestedBy', select: 'name email' }
+  });
+
+  res.json({
+    success: true,
+    message: 'Points recalculations retrieved successfully',
+    data: recalculations
+  });
+});
@@ -0,0 +1,163 @@
+import { Response } from 'express';
+import User, { IUserDocument, IDeferralDocument } from '../models/User';
+import ScreeningResponse, { IScreeningResponseDocument } from '../models/ScreeningResponse';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { getQuestionnaire, submitScreening } from '../services/screeningService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+const SCREENING_RESPONSE_LIST: ListQuerySpec = {
+  sortFields: ['createdAt'],
+  defaultSort: { createdAt: -1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  }
+};
+
+// A donor's deferrals with what they mean for donating now
+const describeEligibility = (donor: IUserDocument) => ({
+  canDonate: donor.get('canDonate'),
+  permanentlyDeferred: donor.hasPermanentDeferral(),
+  nextEligibleDate: donor.hasPermanentDeferral() ? null : donor.getNextEligibleDate(),
+  nextEligibleDates: donor.hasPermanentDeferral() ? null : donor.getNextEligibleDates(),
+  activeDeferrals: donor.getActiveDeferrals(),
+  deferrals: donor.deferrals
+});
+
+// Get the screening questionnaire (current version unless ?version= is given)
+export const getScreeningQuestionnaire = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const version = req.query.version ? parseInt(req.query.version as string) : undefined;
+  const questionnaire = getQuestionnaire(version);
+
+  if (!questionnaire) {
+    return res.status(404).json({
+      success: false,
+      message: 'Questionnaire version not found'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Questionnaire retrieved successfully',
+    data: questionnaire
+  });
+});
+
+// Submit answers to the screening questionnaire
+export const submitScreeningResponse = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const { response, deferrals } = await submitScreening(req.user!, req.body.version, req.body.answers);
+
+  res.status(201).json({
+    success: true,
+    message: response.eligible
+      ? 'Screening complete; you are eligible to donate'
+      : 'Screening complete; you cannot donate at the moment',
+    data: { response, deferrals }
+  });
+});
+
+// Get current donor's screening history
+export const getMyScreeningResponses = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IScreeningResponseDocument>>>) => {
+  const filter = { donorId: req.user!._id };
+
+  const responses = await findPage(ScreeningResponse, filter, req.query, SCREENING_RESPONSE_LIST);
+
+  res.json({
+    success: true,
+    message: 'Screening responses retrieved successfully',
+    data: responses
+  });
+});
+
+// Get current donor's deferrals and eligibility
+export const getMyDeferrals = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  res.json({
+    success: true,
+    message: 'Deferrals retrieved successfully',
+    data: describeEligibility(req.user!)
+  });
+});
+
+// Get a donor's deferrals and eligibility
+export const getDonorDeferrals = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
+  const donor = await User.findOne({ _id: req.params.id, userType: 'donor' });
+
+  if (!donor) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donor not found'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Deferrals retrieved successfully',
+    data: describeEligibility(donor)
+  });
+});
+
+// Record a deferral for a donor, e.g. after a failed haemoglobin test
+export const addDonorDeferral = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDeferralDocument>>) => {
+  const donor = await User.findOneAndUpdate(
+    { _id: req.params.id, userType: 'donor' },
+    {
+      $push: {
+        deferrals: {
+          category: req.body.category,
+          type: req.body.type,
+          reason: req.body.reason,
+          startDate: new Date(),
+          endDate: req.body.type === 'temporary' ? new Date(req.body.endDate) : undefined,
+          source: 'hospital',
+          recordedBy: req.user!._id
+        }
+      }
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!donor) {
+    return res.status(404).json({
+      success: false,
+      message: 'Donor not found'
+    });
+  }
+
+  return res.status(201).json({
+    success: true,
+    message: 'Deferral recorded successfully',
+    data: donor.deferrals[donor.deferrals.length - 1]
+  });
+});
+
+// Lift a deferral that no longer applies, e.g. one recorded in error
+export const liftDonorDeferral = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDeferralDocument>>) => {
+  const donor = await User.findOneAndUpdate(
+    {
+      _id: req.params.id,
+      deferrals: { $elemMatch: { _id: req.params.deferralId, liftedAt: { $exists: false } } }
+    },
+    {
+      $set: {
+        'deferrals.$.liftedAt': new Date(),
+        'deferrals.$.liftedBy': req.user!._id,
+        'deferrals.$.liftReason': req.body.reason
+      }
+    },
+    { new: true }
+  );
+
+  if (!donor) {
+    return res.status(404).json({
+      success: false,
+      message: 'Deferral not found or already lifted'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Deferral lifted successfully',
+    data: donor.deferrals.id(req.params.deferralId)!
+  });
+});
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { updateUserAvailability } from './userController';
+
+// Call a catchAsync handler and wait for its response or error
+const run = (handler: Function, req: any): Promise<{ status: number; body?: any; error?: any }> => {
+  return new Promise(resolve => {
+    let status = 200;
+    const res: any = {
+      status: jest.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: jest.fn((body: any) => {
+        resolve({ status, body });
+        return res;
+      })
+    };
+    handler(req, res, (error: any) => resolve({ status: 500, error }));
+  });
+};
+
+describe('updateUserAvailability', () => {
+  const userId = new mongoose.Types.ObjectId();
+  let update: jest.SpyInstance;
+
+  beforeEach(() => {
+    update = jest.spyOn(User, 'findByIdAndUpdate').mockResolvedValue({ _id: userId, isAvailable: true } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('updates the current user\'s availability', async () => {
+    const { status } = await run(updateUserAvailability, {
+      user: { _id: userId, userType: 'donor' },
+      body: { isAvailable: true }
+    });
+
+    expect(status).toBe(200);
+    expect(update).toHaveBeenCalledWith(userId, { isAvailable: true }, expect.anything());
+  });
+
+  it('keeps an account waiting for deletion unavailable', async () => {
+    const { status } = await run(updateUserAvailability, {
+      user: { _id: userId, userType: 'donor', deletionRequestedAt: new Date() },
+      body: { isAvailable: true }
+    });
+
+    expect(status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,53 @@
 import { Request, Response } from 'express';
-import User, { IUserDocument } from '../models/User';
-import DonationRecord from '../models/DonationRecord';
-import { IApiResponse, IPaginatedResponse, BloodGroup } from '../types';
+import User, { IUserDocument, USER_SEARCH_WEIGHTS } from '../models/User';
+import DonationRecord, { IDonationRecordDocument } from '../models/DonationRecord';
+import { IApiResponse, IPaginatedResponse, ISearchResult, BloodGroup, BloodComponent } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { config } from '../config/config';
+import { resolvePincode } from '../services/geoService';
+import { getAchievements } from '../services/achievementService';
+import { removeFromLeaderboards } from '../services/leaderboardService';
+import { recordDisclosure, toPublicProfile, PUBLIC_PROFILE_FIELDS } from '../services/contactService';
+import { textPattern, textSearch } from '../services/searchService';
+import DataExport, { IDataExportDocument } from '../models/DataExport';
+import {
+  buildUserExport,
+  countUserRecords,
+  exportFileName,
+  findExportByToken,
+  openExportDownload
+} from '../services/dataExportService';
+import { requestAccountDeletion, cancelAccountDeletion } from '../services/accountDeletionService';
+import { findPage, ListQuerySpec } from '../services/listQueryService';
+
+// Other users can only sort and select by what the public profile shows
+const PUBLIC_USER_LIST: ListQuerySpec = {
+  sortFields: ['name', 'city', 'donationCount', 'createdAt'],
+  defaultSort: { donationCount: -1, createdAt: 1 },
+  ranges: {
+    date: { field: 'createdAt', type: 'date' }
+  },
+  fields: PUBLIC_PROFILE_FIELDS.filter(field => User.schema.path(field))
+};
+
+const ADMIN_USER_LIST: ListQuerySpec = {
+  ...PUBLIC_USER_LIST,
+  sortFields: [...PUBLIC_USER_LIST.sortFields, 'email'],
+  fields: undefined
+};
+
+const DONATION_HISTORY_LIST: ListQuerySpec = {
+  sortFields: ['date', 'createdAt', 'unitsContributed', 'points'],
+  defaultSort: { date: -1 },
+  ranges: {
+    date: { field: 'date', type: 'date' },
+    units: { field: 'unitsContributed', type: 'number' }
+  }
+};
 
-// Get all users with filtering and pagination
-export const getUsers = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<IUserDocument>>>) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-
+// Get all users with filtering and pagination; only admins see contact details
+export const getUsers = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<any>>>) => {
   // Build filter query
   const filter: any = {};
   
@@ -23,7 +60,7 @@ export const getUsers = catchAsync(async (req: Request, res: Response<IApiRespon
   }
   
   if (req.query.city) {
-    filter.city = new RegExp(req.query.city as string, 'i');
+    filter.city = textPattern(req.query.city as string);
   }
   
   if (req.query.pincode) {
@@ -34,36 +71,26 @@ export const getUsers = catchAsync(async (req: Request, res: Response<IApiRespon
     filter.isAvailable = req.query.isAvailable === 'true';
   }
 
-  const [users, total] = await Promise.all([
-    User.find(filter)
-      .select('-googleId')
-      .sort({ donationCount: -1, createdAt: 1 })
-      .skip(skip)
-      .limit(limit),
-    User.countDocuments(filter)
-  ]);
+  const isAdmin = req.user!.userType === 'admin';
 
-  const pages = Math.ceil(total / limit);
+  // Others do not see accounts waiting for deletion
+  if (!isAdmin) {
+    filter.deletionRequestedAt = { $exists: false };
+  }
+  const users = await findPage(User, filter, req.query, isAdmin ? ADMIN_USER_LIST : PUBLIC_USER_LIST, {
+    select: '-googleId'
+  });
 
   res.json({
     success: true,
     message: 'Users retrieved successfully',
-    data: {
-      data: users,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages,
-        hasNext: page < pages,
-        hasPrev: page > 1
-      }
-    }
+    data: isAdmin ? users : { ...users, data: users.data.map(toPublicProfile) }
   });
 });
 
-// Get single user
-export const getUser = catchAsync(async (req: Request, res: Response<IApiResponse<IUserDocument>>) => {
+// Get single user, with their achievements. Other users get the public profile; an admin seeing
+// someone's contact details is recorded in that user's access log.
+export const getUser = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
   const user = await User.findById(req.params.id).select('-googleId');
 
   if (!user) {
@@ -73,10 +100,20 @@ export const getUser = catchAsync(async (req: Request, res: Response<IApiRespons
     });
   }
 
-  res.json({
+  const achievements = user.userType === 'donor' ? await getAchievements(user._id) : [];
+  const isSelf = user._id.toString() === req.user!._id.toString();
+
+  if (!isSelf && req.user!.userType === 'admin') {
+    await recordDisclosure(req, user._id, { reason: 'admin', fields: ['email', 'phone'] });
+  }
+
+  return res.json({
     success: true,
     message: 'User retrieved successfully',
-    data: user
+    data: {
+      ...(isSelf || req.user!.userType === 'admin' ? user.toJSON() : toPublicProfile(user)),
+      achievements
+    }
   });
 });
 
@@ -84,22 +121,53 @@ export const getUser = catchAsync(async (req: Request, res: Response<IApiRespons
 export const updateUserAvailability = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
   const { isAvailable } = req.body;
 
+  // Deleting an account makes it unavailable until the deletion is undone
+  if (req.user!.deletionRequestedAt) {
+    return res.status(400).json({
+      success: false,
+      message: 'Your account is scheduled for deletion; restore it before changing your availability'
+    });
+  }
+
   const user = await User.findByIdAndUpdate(
     req.user!._id,
     { isAvailable },
     { new: true, runValidators: true }
   );
 
-  res.json({
+  return res.json({
     success: true,
     message: 'User availability updated successfully',
     data: user!
   });
 });
 
-// Get available donors by blood group and location
-export const getAvailableDonors = catchAsync(async (req: Request, res: Response<IApiResponse<IUserDocument[]>>) => {
-  const { bloodGroup, city, pincode } = req.query;
+// Hide or show the current donor on public leaderboards
+export const updateLeaderboardOptOut = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const { optOut } = req.body;
+
+  const user = await User.findByIdAndUpdate(
+    req.user!._id,
+    { leaderboardOptOut: optOut },
+    { new: true, runValidators: true }
+  );
+
+  // Coming back onto the boards waits for the next snapshot
+  if (optOut) {
+    await removeFromLeaderboards(req.user!._id);
+  }
+
+  res.json({
+    success: true,
+    message: optOut ? 'You are no longer shown on leaderboards' : 'You will be shown on leaderboards again shortly',
+    data: user!
+  });
+});
+
+// Get available donors compatible with a blood group, component and location. Contact details are
+// hidden; requesters reach donors through contact requests.
+export const getAvailableDonors = catchAsync(async (req: Request, res: Response<IApiResponse<any[]>>) => {
+  const { bloodGroup, city, pincode, component } = req.query;
 
   if (!bloodGroup) {
     return res.status(400).json({
@@ -108,16 +176,42 @@ export const getAvailableDonors = catchAsync(async (req: Request, res: Response<
     });
   }
 
+  // Prefer a distance search: explicit coordinates first, then the pincode's location
+  const fromCoordinates = req.query.lat !== undefined;
+  const near = fromCoordinates
+    ? { lat: parseFloat(req.query.lat as string), lng: parseFloat(req.query.lng as string) }
+    : resolvePincode(pincode as string | undefined);
+
+  if (near) {
+    const radiusKm = parseFloat(req.query.radiusKm as string) || config.donorSearchRadiusKm;
+    const donors = await User.findNearbyDonors(
+      bloodGroup as BloodGroup,
+      near,
+      radiusKm,
+      component as BloodComponent | undefined
+    );
+
+    // Donors whose pincode could not be placed on the map are only found by city and pincode
+    if (donors.length || fromCoordinates) {
+      return res.json({
+        success: true,
+        message: 'Available donors retrieved successfully',
+        data: donors.map(toPublicProfile)
+      });
+    }
+  }
+
   const donors = await User.findAvailableDonors(
     bloodGroup as BloodGroup,
     city as string,
-    pincode as string
+    pincode as string,
+    component as BloodComponent | undefined
   );
 
   res.json({
     success: true,
     message: 'Available donors retrieved successfully',
-    data: donors
+    data: donors.map(toPublicProfile)
   });
 });
 
@@ -184,51 +278,81 @@ export const getUserStats = catchAsync(async (req: Request, res: Response<IApiRe
   });
 });
 
-// Search users
-export const searchUsers = catchAsync(async (req: Request, res: Response<IApiResponse<IUserDocument[]>>) => {
+// Search users by name or city, best matches first, returning public profiles
+export const searchUsers = catchAsync(async (req: Request, res: Response<IApiResponse<IPaginatedResponse<ISearchResult<any>>>>) => {
   const { q, userType, bloodGroup, city } = req.query;
-  
-  const filter: any = {};
-  
-  if (q) {
-    filter.$or = [
-      { name: new RegExp(q as string, 'i') },
-      { email: new RegExp(q as string, 'i') },
-      { city: new RegExp(q as string, 'i') }
-    ];
-  }
-  
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const filter: any = { deletionRequestedAt: { $exists: false } };
+
   if (userType) filter.userType = userType;
   if (bloodGroup) filter.bloodGroup = bloodGroup;
-  if (city) filter.city = new RegExp(city as string, 'i');
+  if (city) filter.city = textPattern(city as string);
+
+  let results: ISearchResult<any>[];
+  let total: number;
+
+  if (q) {
+    const search = await textSearch(User, {
+      q: q as string,
+      filter,
+      weights: USER_SEARCH_WEIGHTS,
+      page,
+      limit,
+      select: '-googleId'
+    });
 
-  const users = await User.find(filter)
-    .select('-googleId')
-    .sort({ donationCount: -1, createdAt: 1 })
-    .limit(20);
+    results = search.results.map(({ doc, score, highlights }) => ({ ...toPublicProfile(doc), score, highlights }));
+    total = search.total;
+  } else {
+    const [users, count] = await Promise.all([
+      User.find(filter)
+        .select('-googleId')
+        .sort({ donationCount: -1, createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    results = users.map(user => ({ ...toPublicProfile(user), score: 0, highlights: [] }));
+    total = count;
+  }
+
+  const pages = Math.ceil(total / limit);
 
   res.json({
     success: true,
     message: 'Search results retrieved successfully',
-    data: users
+    data: {
+      data: results,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1
+      }
+    }
   });
 });
 
 // Get user's donation history
-export const getUserDonationHistory = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any[]>>) => {
+export const getUserDonationHistory = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IPaginatedResponse<IDonationRecordDocument>>>) => {
   const userId = req.params.id || req.user!._id;
   
   // Check if user is requesting their own data or is admin
-  if (userId !== req.user!._id.toString()) {
+  if (userId !== req.user!._id.toString() && req.user!.userType !== 'admin') {
     return res.status(403).json({
       success: false,
       message: 'Not authorized to view this user\'s donation history'
     });
   }
 
-  const donations = await DonationRecord.find({ donorId: userId })
-    .populate('requestId', 'patientName hospital urgency')
-    .sort({ date: -1 });
+  const donations = await findPage(DonationRecord, { donorId: userId }, req.query, DONATION_HISTORY_LIST, {
+    populate: { path: 'requestId', select: 'patientName hospital urgency' }
+  });
 
   res.json({
     success: true,
@@ -241,8 +365,8 @@ export const getUserDonationHistory = catchAsync(async (req: AuthRequest, res: R
 export const getUserContributionSummary = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<any>>) => {
   const userId = req.params.id || req.user!._id;
   
-  // Check if user is requesting their own data
-  if (userId !== req.user!._id.toString()) {
+  // Check if user is requesting their own data or is admin
+  if (userId !== req.user!._id.toString() && req.user!.userType !== 'admin') {
     return res.status(403).json({
       success: false,
       message: 'Not authorized to view this user\'s contribution summary'
@@ -279,12 +403,15 @@ export const getUserContributionSummary = catchAsync(async (req: AuthRequest, re
       (Date.now() - new Date(userSummary.lastDonation).getTime()) / (1000 * 60 * 60 * 24)
     );
     userSummary.daysSinceLastDonation = daysSinceLastDonation;
-    userSummary.canDonate = daysSinceLastDonation >= 90;
   } else {
     userSummary.daysSinceLastDonation = null;
-    userSummary.canDonate = true;
   }
 
+  // Takes the eligibility policy and any deferrals into account
+  const user = await User.findById(userId);
+  userSummary.canDonate = user ? user.get('canDonate') : false;
+  userSummary.nextEligibleDate = user ? user.get('nextEligibleDate') : null;
+
   res.json({
     success: true,
     message: 'User contribution summary retrieved successfully',
@@ -292,18 +419,129 @@ export const getUserContributionSummary = catchAsync(async (req: AuthRequest, re
   });
 });
 
-// Delete user account
-export const deleteUserAccount = catchAsync(async (req: AuthRequest, res: Response<IApiResponse>) => {
+const sendZip = (res: Response, filename: string, zip: Buffer) => {
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(zip);
+};
+
+// Download everything held about the current user as a zip of JSON and CSV files. Large exports
+// are queued and the user is sent a download link that expires.
+export const exportMyData = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDataExportDocument>>) => {
   const userId = req.user!._id;
 
-  // Delete user's donation records
-  await DonationRecord.deleteMany({ donorId: userId });
+  const queued = await DataExport.findOne({ userId, status: { $in: ['pending', 'processing'] } });
+
+  if (queued) {
+    return res.status(202).json({
+      success: true,
+      message: 'Your data export is already being prepared; you will be notified with a download link',
+      data: queued
+    });
+  }
+
+  const records = await countUserRecords(userId);
+
+  if (records > config.dataExportSyncMaxRecords || req.query.async === 'true') {
+    const dataExport = await DataExport.create({ userId });
+
+    return res.status(202).json({
+      success: true,
+      message: 'Your data export is being prepared; you will be notified with a download link',
+      data: dataExport
+    });
+  }
+
+  const { zip } = await buildUserExport(userId);
 
-  // Delete user account
-  await User.findByIdAndDelete(userId);
+  return sendZip(res, exportFileName(), zip);
+});
+
+// Get the current user's recent data exports
+export const getMyDataExports = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IDataExportDocument[]>>) => {
+  const exports = await DataExport.find({ userId: req.user!._id })
+    .sort({ createdAt: -1 })
+    .limit(10);
 
   res.json({
     success: true,
-    message: 'User account deleted successfully'
+    message: 'Data exports retrieved successfully',
+    data: exports
+  });
+});
+
+// Download a prepared data export with the token from its link
+export const downloadDataExport = catchAsync(async (req: Request, res: Response<IApiResponse>) => {
+  const dataExport = await findExportByToken(req.params.token);
+
+  if (!dataExport || !dataExport.fileId) {
+    return res.status(404).json({
+      success: false,
+      message: 'Download link is invalid or has expired'
+    });
+  }
+
+  const download = openExportDownload(dataExport);
+
+  // The file may have been purged after the export was found; once the download has started
+  // the response can only be cut off
+  download.on('error', () => {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Disposition');
+    res.status(404).json({
+      success: false,
+      message: 'Download link is invalid or has expired'
+    });
+  });
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${dataExport.fileName}"`);
+  return download.pipe(res);
+});
+
+// Schedule deletion of the current user's account. It can be restored during the grace period;
+// after that personal data is anonymised and donation records are kept de-identified.
+export const deleteUserAccount = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<{ deletionScheduledFor: Date }>>) => {
+  const user = req.user!;
+
+  if (user.deletionScheduledFor) {
+    return res.status(400).json({
+      success: false,
+      message: `Your account is already scheduled for deletion on ${user.deletionScheduledFor.toDateString()}`
+    });
+  }
+
+  const deletionScheduledFor = await requestAccountDeletion(user, req.sessionId);
+
+  return res.json({
+    success: true,
+    message: `Your account will be deleted on ${deletionScheduledFor.toDateString()}. ` +
+      'Log in and restore it before then to keep it.',
+    data: { deletionScheduledFor }
+  });
+});
+
+// Cancel a scheduled account deletion
+export const restoreUserAccount = catchAsync(async (req: AuthRequest, res: Response<IApiResponse<IUserDocument>>) => {
+  const user = req.user!;
+
+  if (!user.deletionScheduledFor) {
+    return res.status(400).json({
+      success: false,
+      message: 'Your account is not scheduled for deletion'
+    });
+  }
+
+  await cancelAccountDeletion(user);
+
+  return res.json({
+    success: true,
+    message: 'Account deletion cancelled; turn your availability back on to receive donor requests again',
+    data: user
   });
 });
@@ -2,53 +2,83 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/config';
 import User, { IUserDocument } from '../models/User';
-import { IApiResponse } from '../types';
+import Session from '../models/Session';
+import OrganisationMember from '../models/OrganisationMember';
+import { DonationType, IApiResponse, OrganisationRole } from '../types';
 
 // Extend Request interface to include user
 declare global {
   namespace Express {
+    // Passport declares req.user as Express.User, so that is made our user document; restating the
+    // ID keeps the declaration from being empty
+    interface User extends IUserDocument {
+      _id: IUserDocument['_id'];
+    }
+
     interface Request {
-      user?: IUserDocument;
+      sessionId?: string;
     }
   }
 }
 
 export interface AuthRequest extends Request {
   user?: IUserDocument;
+  sessionId?: string;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+  iat: number;
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  jti: string;
+  exp: number;
 }
 
 // Generate JWT token
-export const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, config.jwtSecret, {
+export const generateToken = (userId: string, sessionId: string): string => {
+  return jwt.sign({ userId, sessionId }, config.jwtSecret, {
     expiresIn: config.jwtExpire,
   } as jwt.SignOptions);
 };
 
 // Generate refresh token
-export const generateRefreshToken = (userId: string): string => {
-  return jwt.sign({ userId }, config.jwtRefreshSecret, {
+export const generateRefreshToken = (userId: string, sessionId: string, jti: string): string => {
+  return jwt.sign({ userId, sessionId }, config.jwtRefreshSecret, {
     expiresIn: config.jwtRefreshExpire,
+    jwtid: jti,
   } as jwt.SignOptions);
 };
 
 // Verify JWT token
-export const verifyToken = (token: string): { userId: string } | null => {
+export const verifyToken = (token: string): AccessTokenPayload | null => {
   try {
-    return jwt.verify(token, config.jwtSecret) as { userId: string };
+    return jwt.verify(token, config.jwtSecret) as AccessTokenPayload;
   } catch (error) {
     return null;
   }
 };
 
 // Verify refresh token
-export const verifyRefreshToken = (token: string): { userId: string } | null => {
+export const verifyRefreshToken = (token: string): RefreshTokenPayload | null => {
   try {
-    return jwt.verify(token, config.jwtRefreshSecret) as { userId: string };
+    return jwt.verify(token, config.jwtRefreshSecret) as RefreshTokenPayload;
   } catch (error) {
     return null;
   }
 };
 
+// Check that the session an access token belongs to has not been revoked
+export const isSessionActive = async (sessionId: string | undefined, userId: string): Promise<boolean> => {
+  if (!sessionId) return false;
+  const session = await Session.findOne({ _id: sessionId, userId });
+  return !!session && session.isActive();
+};
+
 // Authentication middleware
 export const authenticate = async (
   req: AuthRequest,
@@ -87,7 +117,32 @@ export const authenticate = async (
       return;
     }
 
+    if (user.isBlocked()) {
+      res.status(403).json({
+        success: false,
+        message: user.accountStatus === 'banned' ? 'Account has been banned.' : 'Account is suspended.',
+      });
+      return;
+    }
+
+    if (user.changedPasswordAfter(decoded.iat)) {
+      res.status(401).json({
+        success: false,
+        message: 'Password was changed recently. Please log in again.',
+      });
+      return;
+    }
+
+    if (!(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please log in again.',
+      });
+      return;
+    }
+
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -113,8 +168,14 @@ export const optionalAuth = async (
 
       if (decoded) {
         const user = await User.findById(decoded.userId).select('-googleId');
-        if (user) {
+        if (
+          user &&
+          !user.isBlocked() &&
+          !user.changedPasswordAfter(decoded.iat) &&
+          await isSessionActive(decoded.sessionId, decoded.userId)
+        ) {
           req.user = user;
+          req.sessionId = decoded.sessionId;
         }
       }
     }
@@ -152,6 +213,40 @@ export const authorize = (...userTypes: string[]) => {
 // Middleware to check if user is donor
 export const requireDonor = authorize('donor');
 
+// Middleware to check if user is admin
+export const requireAdmin = authorize('admin');
+
+// Middleware to check if user is a hospital whose account an admin has verified
+export const requireVerifiedHospital = (req: AuthRequest, res: Response<IApiResponse>, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required.',
+    });
+    return;
+  }
+
+  if (req.user.userType !== 'hospital' || !req.user.isVerified) {
+    res.status(403).json({
+      success: false,
+      message: 'Only verified hospital accounts can perform this action.',
+    });
+    return;
+  }
+
+  next();
+};
+
+// Middleware to check if user is a verified hospital or an admin, e.g. for medical records
+export const requireVerifiedHospitalOrAdmin = (req: AuthRequest, res: Response<IApiResponse>, next: NextFunction): void => {
+  if (req.user?.userType === 'admin') {
+    next();
+    return;
+  }
+
+  requireVerifiedHospital(req, res, next);
+};
+
 // Middleware to check if user is hospital or patient
 export const requireHospitalOrPatient = authorize('hospital', 'patient');
 
@@ -177,20 +272,60 @@ export const requireCanDonate = async (
     return;
   }
 
-  // Check if user can donate (90 days gap)
-  if (req.user.lastDonation) {
-    const daysSinceLastDonation = Math.floor(
-      (Date.now() - req.user.lastDonation.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    
-    if (daysSinceLastDonation < 90) {
-      res.status(400).json({
+  if (req.user.hasPermanentDeferral()) {
+    res.status(403).json({
+      success: false,
+      message: 'You have been permanently deferred from donating blood.',
+    });
+    return;
+  }
+
+  // Check if user can give this type of donation (eligibility policy and temporary deferrals)
+  const donationType: DonationType = req.body.donationType || 'whole_blood';
+  const nextEligibleDate = req.user.getNextEligibleDate(donationType);
+
+  if (nextEligibleDate) {
+    res.status(400).json({
+      success: false,
+      message: `You can give this donation again from ${nextEligibleDate.toDateString()}, after the wait since your last donation and any deferral.`,
+    });
+    return;
+  }
+
+  next();
+};
+
+// Middleware to check if user holds one of the roles in the organisation given by :id; site admins
+// are always let through
+export const requireOrganisationRole = (...roles: OrganisationRole[]) => {
+  return async (req: AuthRequest, res: Response<IApiResponse>, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
         success: false,
-        message: 'You must wait 90 days between donations.',
+        message: 'Authentication required.',
       });
       return;
     }
-  }
 
-  next();
+    if (req.user.userType === 'admin') {
+      next();
+      return;
+    }
+
+    const membership = await OrganisationMember.exists({
+      organisationId: req.params.id,
+      userId: req.user._id,
+      role: { $in: roles }
+    });
+
+    if (!membership) {
+      res.status(403).json({
+        success: false,
+        message: `Only organisation ${roles.join(' or ')}s can perform this action.`,
+      });
+      return;
+    }
+
+    next();
+  };
 };
@@ -35,6 +35,12 @@ export const validateUserRegistration = [
     .normalizeEmail()
     .withMessage('Please provide a valid email address'),
   
+  body('password')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters')
+    .matches(/^(?=.*[A-Za-z])(?=.*\d)/)
+    .withMessage('Password must contain at least one letter and one number'),
+  
   body('userType')
     .isIn(['donor', 'patient', 'hospital'])
     .withMessage('User type must be donor, patient, or hospital'),
@@ -62,6 +68,11 @@ export const validateUserRegistration = [
     .isInt({ min: 18, max: 65 })
     .withMessage('Age must be between 18 and 65'),
   
+  body('sex')
+    .optional()
+    .isIn(['male', 'female'])
+    .withMessage('Sex must be male or female'),
+  
   body('weight')
     .optional()
     .isFloat({ min: 50, max: 150 })
@@ -70,6 +81,61 @@ export const validateUserRegistration = [
   handleValidationErrors
 ];
 
+// Login validation
+export const validateLogin = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+  
+  handleValidationErrors
+];
+
+// Change password validation
+export const validatePasswordChange = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  
+  body('newPassword')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('New password must be between 8 and 128 characters')
+    .matches(/^(?=.*[A-Za-z])(?=.*\d)/)
+    .withMessage('New password must contain at least one letter and one number'),
+  
+  handleValidationErrors
+];
+
+// Forgot password validation
+export const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  
+  handleValidationErrors
+];
+
+// Reset password validation
+export const validateResetPassword = [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid reset token'),
+  
+  body('password')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters')
+    .matches(/^(?=.*[A-Za-z])(?=.*\d)/)
+    .withMessage('Password must contain at least one letter and one number'),
+  
+  handleValidationErrors
+];
+
 // Blood request validation
 export const validateBloodRequest = [
   body('patientName')
@@ -81,6 +147,11 @@ export const validateBloodRequest = [
     .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
     .withMessage('Invalid blood group'),
   
+  body('component')
+    .optional()
+    .isIn(['whole_blood', 'red_cells', 'plasma', 'platelets'])
+    .withMessage('Component must be whole_blood, red_cells, plasma, or platelets'),
+  
   body('urgency')
     .isIn(['critical', 'urgent', 'normal'])
     .withMessage('Urgency must be critical, urgent, or normal'),
@@ -115,13 +186,79 @@ export const validateBloodRequest = [
   handleValidationErrors
 ];
 
+// Blood request update validation; only the fields a requester may change are accepted
+export const validateBloodRequestUpdate = [
+  body('patientName')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Patient name must be between 2 and 100 characters'),
+
+  body('urgency')
+    .optional()
+    .isIn(['critical', 'urgent', 'normal'])
+    .withMessage('Urgency must be critical, urgent, or normal'),
+
+  body('hospital')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Hospital name must be between 2 and 200 characters'),
+
+  body('city')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  body('pincode')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('Pincode must be exactly 6 digits'),
+
+  body('unitsNeeded')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Units needed must be between 1 and 10'),
+
+  body('contactPhone')
+    .optional()
+    .matches(/^\+?[\d\s-()]+$/)
+    .withMessage('Please provide a valid contact phone number'),
+
+  body('description')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+// Donation details a donor can still change while a hospital has not verified the donation
+const donationDetailRules = [
+  body('date')
+    .optional()
+    .isISO8601()
+    .withMessage('Donation date must be a valid date')
+    .custom(value => new Date(value) <= new Date())
+    .withMessage('Donation date cannot be in the future'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters')
+];
+
 // Donation record validation
 export const validateDonationRecord = [
-  body('bloodGroup')
-    .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
-    .withMessage('Invalid blood group'),
+  body('hospitalId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid hospital ID format'),
   
+  // The hospital name is taken from the hospital account when hospitalId is given
   body('hospital')
+    .if(body('hospitalId').not().exists())
     .trim()
     .isLength({ min: 2, max: 200 })
     .withMessage('Hospital name must be between 2 and 200 characters'),
@@ -135,11 +272,90 @@ export const validateDonationRecord = [
     .isInt({ min: 1, max: 2 })
     .withMessage('Units contributed must be between 1 and 2'),
   
-  body('notes')
+  body('donationType')
     .optional()
-    .isLength({ max: 500 })
-    .withMessage('Notes cannot exceed 500 characters'),
+    .isIn(['whole_blood', 'double_red_cells', 'platelets', 'plasma'])
+    .withMessage('Invalid donation type'),
+  
+  body('requestId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid request ID format'),
   
+  ...donationDetailRules,
+  
+  handleValidationErrors
+];
+
+// Donation update validation (donors, while the donation is pending)
+export const validateDonationUpdate = [
+  ...donationDetailRules,
+
+  handleValidationErrors
+];
+
+// The type of donation the verifying hospital collected
+const confirmedDonationTypeRule = body('donationType')
+  .isIn(['whole_blood', 'double_red_cells', 'platelets', 'plasma'])
+  .withMessage('Donation type must be whole_blood, double_red_cells, platelets or plasma');
+
+// Donation verification code validation
+export const validateVerificationCode = [
+  body('donationId')
+    .isMongoId()
+    .withMessage('Invalid donation ID format'),
+
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Verification code must be 6 digits'),
+
+  confirmedDonationTypeRule,
+
+  handleValidationErrors
+];
+
+// Donation approval validation (hospitals)
+export const validateDonationCompletion = [
+  confirmedDonationTypeRule,
+
+  handleValidationErrors
+];
+
+// Donation rejection validation
+export const validateDonationRejection = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+// Pledge validation
+export const validatePledge = [
+  body('unitsPledged')
+    .optional()
+    .isInt({ min: 1, max: 2 })
+    .withMessage('Units pledged must be between 1 and 2'),
+
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Message cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+// Pledge response validation
+export const validatePledgeResponse = [
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters'),
+
   handleValidationErrors
 ];
 
@@ -173,6 +389,113 @@ export const validatePagination = [
     .optional()
     .isIn(['asc', 'desc'])
     .withMessage('Order must be asc or desc'),
+
+  query('cursor')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Cursor is too long'),
+
+  query('fields')
+    .optional()
+    .isString()
+    .withMessage('Fields must be a comma-separated list of field names')
+    .bail()
+    .matches(/^\w+(,\w+)*$/)
+    .withMessage('Fields must be a comma-separated list of field names'),
+  
+  handleValidationErrors
+];
+
+// Location query rules shared by donor search endpoints
+const geoQueryRules = [
+  query('lat')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  
+  query('lng')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  
+  query(['lat', 'lng'])
+    .custom((value, { req }) => (req.query!.lat === undefined) === (req.query!.lng === undefined))
+    .withMessage('Latitude and longitude must be provided together'),
+  
+  query('radiusKm')
+    .optional()
+    .isFloat({ min: 1, max: 500 })
+    .withMessage('Radius must be between 1 and 500 km'),
+  
+  query('pincode')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('Pincode must be exactly 6 digits')
+];
+
+// Donor matching validation
+export const validateDonorMatch = [
+  query('bloodGroup')
+    .optional()
+    .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+    .withMessage('Invalid blood group'),
+  
+  query('component')
+    .optional()
+    .isIn(['whole_blood', 'red_cells', 'plasma', 'platelets'])
+    .withMessage('Component must be whole_blood, red_cells, plasma, or platelets'),
+  
+  ...geoQueryRules,
+  
+  handleValidationErrors
+];
+
+// Nearby donors for a blood request validation
+export const validateNearbyDonors = [
+  ...geoQueryRules,
+  
+  query('city')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+  
+  handleValidationErrors
+];
+
+// Notification preferences validation
+export const validateNotificationPreferences = [
+  body(['inApp', 'email', 'sms', 'push'])
+    .optional()
+    .isBoolean()
+    .withMessage('Channel preferences must be true or false'),
+  
+  body('quietHours.enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Quiet hours enabled must be true or false'),
+  
+  body(['quietHours.start', 'quietHours.end'])
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Quiet hours must use HH:mm format'),
+  
+  body('quietHours.timezone')
+    .optional()
+    .custom(value => {
+      Intl.DateTimeFormat('en-GB', { timeZone: value });
+      return true;
+    })
+    .withMessage('Invalid timezone'),
+  
+  handleValidationErrors
+];
+
+// Push token validation
+export const validatePushToken = [
+  body('token')
+    .isString()
+    .isLength({ min: 10, max: 500 })
+    .withMessage('Invalid push token'),
   
   handleValidationErrors
 ];
@@ -193,6 +516,698 @@ export const validateSearch = [
     .optional()
     .matches(/^\d{6}$/)
     .withMessage('Pincode must be exactly 6 digits'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
   
   handleValidationErrors
 ];
+
+// Admin action reason validation (required so the audit log explains every action)
+export const validateAdminReason = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  handleValidationErrors
+];
+
+// Admin suspension validation
+export const validateSuspension = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  body('until')
+    .optional()
+    .isISO8601()
+    .withMessage('Suspension end must be a valid date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Suspension end must be in the future'),
+
+  handleValidationErrors
+];
+
+// Admin blood request edit validation
+export const validateAdminBloodRequestUpdate = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  body('status')
+    .optional()
+    .isIn(['active', 'fulfilled', 'expired', 'cancelled'])
+    .withMessage('Status must be active, fulfilled, expired, or cancelled'),
+
+  body('urgency')
+    .optional()
+    .isIn(['critical', 'urgent', 'normal'])
+    .withMessage('Urgency must be critical, urgent, or normal'),
+
+  body('unitsNeeded')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Units needed must be between 1 and 10'),
+
+  body('description')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+const inventoryGroupRules = [
+  body('bloodGroup')
+    .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+    .withMessage('Invalid blood group'),
+
+  body('component')
+    .isIn(['whole_blood', 'red_cells', 'plasma', 'platelets'])
+    .withMessage('Component must be whole_blood, red_cells, plasma, or platelets')
+];
+
+// Inventory stock-in validation
+export const validateInventoryAdd = [
+  ...inventoryGroupRules,
+
+  body('quantity')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Quantity must be between 1 and 100'),
+
+  body('bagNumbers')
+    .optional()
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Bag numbers must be a list of 1 to 100 entries'),
+
+  body('bagNumbers.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Bag numbers must be between 1 and 50 characters'),
+
+  body('collectedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Collection date must be a valid date'),
+
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Expiry date must be a valid date'),
+
+  handleValidationErrors
+];
+
+// Inventory issue validation
+export const validateInventoryIssue = [
+  ...inventoryGroupRules,
+
+  body('quantity')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Quantity must be between 1 and 100'),
+
+  body('issuedTo')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Issued to must be between 2 and 200 characters'),
+
+  body('requestId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid request ID format'),
+
+  handleValidationErrors
+];
+
+// Inventory transfer validation
+export const validateInventoryTransfer = [
+  ...inventoryGroupRules,
+
+  body('quantity')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Quantity must be between 1 and 100'),
+
+  body('toHospitalId')
+    .isMongoId()
+    .withMessage('Invalid hospital ID format'),
+
+  handleValidationErrors
+];
+
+// Inventory discard validation
+export const validateInventoryDiscard = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  handleValidationErrors
+];
+
+// Inventory par level validation
+export const validateInventoryThreshold = [
+  ...inventoryGroupRules,
+
+  body('minUnits')
+    .isInt({ min: 0, max: 1000 })
+    .withMessage('Minimum units must be between 0 and 1000'),
+
+  body('autoRequest')
+    .optional()
+    .isBoolean()
+    .withMessage('Auto request must be true or false'),
+
+  handleValidationErrors
+];
+
+const campDetailRules = [
+  body('name')
+    .trim()
+    .isLength({ min: 3, max: 150 })
+    .withMessage('Camp name must be between 3 and 150 characters'),
+
+  body('description')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot exceed 1000 characters'),
+
+  body('venue')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Venue must be between 2 and 200 characters'),
+
+  body('address')
+    .trim()
+    .isLength({ min: 5, max: 300 })
+    .withMessage('Address must be between 5 and 300 characters'),
+
+  body('city')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  body('pincode')
+    .matches(/^\d{6}$/)
+    .withMessage('Pincode must be exactly 6 digits'),
+
+  body('date')
+    .isISO8601()
+    .withMessage('Camp date must be a valid date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Camp date must be in the future')
+];
+
+// Donation camp validation
+export const validateCamp = [
+  ...campDetailRules,
+
+  body('slots')
+    .isArray({ min: 1, max: 48 })
+    .withMessage('A camp must have between 1 and 48 slots'),
+
+  body('slots.*.startTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Slot start time must use HH:mm format'),
+
+  body('slots.*.endTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Slot end time must use HH:mm format')
+    .custom((value, { req, path }) => {
+      const index = Number(path.match(/\d+/)![0]);
+      return value > req.body.slots[index].startTime;
+    })
+    .withMessage('Slot end time must be after its start time'),
+
+  body('slots.*.capacity')
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Slot capacity must be between 1 and 500'),
+
+  handleValidationErrors
+];
+
+// Donation camp update validation
+export const validateCampUpdate = [
+  ...campDetailRules.map(rule => rule.optional()),
+
+  handleValidationErrors
+];
+
+// Donation camp search validation
+export const validateCampSearch = [
+  ...geoQueryRules,
+
+  query('city')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  handleValidationErrors
+];
+
+// Camp booking validation
+export const validateCampBooking = [
+  body('slotId')
+    .isMongoId()
+    .withMessage('Invalid slot ID format'),
+
+  handleValidationErrors
+];
+
+const isTimezone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Hospital schedule validation
+export const validateHospitalSchedule = [
+  body('timezone')
+    .optional()
+    .custom(isTimezone)
+    .withMessage('Timezone must be a valid IANA timezone, e.g. Asia/Kolkata'),
+
+  body('slotMinutes')
+    .optional()
+    .isInt({ min: 10, max: 240 })
+    .withMessage('Slot length must be between 10 and 240 minutes'),
+
+  body('donorsPerSlot')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Donors per slot must be between 1 and 50'),
+
+  body('workingHours')
+    .optional()
+    .isArray({ max: 21 })
+    .withMessage('Working hours must be a list of at most 21 entries'),
+
+  body('workingHours.*.dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+
+  body('workingHours.*.openTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Opening time must use HH:mm format'),
+
+  body('workingHours.*.closeTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Closing time must use HH:mm format')
+    .custom((value, { req, path }) => {
+      const index = Number(path.match(/\d+/)![0]);
+      return value > req.body.workingHours[index].openTime;
+    })
+    .withMessage('Closing time must be after opening time'),
+
+  handleValidationErrors
+];
+
+// Blocked date validation
+export const validateBlockedDate = [
+  body('date')
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('Date must use YYYY-MM-DD format')
+    .isISO8601({ strict: true })
+    .withMessage('Date must be a valid date'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+
+  handleValidationErrors
+];
+
+// Appointment availability validation
+export const validateAvailabilityQuery = [
+  query('date')
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('Date must use YYYY-MM-DD format')
+    .isISO8601({ strict: true })
+    .withMessage('Date must be a valid date'),
+
+  handleValidationErrors
+];
+
+// Appointment booking validation
+export const validateAppointment = [
+  body('hospitalId')
+    .isMongoId()
+    .withMessage('Invalid hospital ID format'),
+
+  body('startTime')
+    .isISO8601()
+    .withMessage('Start time must be a valid date and time'),
+
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+// Appointment cancellation validation
+export const validateAppointmentCancel = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+// Screening questionnaire answers validation; each answer is checked against its question by the screening service
+export const validateScreeningResponse = [
+  body('version')
+    .isInt({ min: 1 })
+    .withMessage('Questionnaire version is required')
+    .toInt(),
+
+  body('answers')
+    .isObject()
+    .withMessage('Answers must be an object keyed by question ID'),
+
+  handleValidationErrors
+];
+
+// Deferral validation
+export const validateDeferral = [
+  body('category')
+    .isIn(['illness', 'tattoo', 'travel', 'medication', 'pregnancy', 'haemoglobin', 'infection', 'other'])
+    .withMessage('Invalid deferral category'),
+
+  body('type')
+    .isIn(['temporary', 'permanent'])
+    .withMessage('Deferral type must be temporary or permanent'),
+
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  body('endDate')
+    .if(body('type').equals('temporary'))
+    .isISO8601()
+    .withMessage('Temporary deferrals need a valid end date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('End date must be in the future'),
+
+  handleValidationErrors
+];
+
+// Deferral lift validation
+export const validateDeferralLift = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  handleValidationErrors
+];
+
+const POINTS_FIELDS = [
+  'basePoints',
+  'extraUnitPoints',
+  'requestPoints.critical',
+  'requestPoints.urgent',
+  'requestPoints.normal',
+  'rareBloodGroupPoints',
+  'campPoints',
+  'firstDonationPoints'
+];
+
+// Points rule validation; on update every field is optional
+const pointsRuleRules = (optional: boolean) => [
+  (optional ? body('effectiveFrom').optional() : body('effectiveFrom'))
+    .isISO8601()
+    .withMessage('Effective-from must be a valid date'),
+
+  ...POINTS_FIELDS.map(field =>
+    (optional ? body(field).optional() : body(field))
+      .isInt({ min: 0, max: 1000 })
+      .withMessage(`${field} must be a whole number between 0 and 1000`)
+  ),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters'),
+
+  handleValidationErrors
+];
+
+export const validatePointsRule = pointsRuleRules(false);
+export const validatePointsRuleUpdate = pointsRuleRules(true);
+
+// Points recalculation validation
+export const validatePointsRecalculation = [
+  body('from')
+    .isISO8601()
+    .withMessage('Start must be a valid date'),
+
+  body('to')
+    .isISO8601()
+    .withMessage('End must be a valid date')
+    .custom((value, { req }) => new Date(value) > new Date(req.body.from))
+    .withMessage('End must be after start'),
+
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  handleValidationErrors
+];
+
+// Leaderboard query validation
+export const validateLeaderboardQuery = [
+  query('period')
+    .optional()
+    .isIn(['all_time', 'year', 'quarter', 'month'])
+    .withMessage('Period must be all_time, year, quarter or month'),
+
+  query('date')
+    .optional()
+    .isISO8601()
+    .withMessage('Date must be a valid date'),
+
+  query('city')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  query('bloodGroup')
+    .optional()
+    .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+    .withMessage('Invalid blood group'),
+
+  query('organisationId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid organisation ID'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  handleValidationErrors
+];
+
+// Leaderboard opt-out validation
+export const validateLeaderboardOptOut = [
+  body('optOut')
+    .isBoolean()
+    .withMessage('optOut must be true or false')
+    .toBoolean(),
+
+  handleValidationErrors
+];
+
+// Organisation validation
+export const validateOrganisation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+
+  body('type')
+    .optional()
+    .isIn(['company', 'college', 'ngo', 'community', 'other'])
+    .withMessage('Type must be company, college, ngo, community or other'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot be more than 1000 characters'),
+
+  body('city')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  body('website')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('Website must be a valid URL'),
+
+  handleValidationErrors
+];
+
+// Organisation update validation
+export const validateOrganisationUpdate = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+
+  body('type')
+    .optional()
+    .isIn(['company', 'college', 'ngo', 'community', 'other'])
+    .withMessage('Type must be company, college, ngo, community or other'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot be more than 1000 characters'),
+
+  body('city')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+
+  body('website')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('Website must be a valid URL'),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false')
+    .toBoolean(),
+
+  handleValidationErrors
+];
+
+// Organisation join validation
+export const validateOrganisationJoin = [
+  body('inviteCode')
+    .trim()
+    .toUpperCase()
+    .isLength({ min: 6, max: 20 })
+    .withMessage('Invite code is required'),
+
+  handleValidationErrors
+];
+
+// Organisation member role validation
+export const validateOrganisationRole = [
+  body('role')
+    .isIn(['owner', 'admin', 'member'])
+    .withMessage('Role must be owner, admin or member'),
+
+  handleValidationErrors
+];
+
+// Organisation stats query validation
+export const validateOrganisationStatsQuery = [
+  query('period')
+    .optional()
+    .isIn(['all_time', 'year', 'quarter', 'month'])
+    .withMessage('Period must be all_time, year, quarter or month'),
+
+  query('date')
+    .optional()
+    .isISO8601()
+    .withMessage('Date must be a valid date'),
+
+  handleValidationErrors
+];
+
+// Contact request validation
+export const validateContactRequest = [
+  body('donorId')
+    .isMongoId()
+    .withMessage('Invalid donor ID'),
+
+  body('bloodRequestId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid blood request ID'),
+
+  body('message')
+    .trim()
+    .isLength({ min: 10, max: 500 })
+    .withMessage('Message must be between 10 and 500 characters'),
+
+  handleValidationErrors
+];
+
+// Contact request approval validation
+export const validateContactApproval = [
+  body('shareMode')
+    .isIn(['phone', 'relay'])
+    .withMessage('Share mode must be phone or relay'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot be more than 500 characters'),
+
+  handleValidationErrors
+];
+
+// Contact request decline and revoke validation
+export const validateContactResponse = [
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot be more than 500 characters'),
+
+  handleValidationErrors
+];
+
+// Relayed contact message validation
+export const validateContactMessage = [
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Message must be between 1 and 1000 characters'),
+
+  handleValidationErrors
+];
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAchievement } from '../types';
+
+export interface IAchievementDocument extends Omit<IAchievement, '_id' | 'donorId' | 'donationRecordId'>, Document<mongoose.Types.ObjectId> {
+  donorId: mongoose.Types.ObjectId;
+  donationRecordId?: mongoose.Types.ObjectId;
+}
+
+const AchievementSchema = new Schema<IAchievementDocument>({
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  code: {
+    type: String,
+    enum: [
+      'first_donation',
+      'donations_5',
+      'donations_10',
+      'donations_25',
+      'rare_blood_hero',
+      'critical_responder',
+      'streak_3_years',
+      'streak_5_years',
+      'tier_bronze',
+      'tier_silver',
+      'tier_gold',
+      'tier_platinum'
+    ],
+    required: [true, 'Achievement code is required']
+  },
+  category: {
+    type: String,
+    enum: ['milestone', 'tier', 'streak'],
+    required: [true, 'Achievement category is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required']
+  },
+  // When the donation that earned it was made, not when it was computed
+  earnedAt: {
+    type: Date,
+    required: [true, 'Earned date is required']
+  },
+  donationRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationRecord'
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Each achievement is earned once per donor
+AchievementSchema.index({ donorId: 1, code: 1 }, { unique: true });
+AchievementSchema.index({ donorId: 1, earnedAt: -1 });
+
+export default mongoose.model<IAchievementDocument>('Achievement', AchievementSchema);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAppointment } from '../types';
+
+export interface IAppointmentDocument extends Omit<IAppointment, '_id' | 'hospitalId' | 'donorId' | 'cancelledBy' | 'donationRecordId'>, Document<mongoose.Types.ObjectId> {
+  hospitalId: mongoose.Types.ObjectId;
+  donorId: mongoose.Types.ObjectId;
+  cancelledBy?: mongoose.Types.ObjectId;
+  donationRecordId?: mongoose.Types.ObjectId;
+}
+
+const AppointmentSchema = new Schema<IAppointmentDocument>({
+  hospitalId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Hospital ID is required']
+  },
+  hospitalName: {
+    type: String,
+    required: [true, 'Hospital name is required']
+  },
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  donorName: {
+    type: String,
+    required: [true, 'Donor name is required']
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+    required: [true, 'Blood group is required']
+  },
+  startTime: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  endTime: {
+    type: Date,
+    required: [true, 'End time is required']
+  },
+  // Which of the slot's places this appointment holds; unique while booked
+  slotIndex: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['booked', 'cancelled', 'completed', 'no_show'],
+    default: 'booked'
+  },
+  notes: {
+    type: String,
+    maxlength: [500, 'Notes cannot be more than 500 characters']
+  },
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelReason: {
+    type: String,
+    maxlength: [500, 'Cancel reason cannot be more than 500 characters']
+  },
+  donationRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationRecord'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+AppointmentSchema.index({ donorId: 1, startTime: -1 });
+AppointmentSchema.index({ hospitalId: 1, startTime: 1 });
+// Each place in a slot can only be held by one booked appointment, which stops double booking
+AppointmentSchema.index(
+  { hospitalId: 1, startTime: 1, slotIndex: 1 },
+  { unique: true, partialFilterExpression: { status: 'booked' } }
+);
+
+// A donor holds at most one booked appointment; missed ones are marked no_show before booking again
+AppointmentSchema.index(
+  { donorId: 1 },
+  { unique: true, partialFilterExpression: { status: 'booked' } }
+);
+
+export default mongoose.model<IAppointmentDocument>('Appointment', AppointmentSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAuditLog } from '../types';
+
+export interface IAuditLogDocument extends Omit<IAuditLog, '_id' | 'adminId' | 'targetId'>, Document<mongoose.Types.ObjectId> {
+  adminId: mongoose.Types.ObjectId;
+  targetId: mongoose.Types.ObjectId;
+}
+
+const AuditLogSchema = new Schema<IAuditLogDocument>({
+  adminId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Admin ID is required']
+  },
+  adminName: {
+    type: String,
+    required: [true, 'Admin name is required']
+  },
+  action: {
+    type: String,
+    enum: [
+      'suspend_user',
+      'ban_user',
+      'reinstate_user',
+      'verify_hospital',
+      'unverify_hospital',
+      'update_blood_request',
+      'remove_blood_request',
+      'reverse_donation',
+      'create_points_rule',
+      'update_points_rule',
+      'delete_points_rule',
+      'recalculate_points'
+    ],
+    required: [true, 'Action is required']
+  },
+  targetType: {
+    type: String,
+    enum: ['user', 'blood_request', 'donation', 'points_rule', 'points_recalculation'],
+    required: [true, 'Target type is required']
+  },
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Target ID is required']
+  },
+  reason: {
+    type: String,
+    maxlength: [500, 'Reason cannot be more than 500 characters']
+  },
+  changes: {
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed }
+  },
+  ipAddress: {
+    type: String
+  }
+}, {
+  // Audit entries are append-only, so only the creation time is kept
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better query performance
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ adminId: 1, createdAt: -1 });
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+// Reject edits and deletes so the log stays a complete record of admin actions
+const rejectChange = function(next: (err?: Error) => void) {
+  next(new Error('Audit log entries cannot be modified'));
+};
+AuditLogSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectChange);
+AuditLogSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+
+export default mongoose.model<IAuditLogDocument>('AuditLog', AuditLogSchema);
@@ -1,9 +1,31 @@
 import mongoose, { Document, Schema } from 'mongoose';
-import { IBloodRequest, BloodGroup, UrgencyLevel, RequestStatus } from '../types';
+import { getCompatibleDonorGroups, DEFAULT_BLOOD_COMPONENT } from '../services/bloodCompatibility';
+import { resolvePincode, toGeoPoint, fromGeoPoint } from '../services/geoService';
+import { textPattern } from '../services/searchService';
+import { IBloodRequest, BloodGroup, UrgencyLevel, RequestStatus, RequestHistoryAction } from '../types';
+
+// How long a request stays open, by urgency
+export const REQUEST_LIFETIME_HOURS: Record<UrgencyLevel, number> = {
+  critical: 24,
+  urgent: 72,
+  normal: 7 * 24
+};
+
+// Severity of each urgency level; lists sort on this, as the level names do not sort by severity
+export const URGENCY_RANK: Record<UrgencyLevel, number> = {
+  normal: 1,
+  urgent: 2,
+  critical: 3
+};
+
+export const getExpiryDate = (urgency: UrgencyLevel, from: Date = new Date()): Date => {
+  return new Date(from.getTime() + REQUEST_LIFETIME_HOURS[urgency] * 60 * 60 * 1000);
+};
 
 export interface IBloodRequestDocument extends IBloodRequest, Document {
   isExpired(): boolean;
   canBeFulfilled(): boolean;
+  addHistory(action: RequestHistoryAction, actor?: { _id: any; name: string }, note?: string): void;
   toJSON(): any;
 }
 
@@ -19,12 +41,23 @@ const BloodRequestSchema = new Schema<IBloodRequestDocument>({
     enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
     required: [true, 'Blood group is required']
   },
+  component: {
+    type: String,
+    enum: ['whole_blood', 'red_cells', 'plasma', 'platelets'],
+    default: DEFAULT_BLOOD_COMPONENT
+  },
   urgency: {
     type: String,
     enum: ['critical', 'urgent', 'normal'],
     required: [true, 'Urgency level is required'],
     default: 'normal'
   },
+  // Kept in step with urgency by the hooks below
+  urgencyRank: {
+    type: Number,
+    min: 1,
+    max: 3
+  },
   hospital: {
     type: String,
     required: [true, 'Hospital name is required'],
@@ -41,6 +74,16 @@ const BloodRequestSchema = new Schema<IBloodRequestDocument>({
     required: [true, 'Pincode is required'],
     match: [/^\d{6}$/, 'Please provide a valid 6-digit pincode']
   },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point']
+    },
+    coordinates: {
+      type: [Number],
+      default: undefined
+    }
+  },
   unitsNeeded: {
     type: Number,
     required: [true, 'Units needed is required'],
@@ -75,20 +118,57 @@ const BloodRequestSchema = new Schema<IBloodRequestDocument>({
     type: Schema.Types.ObjectId,
     ref: 'User'
   }],
+  unitsFulfilled: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  history: [{
+    _id: false,
+    action: {
+      type: String,
+      enum: [
+        'created', 'updated', 'extended', 'pledged', 'pledge_accepted', 'pledge_declined',
+        'pledge_withdrawn', 'donation_completed', 'donation_cancelled', 'donation_reversed',
+        'fulfilled', 'expired', 'cancelled'
+      ],
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['active', 'fulfilled', 'expired', 'cancelled'],
+      required: true
+    },
+    by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    byName: {
+      type: String
+    },
+    note: {
+      type: String,
+      maxlength: [500, 'Note cannot be more than 500 characters']
+    },
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   expiresAt: {
     type: Date,
     default: function(this: IBloodRequestDocument) {
       // Set expiration based on urgency
-      const now = new Date();
-      switch (this.urgency) {
-        case 'critical':
-          return new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
-        case 'urgent':
-          return new Date(now.getTime() + 72 * 60 * 60 * 1000); // 72 hours
-        default:
-          return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-      }
+      return getExpiryDate(this.urgency || 'normal');
     }
+  },
+  extensionCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  expiryWarningSentAt: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -96,12 +176,26 @@ const BloodRequestSchema = new Schema<IBloodRequestDocument>({
   toObject: { virtuals: true }
 });
 
+// Fields matched by the request search, and how much a match in each counts
+export const BLOOD_REQUEST_SEARCH_WEIGHTS: Record<string, number> = {
+  hospital: 10,
+  patientName: 8,
+  city: 5,
+  description: 2
+};
+
 // Indexes for better query performance
 BloodRequestSchema.index({ status: 1, urgency: 1 });
+BloodRequestSchema.index({ status: 1, urgencyRank: -1, createdAt: 1 });
 BloodRequestSchema.index({ bloodGroup: 1, city: 1 });
 BloodRequestSchema.index({ createdAt: -1 });
 BloodRequestSchema.index({ expiresAt: 1 });
 BloodRequestSchema.index({ requesterId: 1 });
+BloodRequestSchema.index({ location: '2dsphere' });
+BloodRequestSchema.index(
+  Object.fromEntries(Object.keys(BLOOD_REQUEST_SEARCH_WEIGHTS).map(field => [field, 'text'])),
+  { weights: BLOOD_REQUEST_SEARCH_WEIGHTS, name: 'search_text' }
+);
 
 // Virtual for time remaining
 BloodRequestSchema.virtual('timeRemaining').get(function(this: IBloodRequestDocument) {
@@ -121,6 +215,11 @@ BloodRequestSchema.virtual('urgencyScore').get(function(this: IBloodRequestDocum
   return scores[this.urgency] || 0;
 });
 
+// Virtual for the donor blood groups that can fulfil this request, best matches first
+BloodRequestSchema.virtual('compatibleDonorGroups').get(function(this: IBloodRequestDocument) {
+  return getCompatibleDonorGroups(this.bloodGroup, this.component || DEFAULT_BLOOD_COMPONENT);
+});
+
 // Instance methods
 BloodRequestSchema.methods.isExpired = function(this: IBloodRequestDocument) {
   return this.expiresAt && this.expiresAt < new Date();
@@ -130,10 +229,67 @@ BloodRequestSchema.methods.canBeFulfilled = function(this: IBloodRequestDocument
   return this.status === 'active' && !this.isExpired();
 };
 
+// Record who did what, alongside the status the request ended up in
+BloodRequestSchema.methods.addHistory = function(
+  this: IBloodRequestDocument,
+  action: RequestHistoryAction,
+  actor?: { _id: any; name: string },
+  note?: string
+) {
+  this.history = this.history || [];
+  this.history.push({
+    action,
+    status: this.status,
+    by: actor?._id,
+    byName: actor?.name,
+    note,
+    at: new Date()
+  });
+};
+
 // Pre-save middleware to update status if expired
 BloodRequestSchema.pre('save', function(this: IBloodRequestDocument, next) {
   if (this.isExpired() && this.status === 'active') {
     this.status = 'expired';
+    this.addHistory('expired');
+  }
+  next();
+});
+
+// Pre-save middleware to keep the urgency rank in step with the urgency
+BloodRequestSchema.pre('save', function(this: IBloodRequestDocument, next) {
+  if (this.isModified('urgency') || this.urgencyRank === undefined) {
+    this.urgencyRank = URGENCY_RANK[this.urgency];
+  }
+  next();
+});
+
+// Pre-save middleware to place the request on the map from its pincode
+BloodRequestSchema.pre('save', function(this: IBloodRequestDocument, next) {
+  if ((this.isModified('pincode') || !fromGeoPoint(this.location)) && !this.isModified('location')) {
+    const coordinates = resolvePincode(this.pincode);
+    if (coordinates) {
+      this.location = toGeoPoint(coordinates);
+    }
+  }
+  next();
+});
+
+// Keep location and urgency rank in step with pincode and urgency changes made through update queries
+BloodRequestSchema.pre('findOneAndUpdate', function(next) {
+  const update: any = this.getUpdate();
+  const pincode = update?.pincode ?? update?.$set?.pincode;
+
+  if (pincode && !update.location && !update.$set?.location) {
+    const coordinates = resolvePincode(pincode);
+    if (coordinates) {
+      this.set('location', toGeoPoint(coordinates));
+    }
+  }
+
+  const urgency: UrgencyLevel | undefined = update?.urgency ?? update?.$set?.urgency;
+  if (urgency && URGENCY_RANK[urgency]) {
+    this.set('urgencyRank', URGENCY_RANK[urgency]);
   }
   next();
 });
@@ -154,7 +310,7 @@ BloodRequestSchema.statics.findActiveRequests = function(
     query.bloodGroup = bloodGroup;
   }
   if (city) {
-    query.city = new RegExp(city, 'i');
+    query.city = textPattern(city);
   }
   if (pincode) {
     query.pincode = pincode;
@@ -165,7 +321,7 @@ BloodRequestSchema.statics.findActiveRequests = function(
 
   return this.find(query)
     .populate('requesterId', 'name email phone')
-    .sort({ urgency: -1, createdAt: 1 });
+    .sort({ urgencyRank: -1, createdAt: 1 });
 };
 
 // Static method to get request statistics
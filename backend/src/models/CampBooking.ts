@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ICampBooking } from '../types';
+
+export interface ICampBookingDocument extends Omit<ICampBooking, '_id' | 'campId' | 'slotId' | 'donorId' | 'donationRecordId'>, Document<mongoose.Types.ObjectId> {
+  campId: mongoose.Types.ObjectId;
+  slotId: mongoose.Types.ObjectId;
+  donorId: mongoose.Types.ObjectId;
+  donationRecordId?: mongoose.Types.ObjectId;
+}
+
+const CampBookingSchema = new Schema<ICampBookingDocument>({
+  campId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationCamp',
+    required: [true, 'Camp ID is required']
+  },
+  slotId: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Slot ID is required']
+  },
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  donorName: {
+    type: String,
+    required: [true, 'Donor name is required']
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+    required: [true, 'Blood group is required']
+  },
+  status: {
+    type: String,
+    enum: ['booked', 'waitlisted', 'cancelled', 'checked_in', 'no_show'],
+    default: 'booked'
+  },
+  checkedInAt: {
+    type: Date
+  },
+  donationRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationRecord'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+CampBookingSchema.index({ campId: 1, donorId: 1 });
+// A donor holds at most one booking or waitlist place per camp, even when booking twice at once
+CampBookingSchema.index(
+  { donorId: 1, campId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ['booked', 'waitlisted'] } } }
+);
+// The waitlist of a slot is served oldest first
+CampBookingSchema.index({ campId: 1, slotId: 1, status: 1, createdAt: 1 });
+CampBookingSchema.index({ donorId: 1, createdAt: -1 });
+
+export default mongoose.model<ICampBookingDocument>('CampBooking', CampBookingSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IContactDisclosure } from '../types';
+
+export interface IContactDisclosureDocument extends Omit<IContactDisclosure, '_id' | 'userId' | 'viewerId' | 'contactRequestId'>, Document<mongoose.Types.ObjectId> {
+  userId: mongoose.Types.ObjectId;
+  viewerId: mongoose.Types.ObjectId;
+  contactRequestId?: mongoose.Types.ObjectId;
+}
+
+// Append-only: users can see every time their contact details were shown to someone
+const ContactDisclosureSchema = new Schema<IContactDisclosureDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  viewerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Viewer ID is required']
+  },
+  viewerName: {
+    type: String,
+    required: [true, 'Viewer name is required']
+  },
+  reason: {
+    type: String,
+    enum: ['contact_request', 'admin'],
+    required: [true, 'Reason is required']
+  },
+  contactRequestId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ContactRequest'
+  },
+  fields: [{
+    type: String
+  }],
+  ipAddress: {
+    type: String
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better query performance
+ContactDisclosureSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<IContactDisclosureDocument>('ContactDisclosure', ContactDisclosureSchema);
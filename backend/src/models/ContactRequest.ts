@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IContactRequest, IContactMessage } from '../types';
+
+export interface IContactMessageDocument extends Omit<IContactMessage, 'senderId'> {
+  senderId: mongoose.Types.ObjectId;
+}
+
+export interface IContactRequestDocument extends Omit<IContactRequest, '_id' | 'requesterId' | 'donorId' | 'bloodRequestId' | 'messages'>, Document<mongoose.Types.ObjectId> {
+  requesterId: mongoose.Types.ObjectId;
+  donorId: mongoose.Types.ObjectId;
+  bloodRequestId?: mongoose.Types.ObjectId;
+  messages: mongoose.Types.DocumentArray<IContactMessageDocument>;
+  isParty(userId: any): boolean;
+  isOpen(): boolean;
+}
+
+const ContactMessageSchema = new Schema<IContactMessageDocument>({
+  senderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Sender is required']
+  },
+  body: {
+    type: String,
+    required: [true, 'Message is required'],
+    maxlength: [1000, 'Message cannot be more than 1000 characters']
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const ContactRequestSchema = new Schema<IContactRequestDocument>({
+  requesterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Requester ID is required']
+  },
+  requesterName: {
+    type: String,
+    required: [true, 'Requester name is required'],
+    trim: true
+  },
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  bloodRequestId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BloodRequest'
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    maxlength: [500, 'Message cannot be more than 500 characters']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'declined', 'cancelled', 'revoked', 'expired'],
+    default: 'pending'
+  },
+  // Chosen by the donor when approving
+  shareMode: {
+    type: String,
+    enum: ['phone', 'relay']
+  },
+  responseNote: {
+    type: String,
+    maxlength: [500, 'Response note cannot be more than 500 characters']
+  },
+  respondedAt: {
+    type: Date
+  },
+  // Pending requests the donor has not answered by then lapse
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  // Relayed between requester and donor without either seeing the other's contact details
+  messages: [ContactMessageSchema]
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+ContactRequestSchema.index({ donorId: 1, createdAt: -1 });
+ContactRequestSchema.index({ requesterId: 1, createdAt: -1 });
+ContactRequestSchema.index({ requesterId: 1, donorId: 1, status: 1 });
+
+// Instance methods
+ContactRequestSchema.methods.isParty = function(this: IContactRequestDocument, userId: any) {
+  return this.requesterId.toString() === userId.toString() || this.donorId.toString() === userId.toString();
+};
+
+ContactRequestSchema.methods.isOpen = function(this: IContactRequestDocument) {
+  return this.status === 'approved' || (this.status === 'pending' && this.expiresAt > new Date());
+};
+
+export default mongoose.model<IContactRequestDocument>('ContactRequest', ContactRequestSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+import { IDataExport } from '../types';
+
+export interface IDataExportDocument extends Omit<IDataExport, '_id' | 'userId' | 'fileId'>, Document<mongoose.Types.ObjectId> {
+  userId: mongoose.Types.ObjectId;
+  fileId?: mongoose.Types.ObjectId;
+  createDownloadToken(): string;
+}
+
+const DataExportSchema = new Schema<IDataExportDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'ready', 'failed', 'expired'],
+    default: 'pending'
+  },
+  // GridFS file holding the zip
+  fileId: {
+    type: Schema.Types.ObjectId
+  },
+  fileName: {
+    type: String
+  },
+  size: {
+    type: Number
+  },
+  records: {
+    type: Number
+  },
+  // Hash of the token in the download link
+  downloadToken: {
+    type: String,
+    select: false
+  },
+  expiresAt: {
+    type: Date
+  },
+  error: {
+    type: String
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better query performance
+DataExportSchema.index({ status: 1, createdAt: 1 });
+DataExportSchema.index({ userId: 1, createdAt: -1 });
+DataExportSchema.index({ downloadToken: 1 });
+
+// Instance method to create the token for the download link; only its hash is stored
+DataExportSchema.methods.createDownloadToken = function(this: IDataExportDocument): string {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  this.downloadToken = crypto.createHash('sha256').update(token).digest('hex');
+
+  return token;
+};
+
+export default mongoose.model<IDataExportDocument>('DataExport', DataExportSchema);
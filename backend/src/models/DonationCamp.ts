@@ -0,0 +1,173 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IDonationCamp, ICampSlot } from '../types';
+import { resolvePincode, toGeoPoint, fromGeoPoint } from '../services/geoService';
+
+export interface ICampSlotDocument extends Omit<ICampSlot, '_id'> {
+  _id: mongoose.Types.ObjectId;
+}
+
+export interface IDonationCampDocument extends Omit<IDonationCamp, '_id' | 'organizerId' | 'slots'>, Document<mongoose.Types.ObjectId> {
+  organizerId: mongoose.Types.ObjectId;
+  slots: mongoose.Types.DocumentArray<ICampSlotDocument>;
+  isOpenForBooking(): boolean;
+}
+
+const timeFormat: [RegExp, string] = [/^([01]\d|2[0-3]):[0-5]\d$/, 'Slot times must use HH:mm format'];
+
+const CampSlotSchema = new Schema<ICampSlotDocument>({
+  startTime: {
+    type: String,
+    required: [true, 'Slot start time is required'],
+    match: timeFormat
+  },
+  endTime: {
+    type: String,
+    required: [true, 'Slot end time is required'],
+    match: timeFormat
+  },
+  capacity: {
+    type: Number,
+    required: [true, 'Slot capacity is required'],
+    min: [1, 'Slot capacity must be at least 1'],
+    max: [500, 'Slot capacity cannot be more than 500']
+  },
+  // Free places, decremented atomically on booking so a slot is never overbooked
+  remaining: {
+    type: Number,
+    min: 0
+  }
+});
+
+const DonationCampSchema = new Schema<IDonationCampDocument>({
+  name: {
+    type: String,
+    required: [true, 'Camp name is required'],
+    trim: true,
+    maxlength: [150, 'Camp name cannot be more than 150 characters']
+  },
+  description: {
+    type: String,
+    maxlength: [1000, 'Description cannot be more than 1000 characters']
+  },
+  organizerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Organizer ID is required']
+  },
+  organizerName: {
+    type: String,
+    required: [true, 'Organizer name is required']
+  },
+  venue: {
+    type: String,
+    required: [true, 'Venue is required'],
+    trim: true,
+    maxlength: [200, 'Venue cannot be more than 200 characters']
+  },
+  address: {
+    type: String,
+    required: [true, 'Address is required'],
+    trim: true,
+    maxlength: [300, 'Address cannot be more than 300 characters']
+  },
+  city: {
+    type: String,
+    required: [true, 'City is required'],
+    trim: true
+  },
+  pincode: {
+    type: String,
+    required: [true, 'Pincode is required'],
+    match: [/^\d{6}$/, 'Please provide a valid 6-digit pincode']
+  },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point']
+    },
+    coordinates: {
+      type: [Number],
+      default: undefined
+    }
+  },
+  date: {
+    type: Date,
+    required: [true, 'Camp date is required']
+  },
+  slots: {
+    type: [CampSlotSchema],
+    validate: {
+      validator: (slots: ICampSlotDocument[]) => slots.length > 0 && slots.length <= 48,
+      message: 'A camp must have between 1 and 48 slots'
+    }
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'cancelled', 'completed'],
+    default: 'scheduled'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+DonationCampSchema.index({ status: 1, date: 1 });
+DonationCampSchema.index({ city: 1, date: 1 });
+DonationCampSchema.index({ organizerId: 1, date: -1 });
+DonationCampSchema.index({ location: '2dsphere' });
+
+// Virtual for total capacity across slots
+DonationCampSchema.virtual('totalCapacity').get(function(this: IDonationCampDocument) {
+  return (this.slots || []).reduce((total, slot) => total + slot.capacity, 0);
+});
+
+// Virtual for free places across slots
+DonationCampSchema.virtual('totalRemaining').get(function(this: IDonationCampDocument) {
+  return (this.slots || []).reduce((total, slot) => total + slot.remaining, 0);
+});
+
+// Instance method to check if donors can still book
+DonationCampSchema.methods.isOpenForBooking = function(this: IDonationCampDocument): boolean {
+  const endOfCampDay = new Date(this.date);
+  endOfCampDay.setHours(23, 59, 59, 999);
+  return this.status === 'scheduled' && endOfCampDay > new Date();
+};
+
+// Pre-save middleware to start every new slot with all places free
+DonationCampSchema.pre('save', function(this: IDonationCampDocument, next) {
+  this.slots.forEach(slot => {
+    if (slot.remaining === undefined || slot.remaining === null) {
+      slot.remaining = slot.capacity;
+    }
+  });
+  next();
+});
+
+// Pre-save middleware to place the camp on the map from its pincode
+DonationCampSchema.pre('save', function(this: IDonationCampDocument, next) {
+  if ((this.isModified('pincode') || !fromGeoPoint(this.location)) && !this.isModified('location')) {
+    const coordinates = resolvePincode(this.pincode);
+    if (coordinates) {
+      this.location = toGeoPoint(coordinates);
+    }
+  }
+  next();
+});
+
+// Keep location in step with pincode changes made through update queries
+DonationCampSchema.pre('findOneAndUpdate', function(next) {
+  const update: any = this.getUpdate();
+  const pincode = update?.pincode ?? update?.$set?.pincode;
+
+  if (pincode && !update.location && !update.$set?.location) {
+    const coordinates = resolvePincode(pincode);
+    if (coordinates) {
+      this.set('location', toGeoPoint(coordinates));
+    }
+  }
+  next();
+});
+
+export default mongoose.model<IDonationCampDocument>('DonationCamp', DonationCampSchema);
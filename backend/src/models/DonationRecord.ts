@@ -1,8 +1,22 @@
 import mongoose, { Document, Schema } from 'mongoose';
-import { IDonationRecord, BloodGroup, DonationStatus } from '../types';
+import crypto from 'crypto';
+import { config } from '../config/config';
+import { getDonationInterval } from '../services/eligibilityPolicy';
+import { RARE_BLOOD_GROUPS } from '../services/bloodCompatibility';
+import { IDonationRecord, IPointsRule, BloodGroup, DonationStatus, UrgencyLevel } from '../types';
 
-export interface IDonationRecordDocument extends IDonationRecord, Document {
-  calculatePoints(): number;
+// What a donation's score depends on besides the record itself
+export interface PointsContext {
+  requestUrgency?: UrgencyLevel;
+  firstDonation: boolean;
+}
+
+export type PointsRuleValues = Omit<IPointsRule, '_id' | 'effectiveFrom' | 'note' | 'createdBy' | 'updatedBy' | 'createdAt' | 'updatedAt'>;
+
+export interface IDonationRecordDocument extends Omit<IDonationRecord, '_id'>, Document<mongoose.Types.ObjectId> {
+  calculatePoints(rule: PointsRuleValues, context: PointsContext): number;
+  createVerificationCode(): string;
+  checkVerificationCode(code: string): boolean;
   toJSON(): any;
 }
 
@@ -22,6 +36,11 @@ const DonationRecordSchema = new Schema<IDonationRecordDocument>({
     enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
     required: [true, 'Blood group is required']
   },
+  donationType: {
+    type: String,
+    enum: ['whole_blood', 'double_red_cells', 'platelets', 'plasma'],
+    default: 'whole_blood'
+  },
   requestId: {
     type: Schema.Types.ObjectId,
     ref: 'BloodRequest',
@@ -49,16 +68,72 @@ const DonationRecordSchema = new Schema<IDonationRecordDocument>({
     min: [1, 'At least 1 unit must be contributed'],
     max: [2, 'Maximum 2 units can be contributed at once']
   },
+  // Scored when the donation is verified, by the points rule in effect on its date
   points: {
     type: Number,
     default: 0,
     min: 0
   },
+  pointsRuleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PointsRule'
+  },
   status: {
     type: String,
-    enum: ['pending', 'completed', 'cancelled'],
+    enum: ['pending', 'completed', 'cancelled', 'reversed'],
     default: 'pending'
   },
+  pledgeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Pledge'
+  },
+  campId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationCamp'
+  },
+  hospitalId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  verificationCode: {
+    type: String,
+    select: false
+  },
+  verificationCodeExpires: {
+    type: Date,
+    select: false
+  },
+  verificationAttempts: {
+    type: Number,
+    default: 0,
+    select: false
+  },
+  verifiedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  verifiedAt: {
+    type: Date
+  },
+  verificationMethod: {
+    type: String,
+    enum: ['code', 'approval']
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: [500, 'Rejection reason cannot be more than 500 characters']
+  },
+  reversedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reversedAt: {
+    type: Date
+  },
+  reversalReason: {
+    type: String,
+    maxlength: [500, 'Reversal reason cannot be more than 500 characters']
+  },
   notes: {
     type: String,
     maxlength: [500, 'Notes cannot be more than 500 characters']
@@ -75,6 +150,7 @@ DonationRecordSchema.index({ requestId: 1 });
 DonationRecordSchema.index({ status: 1 });
 DonationRecordSchema.index({ date: -1 });
 DonationRecordSchema.index({ bloodGroup: 1 });
+DonationRecordSchema.index({ hospitalId: 1, status: 1 });
 
 // Virtual for time since donation
 DonationRecordSchema.virtual('daysSinceDonation').get(function(this: IDonationRecordDocument) {
@@ -85,47 +161,72 @@ DonationRecordSchema.virtual('daysSinceDonation').get(function(this: IDonationRe
 
 // Virtual for eligibility status
 DonationRecordSchema.virtual('isEligibleForNextDonation').get(function(this: IDonationRecordDocument) {
-  return this.daysSinceDonation >= 90; // 90 days gap required
+  // The donor's sex is not stored here, so the stricter interval applies
+  return this.daysSinceDonation >= getDonationInterval(this.donationType);
 });
 
 // Instance methods
-DonationRecordSchema.methods.calculatePoints = function(this: IDonationRecordDocument) {
-  let basePoints = 50; // Base points per donation
-  
-  // Bonus points for urgent requests
-  if (this.requestId) {
-    basePoints += 25; // Bonus for responding to a request
+DonationRecordSchema.methods.calculatePoints = function(
+  this: IDonationRecordDocument,
+  rule: PointsRuleValues,
+  context: PointsContext
+): number {
+  let points = rule.basePoints;
+
+  // Bonus for answering a request, more the more urgent it is
+  if (context.requestUrgency) {
+    points += rule.requestPoints[context.requestUrgency];
   }
-  
+
   // Bonus points for multiple units
   if (this.unitsContributed > 1) {
-    basePoints += (this.unitsContributed - 1) * 25;
+    points += (this.unitsContributed - 1) * rule.extraUnitPoints;
   }
-  
-  return basePoints;
-};
 
-// Pre-save middleware to calculate points
-DonationRecordSchema.pre('save', function(this: IDonationRecordDocument, next) {
-  if (this.isModified('unitsContributed') || this.isNew) {
-    this.points = this.calculatePoints();
+  if (RARE_BLOOD_GROUPS.includes(this.bloodGroup)) {
+    points += rule.rareBloodGroupPoints;
   }
-  next();
-});
 
-// Post-save middleware to update donor's donation count
-DonationRecordSchema.post('save', async function(this: IDonationRecordDocument) {
-  if (this.status === 'completed') {
-    const User = mongoose.model('User');
-    await User.findByIdAndUpdate(
-      this.donorId,
-      {
-        $inc: { donationCount: 1 },
-        $set: { lastDonation: this.date }
-      }
-    );
+  if (this.campId) {
+    points += rule.campPoints;
   }
-});
+
+  if (context.firstDonation) {
+    points += rule.firstDonationPoints;
+  }
+
+  return points;
+};
+
+// Instance method to issue a one-time code the donor shows at the hospital
+DonationRecordSchema.methods.createVerificationCode = function(this: IDonationRecordDocument): string {
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  this.verificationCode = crypto.createHash('sha256').update(code).digest('hex');
+  this.verificationCodeExpires = new Date(Date.now() + config.donationCodeExpireMinutes * 60 * 1000);
+  this.verificationAttempts = 0;
+
+  return code;
+};
+
+// Instance method to check a verification code (requires the code fields to be selected)
+DonationRecordSchema.methods.checkVerificationCode = function(this: IDonationRecordDocument, code: string): boolean {
+  if (!this.verificationCode || !this.verificationCodeExpires || this.verificationCodeExpires < new Date()) {
+    return false;
+  }
+
+  const hashed = crypto.createHash('sha256').update(code).digest('hex');
+  return crypto.timingSafeEqual(Buffer.from(hashed), Buffer.from(this.verificationCode));
+};
+
+// Instance method to remove verification secrets from JSON output
+DonationRecordSchema.methods.toJSON = function() {
+  const donationObject = this.toObject();
+  delete donationObject.verificationCode;
+  delete donationObject.verificationCodeExpires;
+  delete donationObject.verificationAttempts;
+  return donationObject;
+};
 
 // Static method to get donation statistics
 DonationRecordSchema.statics.getStatistics = function() {
@@ -135,7 +236,9 @@ DonationRecordSchema.statics.getStatistics = function() {
         _id: null,
         totalDonations: { $sum: 1 },
         totalUnits: { $sum: '$unitsContributed' },
-        totalPoints: { $sum: '$points' },
+        totalPoints: {
+          $sum: { $cond: [{ $eq: ['$status', 'completed'] }, '$points', 0] }
+        },
         completedDonations: {
           $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] }
         },
@@ -150,32 +253,6 @@ DonationRecordSchema.statics.getStatistics = function() {
   ]);
 };
 
-// Static method to get top donors
-DonationRecordSchema.statics.getTopDonors = function(limit: number = 10) {
-  return this.aggregate([
-    {
-      $match: { status: 'completed' }
-    },
-    {
-      $group: {
-        _id: '$donorId',
-        donorName: { $first: '$donorName' },
-        bloodGroup: { $first: '$bloodGroup' },
-        totalDonations: { $sum: 1 },
-        totalUnits: { $sum: '$unitsContributed' },
-        totalPoints: { $sum: '$points' },
-        lastDonation: { $max: '$date' }
-      }
-    },
-    {
-      $sort: { totalPoints: -1, totalDonations: -1 }
-    },
-    {
-      $limit: limit
-    }
-  ]);
-};
-
 // Static method to get donations by blood group
 DonationRecordSchema.statics.getDonationsByBloodGroup = function() {
   return this.aggregate([
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IHospitalSchedule } from '../types';
+
+export interface IHospitalScheduleDocument extends Omit<IHospitalSchedule, '_id' | 'hospitalId'>, Document<mongoose.Types.ObjectId> {
+  hospitalId: mongoose.Types.ObjectId;
+  isBlocked(date: string): boolean;
+}
+
+const timeFormat: [RegExp, string] = [/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must use HH:mm format'];
+
+const HospitalScheduleSchema = new Schema<IHospitalScheduleDocument>({
+  hospitalId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Hospital ID is required'],
+    unique: true
+  },
+  timezone: {
+    type: String,
+    default: 'Asia/Kolkata'
+  },
+  slotMinutes: {
+    type: Number,
+    default: 30,
+    min: [10, 'Slots must be at least 10 minutes'],
+    max: [240, 'Slots cannot be longer than 240 minutes']
+  },
+  donorsPerSlot: {
+    type: Number,
+    default: 1,
+    min: [1, 'At least one donor per slot is required'],
+    max: [50, 'Donors per slot cannot be more than 50']
+  },
+  workingHours: [{
+    _id: false,
+    dayOfWeek: {
+      type: Number,
+      required: [true, 'Day of week is required'],
+      min: 0,
+      max: 6
+    },
+    openTime: {
+      type: String,
+      required: [true, 'Opening time is required'],
+      match: timeFormat
+    },
+    closeTime: {
+      type: String,
+      required: [true, 'Closing time is required'],
+      match: timeFormat
+    }
+  }],
+  blockedDates: [{
+    _id: false,
+    date: {
+      type: String,
+      required: [true, 'Blocked date is required'],
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Blocked dates must use YYYY-MM-DD format']
+    },
+    reason: {
+      type: String,
+      maxlength: [200, 'Reason cannot be more than 200 characters']
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Instance method to check if the hospital takes no appointments on a local date
+HospitalScheduleSchema.methods.isBlocked = function(this: IHospitalScheduleDocument, date: string): boolean {
+  return this.blockedDates.some(blocked => blocked.date === date);
+};
+
+export default mongoose.model<IHospitalScheduleDocument>('HospitalSchedule', HospitalScheduleSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IInventoryThreshold } from '../types';
+
+export interface IInventoryThresholdDocument extends Omit<IInventoryThreshold, '_id' | 'hospitalId' | 'lastRequestId'>, Document<mongoose.Types.ObjectId> {
+  hospitalId: mongoose.Types.ObjectId;
+  lastRequestId?: mongoose.Types.ObjectId;
+}
+
+const InventoryThresholdSchema = new Schema<IInventoryThresholdDocument>({
+  hospitalId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Hospital ID is required']
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+    required: [true, 'Blood group is required']
+  },
+  component: {
+    type: String,
+    enum: ['whole_blood', 'red_cells', 'plasma', 'platelets'],
+    required: [true, 'Component is required']
+  },
+  minUnits: {
+    type: Number,
+    required: [true, 'Minimum units is required'],
+    min: [0, 'Minimum units cannot be negative'],
+    max: [1000, 'Minimum units cannot be more than 1000']
+  },
+  autoRequest: {
+    type: Boolean,
+    default: true
+  },
+  lastRequestId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BloodRequest'
+  }
+}, {
+  timestamps: true
+});
+
+// One par level per hospital, blood group and component
+InventoryThresholdSchema.index({ hospitalId: 1, bloodGroup: 1, component: 1 }, { unique: true });
+
+export default mongoose.model<IInventoryThresholdDocument>('InventoryThreshold', InventoryThresholdSchema);
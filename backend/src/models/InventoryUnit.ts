@@ -0,0 +1,110 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IInventoryUnit } from '../types';
+
+export interface IInventoryUnitDocument extends Omit<
+  IInventoryUnit,
+  '_id' | 'hospitalId' | 'donationRecordId' | 'transferredFrom' | 'transferredTo' | 'requestId' | 'statusChangedBy'
+>, Document<mongoose.Types.ObjectId> {
+  hospitalId: mongoose.Types.ObjectId;
+  donationRecordId?: mongoose.Types.ObjectId;
+  transferredFrom?: mongoose.Types.ObjectId;
+  transferredTo?: mongoose.Types.ObjectId;
+  requestId?: mongoose.Types.ObjectId;
+  statusChangedBy?: mongoose.Types.ObjectId;
+  isUsable(): boolean;
+}
+
+const InventoryUnitSchema = new Schema<IInventoryUnitDocument>({
+  hospitalId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Hospital ID is required']
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+    required: [true, 'Blood group is required']
+  },
+  component: {
+    type: String,
+    enum: ['whole_blood', 'red_cells', 'plasma', 'platelets'],
+    required: [true, 'Component is required']
+  },
+  bagNumber: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Bag number cannot be more than 50 characters']
+  },
+  collectedAt: {
+    type: Date,
+    required: [true, 'Collection date is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  status: {
+    type: String,
+    enum: ['available', 'issued', 'transferred', 'discarded', 'expired'],
+    default: 'available'
+  },
+  source: {
+    type: String,
+    enum: ['donation', 'manual', 'transfer'],
+    default: 'manual'
+  },
+  donationRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationRecord'
+  },
+  transferredFrom: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  transferredTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  issuedTo: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Issued to cannot be more than 200 characters']
+  },
+  requestId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BloodRequest'
+  },
+  discardReason: {
+    type: String,
+    maxlength: [500, 'Discard reason cannot be more than 500 characters']
+  },
+  statusChangedAt: {
+    type: Date
+  },
+  statusChangedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+// Matches first-expiring-first-out lookups of a hospital's usable stock
+InventoryUnitSchema.index({ hospitalId: 1, status: 1, bloodGroup: 1, component: 1, expiresAt: 1 });
+InventoryUnitSchema.index({ status: 1, expiresAt: 1 });
+InventoryUnitSchema.index({ donationRecordId: 1 });
+
+// Virtual for days until the unit expires
+InventoryUnitSchema.virtual('daysToExpiry').get(function(this: IInventoryUnitDocument) {
+  return Math.floor((this.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+});
+
+// Instance method to check if the unit can still be issued
+InventoryUnitSchema.methods.isUsable = function(this: IInventoryUnitDocument): boolean {
+  return this.status === 'available' && this.expiresAt > new Date();
+};
+
+export default mongoose.model<IInventoryUnitDocument>('InventoryUnit', InventoryUnitSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IJobLock } from '../types';
+
+export interface IJobLockDocument extends Omit<IJobLock, '_id'>, Document<mongoose.Types.ObjectId> {}
+
+const JobLockSchema = new Schema<IJobLockDocument>({
+  name: {
+    type: String,
+    required: [true, 'Job name is required'],
+    unique: true
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date,
+    required: [true, 'Lock expiry is required']
+  },
+  lastRunAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IJobLockDocument>('JobLock', JobLockSchema);
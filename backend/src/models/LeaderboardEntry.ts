@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ILeaderboardEntry } from '../types';
+
+export interface ILeaderboardEntryDocument extends Omit<ILeaderboardEntry, '_id' | 'donorId'>, Document<mongoose.Types.ObjectId> {
+  donorId: mongoose.Types.ObjectId;
+}
+
+const LeaderboardEntrySchema = new Schema<ILeaderboardEntryDocument>({
+  period: {
+    type: String,
+    enum: ['all_time', 'year', 'quarter', 'month'],
+    required: [true, 'Period is required']
+  },
+  // e.g. 2025, 2025-Q3, 2025-08, or "all" for all time
+  periodKey: {
+    type: String,
+    required: [true, 'Period key is required']
+  },
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  donorName: {
+    type: String,
+    required: [true, 'Donor name is required']
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+  },
+  city: {
+    type: String
+  },
+  // Lower-cased city, for exact case-insensitive filtering on an index
+  cityKey: {
+    type: String
+  },
+  totalPoints: {
+    type: Number,
+    default: 0
+  },
+  totalDonations: {
+    type: Number,
+    default: 0
+  },
+  totalUnits: {
+    type: Number,
+    default: 0
+  },
+  lastDonation: {
+    type: Date
+  },
+  computedAt: {
+    type: Date,
+    required: [true, 'Computed date is required']
+  }
+});
+
+// One entry per donor and period; the snapshot job merges on these fields
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, donorId: 1 }, { unique: true });
+
+// Ranking indexes, overall and per filter
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, totalPoints: -1, totalDonations: -1, donorId: 1 });
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, cityKey: 1, totalPoints: -1, totalDonations: -1, donorId: 1 });
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, bloodGroup: 1, totalPoints: -1, totalDonations: -1, donorId: 1 });
+
+export default mongoose.model<ILeaderboardEntryDocument>('LeaderboardEntry', LeaderboardEntrySchema);
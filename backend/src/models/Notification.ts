@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { INotification } from '../types';
+
+export interface INotificationDocument extends Omit<INotification, '_id' | 'userId'>, Document<mongoose.Types.ObjectId> {
+  userId: mongoose.Types.ObjectId;
+}
+
+const NotificationSchema = new Schema<INotificationDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  type: {
+    type: String,
+    enum: [
+      'blood_request',
+      'blood_request_escalated',
+      'blood_request_expiring',
+      'pledge_received',
+      'pledge_accepted',
+      'pledge_declined',
+      'pledge_withdrawn',
+      'camp_waitlist_promoted',
+      'camp_cancelled',
+      'appointment_cancelled',
+      'achievement_earned',
+      'contact_request',
+      'contact_request_approved',
+      'contact_request_declined',
+      'contact_message',
+      'data_export_ready'
+    ],
+    required: [true, 'Notification type is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    maxlength: [200, 'Title cannot be more than 200 characters']
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    maxlength: [1000, 'Message cannot be more than 1000 characters']
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  dedupeKey: {
+    type: String,
+    required: [true, 'Dedupe key is required']
+  },
+  channels: [{
+    type: String,
+    enum: ['inApp', 'email', 'sms', 'push']
+  }],
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+// A user gets at most one notification per dedupe key (e.g. per request and urgency)
+NotificationSchema.index({ userId: 1, dedupeKey: 1 }, { unique: true });
+
+// Virtual for read state
+NotificationSchema.virtual('isRead').get(function(this: INotificationDocument) {
+  return !!this.readAt;
+});
+
+export default mongoose.model<INotificationDocument>('Notification', NotificationSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IOrganisation } from '../types';
+
+export interface IOrganisationDocument extends Omit<IOrganisation, '_id' | 'createdBy'>, Document<mongoose.Types.ObjectId> {
+  createdBy: mongoose.Types.ObjectId;
+}
+
+const OrganisationSchema = new Schema<IOrganisationDocument>({
+  name: {
+    type: String,
+    required: [true, 'Organisation name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot be more than 100 characters']
+  },
+  type: {
+    type: String,
+    enum: ['company', 'college', 'ngo', 'community', 'other'],
+    default: 'company'
+  },
+  description: {
+    type: String,
+    maxlength: [1000, 'Description cannot be more than 1000 characters']
+  },
+  city: {
+    type: String,
+    trim: true
+  },
+  website: {
+    type: String,
+    trim: true
+  },
+  // Shared with people who may join; regenerating it stops the old one working
+  inviteCode: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+OrganisationSchema.index({ name: 1 });
+OrganisationSchema.index({ isActive: 1, city: 1 });
+
+// Invite codes are only shown to the organisation's admins
+OrganisationSchema.methods.toJSON = function() {
+  const organisationObject = this.toObject();
+  delete organisationObject.inviteCode;
+  return organisationObject;
+};
+
+export default mongoose.model<IOrganisationDocument>('Organisation', OrganisationSchema);
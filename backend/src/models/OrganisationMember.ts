@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IOrganisationMember } from '../types';
+
+export interface IOrganisationMemberDocument extends Omit<IOrganisationMember, '_id' | 'organisationId' | 'userId'>, Document<mongoose.Types.ObjectId> {
+  organisationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+}
+
+const OrganisationMemberSchema = new Schema<IOrganisationMemberDocument>({
+  organisationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organisation',
+    required: [true, 'Organisation ID is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  role: {
+    type: String,
+    enum: ['owner', 'admin', 'member'],
+    default: 'member'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A user joins an organisation once
+OrganisationMemberSchema.index({ organisationId: 1, userId: 1 }, { unique: true });
+OrganisationMemberSchema.index({ userId: 1 });
+
+export default mongoose.model<IOrganisationMemberDocument>('OrganisationMember', OrganisationMemberSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPledge } from '../types';
+
+export interface IPledgeDocument extends Omit<IPledge, '_id' | 'requestId' | 'donorId' | 'donationRecordId'>, Document<mongoose.Types.ObjectId> {
+  requestId: mongoose.Types.ObjectId;
+  donorId: mongoose.Types.ObjectId;
+  donationRecordId?: mongoose.Types.ObjectId;
+  isOpen(): boolean;
+}
+
+const PledgeSchema = new Schema<IPledgeDocument>({
+  requestId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BloodRequest',
+    required: [true, 'Request ID is required']
+  },
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  donorName: {
+    type: String,
+    required: [true, 'Donor name is required'],
+    trim: true
+  },
+  bloodGroup: {
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+    required: [true, 'Blood group is required']
+  },
+  unitsPledged: {
+    type: Number,
+    required: [true, 'Units pledged is required'],
+    min: [1, 'At least 1 unit must be pledged'],
+    max: [2, 'Maximum 2 units can be pledged at once']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'withdrawn', 'completed', 'cancelled'],
+    default: 'pending'
+  },
+  message: {
+    type: String,
+    maxlength: [500, 'Message cannot be more than 500 characters']
+  },
+  responseNote: {
+    type: String,
+    maxlength: [500, 'Response note cannot be more than 500 characters']
+  },
+  respondedAt: {
+    type: Date
+  },
+  donationRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DonationRecord'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+PledgeSchema.index({ requestId: 1, status: 1 });
+PledgeSchema.index({ donorId: 1, createdAt: -1 });
+
+// Instance methods
+PledgeSchema.methods.isOpen = function(this: IPledgeDocument) {
+  return this.status === 'pending' || this.status === 'accepted';
+};
+
+export default mongoose.model<IPledgeDocument>('Pledge', PledgeSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPointsRecalculation } from '../types';
+
+export interface IPointsRecalculationDocument extends Omit<IPointsRecalculation, '_id' | 'requestedBy'>, Document<mongoose.Types.ObjectId> {
+  requestedBy: mongoose.Types.ObjectId;
+}
+
+const PointsRecalculationSchema = new Schema<IPointsRecalculationDocument>({
+  // Completed donations dated in [from, to) are rescored
+  from: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  to: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    maxlength: [500, 'Reason cannot be more than 500 characters']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'completed', 'failed'],
+    default: 'pending'
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Requesting admin is required']
+  },
+  processed: {
+    type: Number,
+    default: 0
+  },
+  changed: {
+    type: Number,
+    default: 0
+  },
+  error: {
+    type: String
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better query performance
+PointsRecalculationSchema.index({ status: 1, createdAt: 1 });
+PointsRecalculationSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IPointsRecalculationDocument>('PointsRecalculation', PointsRecalculationSchema);
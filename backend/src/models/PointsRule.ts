@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPointsRule } from '../types';
+
+export interface IPointsRuleDocument extends Omit<IPointsRule, '_id' | 'createdBy' | 'updatedBy'>, Document<mongoose.Types.ObjectId> {
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+}
+
+const PointsRuleSchema = new Schema<IPointsRuleDocument>({
+  // A donation is scored by the latest rule in effect on its date
+  effectiveFrom: {
+    type: Date,
+    required: [true, 'Effective-from date is required'],
+    unique: true
+  },
+  basePoints: {
+    type: Number,
+    required: [true, 'Base points are required'],
+    min: [0, 'Base points cannot be negative']
+  },
+  extraUnitPoints: {
+    type: Number,
+    required: [true, 'Extra unit points are required'],
+    min: [0, 'Extra unit points cannot be negative']
+  },
+  requestPoints: {
+    critical: {
+      type: Number,
+      required: [true, 'Critical request points are required'],
+      min: [0, 'Critical request points cannot be negative']
+    },
+    urgent: {
+      type: Number,
+      required: [true, 'Urgent request points are required'],
+      min: [0, 'Urgent request points cannot be negative']
+    },
+    normal: {
+      type: Number,
+      required: [true, 'Normal request points are required'],
+      min: [0, 'Normal request points cannot be negative']
+    }
+  },
+  rareBloodGroupPoints: {
+    type: Number,
+    required: [true, 'Rare blood group points are required'],
+    min: [0, 'Rare blood group points cannot be negative']
+  },
+  campPoints: {
+    type: Number,
+    required: [true, 'Camp points are required'],
+    min: [0, 'Camp points cannot be negative']
+  },
+  firstDonationPoints: {
+    type: Number,
+    required: [true, 'First donation points are required'],
+    min: [0, 'First donation points cannot be negative']
+  },
+  note: {
+    type: String,
+    maxlength: [500, 'Note cannot be more than 500 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IPointsRuleDocument>('PointsRule', PointsRuleSchema);
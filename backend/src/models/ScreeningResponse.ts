@@ -0,0 +1,37 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IScreeningResponse } from '../types';
+
+export interface IScreeningResponseDocument extends Omit<IScreeningResponse, '_id' | 'donorId'>, Document<mongoose.Types.ObjectId> {
+  donorId: mongoose.Types.ObjectId;
+}
+
+const ScreeningResponseSchema = new Schema<IScreeningResponseDocument>({
+  donorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Donor ID is required']
+  },
+  // Answers are only meaningful against the questionnaire version they were given for
+  questionnaireVersion: {
+    type: Number,
+    required: [true, 'Questionnaire version is required']
+  },
+  answers: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Answers are required']
+  },
+  eligible: {
+    type: Boolean,
+    required: true
+  },
+  nextEligibleDate: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better query performance
+ScreeningResponseSchema.index({ donorId: 1, createdAt: -1 });
+
+export default mongoose.model<IScreeningResponseDocument>('ScreeningResponse', ScreeningResponseSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ISession, SessionRevokeReason } from '../types';
+
+export interface ISessionDocument extends Omit<ISession, '_id' | 'userId'>, Document<mongoose.Types.ObjectId> {
+  userId: mongoose.Types.ObjectId;
+  isActive(): boolean;
+  revoke(reason: SessionRevokeReason): void;
+}
+
+const SessionSchema = new Schema<ISessionDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  currentJti: {
+    type: String,
+    required: [true, 'Token ID is required']
+  },
+  userAgent: {
+    type: String,
+    maxlength: [500, 'User agent cannot be more than 500 characters']
+  },
+  ipAddress: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'revoked', 'reuse_detected', 'password_changed', 'account_blocked', 'account_deleted']
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB clean up sessions once their refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Instance methods
+SessionSchema.methods.isActive = function(this: ISessionDocument) {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+SessionSchema.methods.revoke = function(this: ISessionDocument, reason: SessionRevokeReason) {
+  if (!this.revokedAt) {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+  }
+};
+
+// Instance method to hide the rotating token ID from JSON output
+SessionSchema.methods.toJSON = function() {
+  const sessionObject = this.toObject();
+  delete sessionObject.currentJti;
+  return sessionObject;
+};
+
+export default mongoose.model<ISessionDocument>('Session', SessionSchema);
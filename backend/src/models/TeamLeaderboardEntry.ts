@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ITeamLeaderboardEntry } from '../types';
+
+export interface ITeamLeaderboardEntryDocument extends Omit<ITeamLeaderboardEntry, '_id' | 'organisationId'>, Document<mongoose.Types.ObjectId> {
+  organisationId: mongoose.Types.ObjectId;
+}
+
+const TeamLeaderboardEntrySchema = new Schema<ITeamLeaderboardEntryDocument>({
+  period: {
+    type: String,
+    enum: ['all_time', 'year', 'quarter', 'month'],
+    required: [true, 'Period is required']
+  },
+  periodKey: {
+    type: String,
+    required: [true, 'Period key is required']
+  },
+  organisationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organisation',
+    required: [true, 'Organisation ID is required']
+  },
+  organisationName: {
+    type: String,
+    required: [true, 'Organisation name is required']
+  },
+  totalPoints: {
+    type: Number,
+    default: 0
+  },
+  totalDonations: {
+    type: Number,
+    default: 0
+  },
+  totalUnits: {
+    type: Number,
+    default: 0
+  },
+  // Members who donated in the period
+  donors: {
+    type: Number,
+    default: 0
+  },
+  computedAt: {
+    type: Date,
+    required: [true, 'Computed date is required']
+  }
+});
+
+// One entry per organisation and period; the snapshot job merges on these fields
+TeamLeaderboardEntrySchema.index({ period: 1, periodKey: 1, organisationId: 1 }, { unique: true });
+TeamLeaderboardEntrySchema.index({ period: 1, periodKey: 1, totalPoints: -1, totalDonations: -1, organisationId: 1 });
+
+export default mongoose.model<ITeamLeaderboardEntryDocument>('TeamLeaderboardEntry', TeamLeaderboardEntrySchema);
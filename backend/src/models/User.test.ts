@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import User from './User';
+
+const activeDonor = () => ({
+  name: 'Asha Rao',
+  email: 'asha@example.com',
+  userType: 'donor',
+  bloodGroup: 'O+',
+  phone: '+91 98765 43210',
+  city: 'Pune',
+  pincode: '411001'
+});
+
+describe('User validation', () => {
+  it('requires contact and medical details on active accounts', () => {
+    const { phone, city, pincode, ...rest } = activeDonor();
+    const error = new User({ ...rest, email: 'asha@deleted.invalid' }).validateSync();
+
+    expect(Object.keys(error!.errors).sort()).toEqual(['age', 'city', 'email', 'phone', 'pincode', 'weight']);
+  });
+
+  it('accepts an anonymised account without them', () => {
+    const id = new mongoose.Types.ObjectId();
+    const { phone, city, pincode, ...rest } = activeDonor();
+    const user = new User({
+      ...rest,
+      _id: id,
+      name: 'Deleted user',
+      email: `deleted-${id}@deleted.invalid`,
+      deletedAt: new Date()
+    });
+
+    expect(user.validateSync()).toBeUndefined();
+  });
+});
+
+describe('findAvailableDonors', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('leaves out accounts waiting for deletion', async () => {
+    const find = jest.spyOn(User, 'find').mockReturnValue({
+      select: () => ({ sort: () => Promise.resolve([]) })
+    } as any);
+
+    await User.findAvailableDonors('A+');
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({
+      isAvailable: true,
+      deletionRequestedAt: { $exists: false }
+    }));
+  });
+});
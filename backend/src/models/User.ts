@@ -1,13 +1,129 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { IUser, BloodGroup, UserType } from '../types';
+import crypto from 'crypto';
+import { config } from '../config/config';
+import { getCompatibleDonorGroups, matchRank, DEFAULT_BLOOD_COMPONENT } from '../services/bloodCompatibility';
+import { Coordinates, resolvePincode, toGeoPoint, fromGeoPoint, kmToMeters, metersToKm } from '../services/geoService';
+import { DONATION_TYPES, getDonationInterval } from '../services/eligibilityPolicy';
+import { textPattern } from '../services/searchService';
+import { IUser, IDeferral, BloodGroup, BloodComponent, DonationType, UserType } from '../types';
 
-export interface IUserDocument extends IUser, Document {
+export interface IDeferralDocument extends Omit<IDeferral, '_id' | 'screeningId' | 'recordedBy' | 'liftedBy'> {
+  _id: mongoose.Types.ObjectId;
+  screeningId?: mongoose.Types.ObjectId;
+  recordedBy?: mongoose.Types.ObjectId;
+  liftedBy?: mongoose.Types.ObjectId;
+}
+
+export interface IUserDocument extends Omit<IUser, '_id' | 'deferrals'>, Document<mongoose.Types.ObjectId> {
+  deferrals: mongoose.Types.DocumentArray<IDeferralDocument>;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(timestamp: number): boolean;
+  createPasswordResetToken(): string;
+  createCalendarFeedToken(): string;
+  getNextEligibleDate(donationType?: DonationType): Date | null;
+  getNextEligibleDates(): Record<DonationType, Date | null>;
+  getActiveDeferrals(): IDeferralDocument[];
+  hasPermanentDeferral(): boolean;
+  isBlocked(): boolean;
   toJSON(): any;
 }
 
-const UserSchema = new Schema<IUserDocument>({
+export interface IUserModel extends Model<IUserDocument> {
+  findAvailableDonors(
+    bloodGroup: BloodGroup,
+    city?: string,
+    pincode?: string,
+    component?: BloodComponent
+  ): Promise<IUserDocument[]>;
+  findNearbyDonors(
+    bloodGroup: BloodGroup,
+    near: Coordinates,
+    radiusKm: number,
+    component?: BloodComponent
+  ): Promise<NearbyDonor[]>;
+}
+
+// A donor found by distance: a plain object, with how far away and how well matched they are
+export type NearbyDonor = Omit<IUser, '_id'> & {
+  _id: mongoose.Types.ObjectId;
+  distanceKm: number;
+  matchRank: number;
+};
+
+const DeferralSchema = new Schema<IDeferralDocument>({
+  category: {
+    type: String,
+    enum: ['illness', 'tattoo', 'travel', 'medication', 'pregnancy', 'haemoglobin', 'infection', 'other'],
+    required: [true, 'Deferral category is required']
+  },
+  type: {
+    type: String,
+    enum: ['temporary', 'permanent'],
+    required: [true, 'Deferral type is required']
+  },
+  reason: {
+    type: String,
+    required: [true, 'Deferral reason is required'],
+    maxlength: [500, 'Reason cannot be more than 500 characters']
+  },
+  startDate: {
+    type: Date,
+    default: Date.now
+  },
+  endDate: {
+    type: Date,
+    required: [
+      function(this: IDeferralDocument) { return this.type === 'temporary'; },
+      'Temporary deferrals need an end date'
+    ]
+  },
+  source: {
+    type: String,
+    enum: ['screening', 'hospital'],
+    required: [true, 'Deferral source is required']
+  },
+  screeningId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ScreeningResponse'
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  liftedAt: {
+    type: Date
+  },
+  liftedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  liftReason: {
+    type: String,
+    maxlength: [500, 'Lift reason cannot be more than 500 characters']
+  }
+});
+
+// Query matching donors with no deferral in force
+const notDeferred = () => ({
+  deferrals: {
+    $not: {
+      $elemMatch: {
+        liftedAt: { $exists: false },
+        $or: [{ type: 'permanent' }, { endDate: { $gt: new Date() } }]
+      }
+    }
+  }
+});
+
+const EMAIL_PATTERN = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
+
+// Anonymised accounts keep no contact details, address or medical details
+function isActiveAccount(this: IUserDocument): boolean {
+  return !this.deletedAt;
+}
+
+const UserSchema = new Schema<IUserDocument, IUserModel>({
   name: {
     type: String,
     required: [true, 'Name is required'],
@@ -19,14 +135,42 @@ const UserSchema = new Schema<IUserDocument>({
     required: [true, 'Email is required'],
     unique: true,
     lowercase: true,
-    match: [
-      /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
-      'Please provide a valid email'
-    ]
+    // Anonymised accounts get a placeholder address on the reserved .invalid domain
+    validate: {
+      validator: function(this: IUserDocument, value: string) {
+        return !isActiveAccount.call(this) || EMAIL_PATTERN.test(value);
+      },
+      message: 'Please provide a valid email'
+    }
+  },
+  password: {
+    type: String,
+    minlength: [8, 'Password must be at least 8 characters'],
+    select: false
+  },
+  passwordChangedAt: {
+    type: Date
+  },
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
+  calendarFeedToken: {
+    type: String,
+    select: false
+  },
+  // Medical deferrals from screening or hospital staff; kept after they end as history
+  deferrals: {
+    type: [DeferralSchema],
+    default: []
   },
   userType: {
     type: String,
-    enum: ['donor', 'patient', 'hospital'],
+    enum: ['donor', 'patient', 'hospital', 'admin'],
     required: [true, 'User type is required']
   },
   bloodGroup: {
@@ -38,25 +182,35 @@ const UserSchema = new Schema<IUserDocument>({
   },
   phone: {
     type: String,
-    required: [true, 'Phone number is required'],
+    required: [isActiveAccount, 'Phone number is required'],
     match: [/^\+?[\d\s-()]+$/, 'Please provide a valid phone number']
   },
   city: {
     type: String,
-    required: [true, 'City is required'],
+    required: [isActiveAccount, 'City is required'],
     trim: true
   },
   pincode: {
     type: String,
-    required: [true, 'Pincode is required'],
+    required: [isActiveAccount, 'Pincode is required'],
     match: [/^\d{6}$/, 'Please provide a valid 6-digit pincode']
   },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point']
+    },
+    coordinates: {
+      type: [Number],
+      default: undefined
+    }
+  },
   age: {
     type: Number,
     min: [18, 'Age must be at least 18'],
     max: [65, 'Age must be at most 65'],
     required: function(this: IUserDocument) {
-      return this.userType === 'donor';
+      return this.userType === 'donor' && isActiveAccount.call(this);
     }
   },
   weight: {
@@ -64,7 +218,7 @@ const UserSchema = new Schema<IUserDocument>({
     min: [50, 'Weight must be at least 50 kg'],
     max: [150, 'Weight must be at most 150 kg'],
     required: function(this: IUserDocument) {
-      return this.userType === 'donor';
+      return this.userType === 'donor' && isActiveAccount.call(this);
     }
   },
   donationCount: {
@@ -79,6 +233,45 @@ const UserSchema = new Schema<IUserDocument>({
   lastDonation: {
     type: Date
   },
+  sex: {
+    type: String,
+    enum: ['male', 'female']
+  },
+  // Kept up to date from verified donations by the eligibility policy
+  nextEligibleDates: {
+    whole_blood: Date,
+    double_red_cells: Date,
+    platelets: Date,
+    plasma: Date
+  },
+  eligibilityUpdatedAt: {
+    type: Date
+  },
+  // Kept up to date from verified donations by the achievements service
+  tier: {
+    type: String,
+    enum: ['bronze', 'silver', 'gold', 'platinum']
+  },
+  streak: {
+    current: { type: Number, default: 0 },
+    longest: { type: Number, default: 0 },
+    lastYear: Number
+  },
+  leaderboardOptOut: {
+    type: Boolean,
+    default: false
+  },
+  deletionRequestedAt: {
+    type: Date
+  },
+  // End of the grace period in which the user can still cancel the deletion
+  deletionScheduledFor: {
+    type: Date
+  },
+  // When personal fields were anonymised; the account can no longer be used
+  deletedAt: {
+    type: Date
+  },
   googleId: {
     type: String,
     sparse: true
@@ -89,6 +282,42 @@ const UserSchema = new Schema<IUserDocument>({
   isVerified: {
     type: Boolean,
     default: false
+  },
+  accountStatus: {
+    type: String,
+    enum: ['active', 'suspended', 'banned'],
+    default: 'active'
+  },
+  suspendedUntil: {
+    type: Date
+  },
+  statusReason: {
+    type: String,
+    maxlength: [500, 'Status reason cannot be more than 500 characters']
+  },
+  notificationPreferences: {
+    inApp: { type: Boolean, default: true },
+    email: { type: Boolean, default: true },
+    sms: { type: Boolean, default: false },
+    push: { type: Boolean, default: true },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: {
+        type: String,
+        default: '22:00',
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must use HH:mm format']
+      },
+      end: {
+        type: String,
+        default: '07:00',
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must use HH:mm format']
+      },
+      timezone: { type: String, default: 'Asia/Kolkata' }
+    }
+  },
+  pushTokens: {
+    type: [String],
+    select: false
   }
 }, {
   timestamps: true,
@@ -96,23 +325,43 @@ const UserSchema = new Schema<IUserDocument>({
   toObject: { virtuals: true }
 });
 
+// Fields matched by the user search, and how much a match in each counts
+export const USER_SEARCH_WEIGHTS: Record<string, number> = {
+  name: 10,
+  city: 5
+};
+
 // Indexes for better query performance
 UserSchema.index({ email: 1 });
 UserSchema.index({ userType: 1 });
 UserSchema.index({ bloodGroup: 1 });
 UserSchema.index({ city: 1, pincode: 1 });
 UserSchema.index({ isAvailable: 1 });
+UserSchema.index({ location: '2dsphere' });
+UserSchema.index({ accountStatus: 1 });
+UserSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+// Names are not stemmed as English words
+UserSchema.index(
+  Object.fromEntries(Object.keys(USER_SEARCH_WEIGHTS).map(field => [field, 'text'])),
+  { weights: USER_SEARCH_WEIGHTS, default_language: 'none', name: 'search_text' }
+);
 
 // Virtual for checking if user can donate
 UserSchema.virtual('canDonate').get(function(this: IUserDocument) {
   if (this.userType !== 'donor' || !this.isAvailable) return false;
-  if (!this.lastDonation) return true;
-  
-  const daysSinceLastDonation = Math.floor(
-    (Date.now() - this.lastDonation.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  
-  return daysSinceLastDonation >= 90; // 90 days gap required
+  return !this.hasPermanentDeferral() && this.getNextEligibleDate() === null;
+});
+
+// Virtual for the yearly donation streak still running: it ends once a whole calendar year passes without a donation
+UserSchema.virtual('currentStreak').get(function(this: IUserDocument) {
+  const lastYear = this.streak?.lastYear;
+  return lastYear && lastYear >= new Date().getFullYear() - 1 ? this.streak!.current : 0;
+});
+
+// Virtual for the first day a whole blood donation is allowed again, or null if it is allowed now
+UserSchema.virtual('nextEligibleDate').get(function(this: IUserDocument) {
+  if (this.userType !== 'donor' || this.hasPermanentDeferral()) return null;
+  return this.getNextEligibleDate();
 });
 
 // Pre-save middleware
@@ -124,39 +373,220 @@ UserSchema.pre('save', async function(this: IUserDocument, next) {
   next();
 });
 
+// Pre-save middleware to place the user on the map from their pincode
+UserSchema.pre('save', function(this: IUserDocument, next) {
+  if ((this.isModified('pincode') || !fromGeoPoint(this.location)) && !this.isModified('location')) {
+    const coordinates = resolvePincode(this.pincode);
+    if (coordinates) {
+      this.location = toGeoPoint(coordinates);
+    }
+  }
+  next();
+});
+
+// Keep location in step with pincode changes made through update queries
+UserSchema.pre('findOneAndUpdate', function(next) {
+  const update: any = this.getUpdate();
+  const pincode = update?.pincode ?? update?.$set?.pincode;
+
+  if (pincode && !update.location && !update.$set?.location) {
+    const coordinates = resolvePincode(pincode);
+    if (coordinates) {
+      this.set('location', toGeoPoint(coordinates));
+    }
+  }
+  next();
+});
+
+// Pre-save middleware to hash the password whenever it changes
+UserSchema.pre('save', async function(this: IUserDocument, next) {
+  if (!this.isModified('password') || !this.password) return next();
+
+  this.password = await bcrypt.hash(this.password, 12);
+
+  if (!this.isNew) {
+    // Backdate by a second so tokens issued right after the change stay valid
+    this.passwordChangedAt = new Date(Date.now() - 1000);
+  }
+  next();
+});
+
+// Instance method to check a candidate password against the stored hash
+UserSchema.methods.comparePassword = async function(
+  this: IUserDocument,
+  candidatePassword: string
+): Promise<boolean> {
+  if (!this.password) return false;
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+// Instance method to check if the password changed after a token was issued
+UserSchema.methods.changedPasswordAfter = function(this: IUserDocument, timestamp: number): boolean {
+  if (!this.passwordChangedAt) return false;
+  return Math.floor(this.passwordChangedAt.getTime() / 1000) > timestamp;
+};
+
+// Instance method to generate a password reset token (only the hash is stored)
+UserSchema.methods.createPasswordResetToken = function(this: IUserDocument): string {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  this.passwordResetToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  this.passwordResetExpires = new Date(Date.now() + config.passwordResetExpireMinutes * 60 * 1000);
+
+  return resetToken;
+};
+
+// Instance method to generate the secret for the donor's calendar feed URL (only the hash is stored)
+UserSchema.methods.createCalendarFeedToken = function(this: IUserDocument): string {
+  const feedToken = crypto.randomBytes(32).toString('hex');
+
+  this.calendarFeedToken = crypto.createHash('sha256').update(feedToken).digest('hex');
+
+  return feedToken;
+};
+
+// Instance method to get the deferrals in force now
+UserSchema.methods.getActiveDeferrals = function(this: IUserDocument): IDeferralDocument[] {
+  const now = new Date();
+  return (this.deferrals || []).filter(deferral =>
+    !deferral.liftedAt && (deferral.type === 'permanent' || (deferral.endDate && deferral.endDate > now))
+  );
+};
+
+// Instance method to check if the donor may never donate again
+UserSchema.methods.hasPermanentDeferral = function(this: IUserDocument): boolean {
+  return this.getActiveDeferrals().some(deferral => deferral.type === 'permanent');
+};
+
+// Instance method to get the first day the donor may give this type of donation again, after the
+// eligibility policy's waits and any temporary deferral, or null if they can donate now.
+// Permanent deferrals are checked separately.
+UserSchema.methods.getNextEligibleDate = function(
+  this: IUserDocument,
+  donationType: DonationType = 'whole_blood'
+): Date | null {
+  const dates = this.getActiveDeferrals()
+    .filter(deferral => deferral.type === 'temporary')
+    .map(deferral => deferral.endDate!);
+
+  if (this.eligibilityUpdatedAt) {
+    const policyDate = this.nextEligibleDates?.[donationType];
+    if (policyDate) dates.push(policyDate);
+  } else if (this.lastDonation) {
+    // Donors whose history has not been through the policy yet are treated as whole blood donors
+    dates.push(new Date(this.lastDonation.getTime() + getDonationInterval('whole_blood', this.sex) * 24 * 60 * 60 * 1000));
+  }
+
+  const nextEligible = dates.reduce<Date | null>((latest, date) => (!latest || date > latest ? date : latest), null);
+  return nextEligible && nextEligible > new Date() ? nextEligible : null;
+};
+
+// Instance method to get the next eligible date for every donation type
+UserSchema.methods.getNextEligibleDates = function(this: IUserDocument): Record<DonationType, Date | null> {
+  return Object.fromEntries(
+    DONATION_TYPES.map(type => [type, this.getNextEligibleDate(type)])
+  ) as Record<DonationType, Date | null>;
+};
+
+// Instance method to check if the account is banned or still suspended
+UserSchema.methods.isBlocked = function(this: IUserDocument): boolean {
+  if (this.accountStatus === 'banned') return true;
+  if (this.accountStatus === 'suspended') {
+    return !this.suspendedUntil || this.suspendedUntil > new Date();
+  }
+  return false;
+};
+
 // Instance method to remove sensitive data from JSON output
 UserSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.googleId;
+  delete userObject.password;
+  delete userObject.passwordResetToken;
+  delete userObject.passwordResetExpires;
+  delete userObject.pushTokens;
+  delete userObject.calendarFeedToken;
+  // Medical details are only served through the screening endpoints
+  delete userObject.deferrals;
   return userObject;
 };
 
-// Static method to find available donors by blood group and location
-UserSchema.statics.findAvailableDonors = function(
+// Static method to find available donors who can give to a blood group, best matches first
+UserSchema.statics.findAvailableDonors = async function(
   bloodGroup: BloodGroup,
   city?: string,
-  pincode?: string
-) {
+  pincode?: string,
+  component: BloodComponent = DEFAULT_BLOOD_COMPONENT
+): Promise<IUserDocument[]> {
   const query: any = {
     userType: 'donor',
     isAvailable: true,
-    $or: [
-      { bloodGroup },
-      { bloodGroup: 'O-' }, // Universal donor
-      { bloodGroup: 'O+' }  // Universal donor for positive blood groups
-    ]
+    accountStatus: { $nin: ['suspended', 'banned'] },
+    bloodGroup: { $in: getCompatibleDonorGroups(bloodGroup, component) },
+    // Accounts waiting for deletion are not matched, even if availability was turned back on
+    deletionRequestedAt: { $exists: false },
+    ...notDeferred()
   };
 
   if (city) {
-    query.city = new RegExp(city, 'i');
+    query.city = textPattern(city);
   }
   if (pincode) {
     query.pincode = pincode;
   }
 
-  return this.find(query)
+  const donors: IUserDocument[] = await this.find(query)
     .select('-googleId')
     .sort({ donationCount: -1, createdAt: 1 });
+
+  // Stable sort keeps the donation count order within each match rank
+  return donors.sort((a, b) => matchRank(a.bloodGroup!, bloodGroup) - matchRank(b.bloodGroup!, bloodGroup));
+};
+
+// Static method to find compatible available donors within a radius, nearest first
+UserSchema.statics.findNearbyDonors = async function(
+  bloodGroup: BloodGroup,
+  near: Coordinates,
+  radiusKm: number,
+  component: BloodComponent = DEFAULT_BLOOD_COMPONENT
+): Promise<NearbyDonor[]> {
+  const donors = await this.aggregate([
+    {
+      $geoNear: {
+        near: toGeoPoint(near),
+        distanceField: 'distance',
+        maxDistance: kmToMeters(radiusKm),
+        spherical: true,
+        query: {
+          userType: 'donor',
+          isAvailable: true,
+          accountStatus: { $nin: ['suspended', 'banned'] },
+          bloodGroup: { $in: getCompatibleDonorGroups(bloodGroup, component) },
+          deletionRequestedAt: { $exists: false },
+          ...notDeferred()
+        }
+      }
+    },
+    {
+      // Aggregation bypasses toJSON and select: false, so strip secrets explicitly
+      $project: {
+        googleId: 0,
+        password: 0,
+        passwordResetToken: 0,
+        passwordResetExpires: 0,
+        pushTokens: 0,
+        calendarFeedToken: 0,
+        deferrals: 0,
+        notificationPreferences: 0
+      }
+    }
+  ]);
+
+  return donors.map(({ distance, ...donor }) => ({
+    ...donor,
+    distanceKm: metersToKm(distance),
+    matchRank: matchRank(donor.bloodGroup, bloodGroup)
+  }));
 };
 
-export default mongoose.model<IUserDocument>('User', UserSchema);
+export default mongoose.model<IUserDocument, IUserModel>('User', UserSchema);
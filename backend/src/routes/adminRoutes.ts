@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import {
+  getUsers,
+  suspendUser,
+  banUser,
+  reinstateUser,
+  verifyHospital,
+  unverifyHospital,
+  updateBloodRequest,
+  removeBloodRequest,
+  reverseDonation,
+  getAuditLogs
+} from '../controllers/adminController';
+import {
+  getPointsRules,
+  createPointsRule,
+  updatePointsRule,
+  deletePointsRule,
+  requestPointsRecalculation,
+  getPointsRecalculations
+} from '../controllers/pointsRuleController';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateAdminReason,
+  validateSuspension,
+  validateAdminBloodRequestUpdate,
+  validatePointsRule,
+  validatePointsRuleUpdate,
+  validatePointsRecalculation
+} from '../middleware/validation';
+
+const router = Router();
+
+// All admin routes require an admin account
+router.use(catchAsync(authenticate));
+router.use(requireAdmin);
+
+// User moderation routes
+router.get('/users', validatePagination, getUsers);
+router.patch('/users/:id/suspend', validateObjectId('id'), validateSuspension, suspendUser);
+router.patch('/users/:id/ban', validateObjectId('id'), validateAdminReason, banUser);
+router.patch('/users/:id/reinstate', validateObjectId('id'), reinstateUser);
+router.patch('/users/:id/verify', validateObjectId('id'), verifyHospital);
+router.patch('/users/:id/unverify', validateObjectId('id'), validateAdminReason, unverifyHospital);
+
+// Blood request moderation routes
+router.put('/blood-requests/:id', validateObjectId('id'), validateAdminBloodRequestUpdate, updateBloodRequest);
+router.delete('/blood-requests/:id', validateObjectId('id'), validateAdminReason, removeBloodRequest);
+
+// Donation routes
+router.patch('/donations/:id/reverse', validateObjectId('id'), validateAdminReason, reverseDonation);
+
+// Points rule routes
+router.get('/points-rules', getPointsRules);
+router.post('/points-rules', validatePointsRule, createPointsRule);
+router.put('/points-rules/:id', validateObjectId('id'), validatePointsRuleUpdate, updatePointsRule);
+router.delete('/points-rules/:id', validateObjectId('id'), deletePointsRule);
+router.get('/points-recalculations', validatePagination, getPointsRecalculations);
+router.post('/points-recalculations', validatePointsRecalculation, requestPointsRecalculation);
+
+// Audit log routes
+router.get('/audit-logs', validatePagination, getAuditLogs);
+
+export default router;
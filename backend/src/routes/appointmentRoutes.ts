@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import {
+  getSchedule,
+  updateSchedule,
+  addBlockedDate,
+  removeBlockedDate,
+  getHospitalAvailability,
+  bookAppointment,
+  getMyAppointments,
+  getHospitalAppointments,
+  cancelAppointment,
+  checkInAppointment,
+  markNoShow,
+  downloadAppointmentCalendar,
+  createCalendarFeed,
+  getCalendarFeed
+} from '../controllers/appointmentController';
+import { authenticate, requireDonor, requireVerifiedHospital } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateHospitalSchedule,
+  validateBlockedDate,
+  validateAvailabilityQuery,
+  validateAppointment,
+  validateAppointmentCancel
+} from '../middleware/validation';
+
+const router = Router();
+
+// Public routes; calendar apps cannot log in, so the feed is secured by its secret URL
+router.get('/feed/:token.ics', getCalendarFeed);
+router.get('/hospitals/:hospitalId/availability', validateObjectId('hospitalId'), validateAvailabilityQuery, getHospitalAvailability);
+
+// Protected routes
+router.use(catchAsync(authenticate));
+
+// Hospital schedule routes
+router.get('/schedule', requireVerifiedHospital, getSchedule);
+router.put('/schedule', requireVerifiedHospital, validateHospitalSchedule, updateSchedule);
+router.post('/schedule/blocked-dates', requireVerifiedHospital, validateBlockedDate, addBlockedDate);
+router.delete('/schedule/blocked-dates/:date', requireVerifiedHospital, removeBlockedDate);
+router.get('/hospital', requireVerifiedHospital, validatePagination, getHospitalAppointments);
+
+// Donor routes
+router.post('/', requireDonor, validateAppointment, bookAppointment);
+router.get('/my', validatePagination, getMyAppointments);
+router.post('/feed', requireDonor, createCalendarFeed);
+
+// Appointment routes
+router.get('/:id/ics', validateObjectId('id'), downloadAppointmentCalendar);
+router.patch('/:id/cancel', validateObjectId('id'), validateAppointmentCancel, cancelAppointment);
+router.patch('/:id/check-in', validateObjectId('id'), requireVerifiedHospital, checkInAppointment);
+router.patch('/:id/no-show', validateObjectId('id'), requireVerifiedHospital, markNoShow);
+
+export default router;
@@ -8,11 +8,24 @@ import {
   login,
   getProfile,
   updateProfile,
-  logout
+  changePassword,
+  forgotPassword,
+  resetPassword,
+  logout,
+  logoutAll,
+  getSessions,
+  deleteSession
 } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
 import { catchAsync } from '../middleware/errorHandler';
-import { validateUserRegistration } from '../middleware/validation';
+import {
+  validateObjectId,
+  validateUserRegistration,
+  validateLogin,
+  validatePasswordChange,
+  validateForgotPassword,
+  validateResetPassword
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -25,13 +38,23 @@ router.post('/refresh', refreshToken);
 
 // Manual authentication routes
 router.post('/register', validateUserRegistration, register);
-router.post('/login', login);
+router.post('/login', validateLogin, login);
+
+// Password recovery routes
+router.post('/forgot-password', validateForgotPassword, forgotPassword);
+router.post('/reset-password', validateResetPassword, resetPassword);
 
 // Protected routes
 router.use(catchAsync(authenticate)); // All routes below require authentication
 
 router.get('/profile', getProfile);
 router.put('/profile', updateProfile);
+router.put('/change-password', validatePasswordChange, changePassword);
 router.post('/logout', logout);
+router.post('/logout-all', logoutAll);
+
+// Session management
+router.get('/sessions', getSessions);
+router.delete('/sessions/:id', validateObjectId('id'), deleteSession);
 
 export default router;
@@ -6,14 +6,19 @@ import {
   updateBloodRequest,
   deleteBloodRequest,
   fulfillRequest,
+  extendBloodRequest,
   getUserBloodRequests,
   getNearbyDonors,
   getBloodRequestStats,
   searchBloodRequests
 } from '../controllers/bloodRequestController';
-import { authenticate, requireHospitalOrPatient } from '../middleware/auth';
+import { createPledge, getRequestPledges } from '../controllers/pledgeController';
+import { authenticate, requireHospitalOrPatient, requireDonor, requireCanDonate } from '../middleware/auth';
 import { 
   validateBloodRequest, 
+  validateBloodRequestUpdate,
+  validateNearbyDonors,
+  validatePledge,
   validateObjectId, 
   validatePagination, 
   validateSearch 
@@ -26,7 +31,7 @@ router.get('/', validatePagination, getBloodRequests);
 router.get('/search', validateSearch, searchBloodRequests);
 router.get('/stats', getBloodRequestStats);
 router.get('/:id', validateObjectId('id'), getBloodRequest);
-router.get('/:id/donors', validateObjectId('id'), getNearbyDonors);
+router.get('/:id/donors', validateObjectId('id'), validateNearbyDonors, getNearbyDonors);
 
 // Protected routes (authentication required)
 router.use(authenticate);
@@ -36,8 +41,13 @@ router.post('/', requireHospitalOrPatient, validateBloodRequest, createBloodRequ
 router.get('/user/my-requests', validatePagination, getUserBloodRequests);
 
 // Routes that require ownership or specific permissions
-router.put('/:id', validateObjectId('id'), updateBloodRequest);
+router.put('/:id', validateObjectId('id'), validateBloodRequestUpdate, updateBloodRequest);
 router.delete('/:id', validateObjectId('id'), deleteBloodRequest);
 router.patch('/:id/fulfill', validateObjectId('id'), fulfillRequest);
+router.patch('/:id/extend', validateObjectId('id'), extendBloodRequest);
+
+// Pledge routes
+router.post('/:id/pledges', validateObjectId('id'), requireDonor, requireCanDonate, validatePledge, createPledge);
+router.get('/:id/pledges', validateObjectId('id'), validatePagination, getRequestPledges);
 
 export default router;
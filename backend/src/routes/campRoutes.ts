@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import {
+  getCamps,
+  getCamp,
+  createCamp,
+  updateCamp,
+  cancelCamp,
+  bookCampSlot,
+  getMyBookings,
+  cancelBooking,
+  getCampBookings,
+  checkIn
+} from '../controllers/campController';
+import { authenticate, requireVerifiedHospital, requireCanDonate } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateCamp,
+  validateCampUpdate,
+  validateCampSearch,
+  validateCampBooking
+} from '../middleware/validation';
+
+const router = Router();
+
+// Public routes
+router.get('/', validatePagination, validateCampSearch, getCamps);
+router.get('/:id', validateObjectId('id'), getCamp);
+
+// Protected routes
+router.use(catchAsync(authenticate));
+
+// Donor routes
+router.get('/bookings/my', validatePagination, getMyBookings);
+router.patch('/bookings/:id/cancel', validateObjectId('id'), cancelBooking);
+router.post('/:id/book', validateObjectId('id'), requireCanDonate, validateCampBooking, bookCampSlot);
+
+// Organiser routes
+router.post('/', requireVerifiedHospital, validateCamp, createCamp);
+router.put('/:id', validateObjectId('id'), validateCampUpdate, updateCamp);
+router.patch('/:id/cancel', validateObjectId('id'), cancelCamp);
+router.get('/:id/bookings', validateObjectId('id'), validatePagination, getCampBookings);
+router.patch('/:id/bookings/:bookingId/check-in', validateObjectId('id'), validateObjectId('bookingId'), checkIn);
+
+export default router;
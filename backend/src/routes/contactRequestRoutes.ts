@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import {
+  createContactRequest,
+  getReceivedContactRequests,
+  getSentContactRequests,
+  getMyContactAccessLog,
+  getContactRequest,
+  approveContactRequest,
+  declineContactRequest,
+  revokeContactRequest,
+  cancelContactRequest,
+  getDonorContact,
+  sendContactMessage
+} from '../controllers/contactRequestController';
+import { authenticate, requireDonor } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import {
+  validateObjectId,
+  validatePagination,
+  validateContactRequest,
+  validateContactApproval,
+  validateContactResponse,
+  validateContactMessage
+} from '../middleware/validation';
+
+const router = Router();
+
+// All contact request routes require authentication
+router.use(catchAsync(authenticate));
+
+// Requester routes
+router.post('/', validateContactRequest, createContactRequest);
+router.get('/sent', validatePagination, getSentContactRequests);
+router.patch('/:id/cancel', validateObjectId('id'), cancelContactRequest);
+router.get('/:id/contact', validateObjectId('id'), getDonorContact);
+
+// Donor routes
+router.get('/received', requireDonor, validatePagination, getReceivedContactRequests);
+router.get('/access-log', validatePagination, getMyContactAccessLog);
+router.patch('/:id/approve', validateObjectId('id'), requireDonor, validateContactApproval, approveContactRequest);
+router.patch('/:id/decline', validateObjectId('id'), requireDonor, validateContactResponse, declineContactRequest);
+router.patch('/:id/revoke', validateObjectId('id'), requireDonor, validateContactResponse, revokeContactRequest);
+
+// Requester and donor routes
+router.get('/:id', validateObjectId('id'), getContactRequest);
+router.post('/:id/messages', validateObjectId('id'), validateContactMessage, sendContactMessage);
+
+export default router;
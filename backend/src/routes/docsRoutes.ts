@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import {
+  getOpenApiSpec,
+  getDocsViewer,
+  getDocsViewerScript
+} from '../controllers/docsController';
+
+const router = Router();
+
+// Public routes (no authentication required)
+router.get('/', getDocsViewer);
+router.get('/openapi.json', getOpenApiSpec);
+router.get('/viewer.js', getDocsViewerScript);
+
+export default router;
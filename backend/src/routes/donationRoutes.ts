@@ -5,25 +5,36 @@ import {
   getDonationRecord,
   updateDonationRecord,
   completeDonation,
+  createVerificationCode,
+  verifyDonationCode,
+  getVerificationQueue,
+  rejectDonation,
   getUserDonationRecords,
   getDonationStats,
   getTopDonors,
+  getMyLeaderboardRank,
   getDonationsByBloodGroup,
   getUserDonationSummary,
   cancelDonation
 } from '../controllers/donationController';
-import { authenticate, requireDonor, requireCanDonate } from '../middleware/auth';
+import { authenticate, optionalAuth, requireDonor, requireCanDonate, requireVerifiedHospital, requireAdmin } from '../middleware/auth';
 import { 
   validateDonationRecord, 
+  validateDonationUpdate,
+  validateVerificationCode,
+  validateDonationCompletion,
+  validateDonationRejection,
   validateObjectId, 
-  validatePagination 
+  validatePagination,
+  validateLeaderboardQuery
 } from '../middleware/validation';
 
 const router = Router();
 
 // Public routes (no authentication required)
 router.get('/stats', getDonationStats);
-router.get('/leaderboard', getTopDonors);
+// Signed-in members can filter the public board to their organisation
+router.get('/leaderboard', optionalAuth, validateLeaderboardQuery, getTopDonors);
 router.get('/blood-groups', getDonationsByBloodGroup);
 
 // Protected routes (authentication required)
@@ -33,14 +44,23 @@ router.use(authenticate);
 router.post('/', requireDonor, requireCanDonate, validateDonationRecord, createDonationRecord);
 router.get('/user/my-donations', validatePagination, getUserDonationRecords);
 router.get('/user/summary', getUserDonationSummary);
+router.get('/leaderboard/me', requireDonor, validateLeaderboardQuery, getMyLeaderboardRank);
+
+// Routes that require hospital role
+router.get('/verification-queue', requireVerifiedHospital, validatePagination, getVerificationQueue);
+router.post('/verify', requireVerifiedHospital, validateVerificationCode, verifyDonationCode);
 
 // Routes that require ownership
 router.get('/:id', validateObjectId('id'), getDonationRecord);
-router.put('/:id', validateObjectId('id'), updateDonationRecord);
-router.patch('/:id/complete', validateObjectId('id'), completeDonation);
+router.put('/:id', validateObjectId('id'), validateDonationUpdate, updateDonationRecord);
 router.patch('/:id/cancel', validateObjectId('id'), cancelDonation);
+router.post('/:id/verification-code', validateObjectId('id'), createVerificationCode);
+
+// Hospital approval routes
+router.patch('/:id/complete', validateObjectId('id'), requireVerifiedHospital, validateDonationCompletion, completeDonation);
+router.patch('/:id/reject', validateObjectId('id'), requireVerifiedHospital, validateDonationRejection, rejectDonation);
 
 // Admin routes (for getting all donations)
-router.get('/', validatePagination, getDonationRecords);
+router.get('/', requireAdmin, validatePagination, getDonationRecords);
 
 export default router;
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import authRoutes from './authRoutes';
+import bloodRequestRoutes from './bloodRequestRoutes';
+import donationRoutes from './donationRoutes';
+import userRoutes from './userRoutes';
+import notificationRoutes from './notificationRoutes';
+import pledgeRoutes from './pledgeRoutes';
+import adminRoutes from './adminRoutes';
+import inventoryRoutes from './inventoryRoutes';
+import campRoutes from './campRoutes';
+import appointmentRoutes from './appointmentRoutes';
+import screeningRoutes from './screeningRoutes';
+import organisationRoutes from './organisationRoutes';
+import contactRequestRoutes from './contactRequestRoutes';
+
+export interface ApiRouteMount {
+  path: string;
+  router: Router;
+  // OpenAPI tag the routes are grouped under
+  tag: string;
+  // Component schema returned by GET / (paginated) and GET /:id
+  schema?: string;
+}
+
+// Every API router and where it is mounted; app.ts mounts them and the OpenAPI document is built from them
+export const apiRoutes: ApiRouteMount[] = [
+  { path: '/api/auth', router: authRoutes, tag: 'Auth' },
+  { path: '/api/blood-requests', router: bloodRequestRoutes, tag: 'Blood Requests', schema: 'BloodRequest' },
+  { path: '/api/donations', router: donationRoutes, tag: 'Donations', schema: 'DonationRecord' },
+  { path: '/api/users', router: userRoutes, tag: 'Users', schema: 'User' },
+  { path: '/api/notifications', router: notificationRoutes, tag: 'Notifications' },
+  { path: '/api/pledges', router: pledgeRoutes, tag: 'Pledges' },
+  { path: '/api/admin', router: adminRoutes, tag: 'Admin' },
+  { path: '/api/inventory', router: inventoryRoutes, tag: 'Inventory' },
+  { path: '/api/camps', router: campRoutes, tag: 'Camps' },
+  { path: '/api/appointments', router: appointmentRoutes, tag: 'Appointments' },
+  { path: '/api/screening', router: screeningRoutes, tag: 'Screening' },
+  { path: '/api/organisations', router: organisationRoutes, tag: 'Organisations' },
+  { path: '/api/contact-requests', router: contactRequestRoutes, tag: 'Contact Requests' }
+];
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import {
+  getInventory,
+  getInventoryUnits,
+  addInventoryUnits,
+  issueInventoryUnits,
+  transferInventoryUnits,
+  discardInventoryUnit,
+  getInventoryThresholds,
+  setInventoryThreshold
+} from '../controllers/inventoryController';
+import { authenticate, requireVerifiedHospital } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateInventoryAdd,
+  validateInventoryIssue,
+  validateInventoryTransfer,
+  validateInventoryDiscard,
+  validateInventoryThreshold
+} from '../middleware/validation';
+
+const router = Router();
+
+// All inventory routes require a verified hospital account
+router.use(catchAsync(authenticate));
+router.use(requireVerifiedHospital);
+
+// Stock routes
+router.get('/', getInventory);
+router.get('/units', validatePagination, getInventoryUnits);
+router.post('/units', validateInventoryAdd, addInventoryUnits);
+router.patch('/units/:id/discard', validateObjectId('id'), validateInventoryDiscard, discardInventoryUnit);
+router.post('/issue', validateInventoryIssue, issueInventoryUnits);
+router.post('/transfer', validateInventoryTransfer, transferInventoryUnits);
+
+// Par level routes
+router.get('/thresholds', getInventoryThresholds);
+router.put('/thresholds', validateInventoryThreshold, setInventoryThreshold);
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  registerPushToken,
+  removePushToken
+} from '../controllers/notificationController';
+import { authenticate } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateNotificationPreferences,
+  validatePushToken
+} from '../middleware/validation';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(catchAsync(authenticate));
+
+// Inbox routes
+router.get('/', validatePagination, getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.patch('/read-all', markAllNotificationsRead);
+router.patch('/:id/read', validateObjectId('id'), markNotificationRead);
+
+// Preference routes
+router.get('/preferences', getNotificationPreferences);
+router.put('/preferences', validateNotificationPreferences, updateNotificationPreferences);
+
+// Push device routes
+router.post('/push-tokens', validatePushToken, registerPushToken);
+router.delete('/push-tokens', validatePushToken, removePushToken);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import {
+  getOrganisations,
+  createOrganisation,
+  getMyOrganisations,
+  joinOrganisation,
+  leaveOrganisation,
+  getTeamLeaderboardEntries,
+  getOrganisation,
+  updateOrganisation,
+  regenerateInviteCode,
+  getOrganisationMembers,
+  updateMemberRole,
+  removeMember,
+  getOrganisationStats
+} from '../controllers/organisationController';
+import { authenticate, requireOrganisationRole } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import {
+  validateObjectId,
+  validatePagination,
+  validateLeaderboardQuery,
+  validateOrganisation,
+  validateOrganisationUpdate,
+  validateOrganisationJoin,
+  validateOrganisationRole,
+  validateOrganisationStatsQuery
+} from '../middleware/validation';
+
+const router = Router();
+
+// Public routes
+router.get('/leaderboard', validateLeaderboardQuery, getTeamLeaderboardEntries);
+
+// Protected routes
+router.use(catchAsync(authenticate));
+
+// Member routes
+router.get('/', validatePagination, getOrganisations);
+router.post('/', validateOrganisation, createOrganisation);
+router.get('/my', getMyOrganisations);
+router.post('/join', validateOrganisationJoin, joinOrganisation);
+router.get('/:id', validateObjectId('id'), getOrganisation);
+router.delete('/:id/membership', validateObjectId('id'), leaveOrganisation);
+
+// Organisation owner and admin routes
+const requireManager = catchAsync(requireOrganisationRole('owner', 'admin'));
+
+router.put('/:id', validateObjectId('id'), requireManager, validateOrganisationUpdate, updateOrganisation);
+router.post('/:id/invite-code', validateObjectId('id'), requireManager, regenerateInviteCode);
+router.get('/:id/members', validateObjectId('id'), requireManager, validatePagination, getOrganisationMembers);
+router.delete('/:id/members/:userId', validateObjectId('id'), validateObjectId('userId'), requireManager, removeMember);
+router.get('/:id/stats', validateObjectId('id'), requireManager, validateOrganisationStatsQuery, getOrganisationStats);
+
+// Organisation owner routes
+router.patch(
+  '/:id/members/:userId/role',
+  validateObjectId('id'),
+  validateObjectId('userId'),
+  catchAsync(requireOrganisationRole('owner')),
+  validateOrganisationRole,
+  updateMemberRole
+);
+
+export default router;
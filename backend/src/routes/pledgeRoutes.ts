@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  getMyPledges,
+  acceptPledge,
+  declinePledge,
+  withdrawPledge
+} from '../controllers/pledgeController';
+import { authenticate } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validatePledgeResponse
+} from '../middleware/validation';
+
+const router = Router();
+
+// All pledge routes require authentication
+router.use(catchAsync(authenticate));
+
+// Donor routes
+router.get('/my', validatePagination, getMyPledges);
+router.patch('/:id/withdraw', validateObjectId('id'), withdrawPledge);
+
+// Requester routes
+router.patch('/:id/accept', validateObjectId('id'), validatePledgeResponse, acceptPledge);
+router.patch('/:id/decline', validateObjectId('id'), validatePledgeResponse, declinePledge);
+
+export default router;
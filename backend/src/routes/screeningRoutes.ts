@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import {
+  getScreeningQuestionnaire,
+  submitScreeningResponse,
+  getMyScreeningResponses,
+  getMyDeferrals,
+  getDonorDeferrals,
+  addDonorDeferral,
+  liftDonorDeferral
+} from '../controllers/screeningController';
+import { authenticate, requireDonor, requireVerifiedHospitalOrAdmin } from '../middleware/auth';
+import { catchAsync } from '../middleware/errorHandler';
+import { 
+  validateObjectId, 
+  validatePagination, 
+  validateScreeningResponse,
+  validateDeferral,
+  validateDeferralLift
+} from '../middleware/validation';
+
+const router = Router();
+
+// All screening routes require authentication
+router.use(catchAsync(authenticate));
+
+// Donor routes
+router.get('/questionnaire', getScreeningQuestionnaire);
+router.post('/responses', requireDonor, validateScreeningResponse, submitScreeningResponse);
+router.get('/responses/my', requireDonor, validatePagination, getMyScreeningResponses);
+router.get('/deferrals/my', requireDonor, getMyDeferrals);
+
+// Hospital and admin routes
+router.get('/donors/:id/deferrals', validateObjectId('id'), requireVerifiedHospitalOrAdmin, getDonorDeferrals);
+router.post('/donors/:id/deferrals', validateObjectId('id'), requireVerifiedHospitalOrAdmin, validateDeferral, addDonorDeferral);
+router.patch(
+  '/donors/:id/deferrals/:deferralId/lift',
+  validateObjectId('id'),
+  validateObjectId('deferralId'),
+  requireVerifiedHospitalOrAdmin,
+  validateDeferralLift,
+  liftDonorDeferral
+);
+
+export default router;
@@ -3,36 +3,48 @@ import {
   getUsers,
   getUser,
   updateUserAvailability,
+  updateLeaderboardOptOut,
   getAvailableDonors,
   getUserStats,
   searchUsers,
   getUserDonationHistory,
   getUserContributionSummary,
-  deleteUserAccount
+  exportMyData,
+  getMyDataExports,
+  downloadDataExport,
+  deleteUserAccount,
+  restoreUserAccount
 } from '../controllers/userController';
 import { authenticate } from '../middleware/auth';
 import { 
+  validateDonorMatch,
   validateObjectId, 
   validatePagination, 
-  validateSearch 
+  validateSearch,
+  validateLeaderboardOptOut
 } from '../middleware/validation';
 
 const router = Router();
 
 // Public routes (no authentication required)
-router.get('/donors/available', getAvailableDonors);
+router.get('/donors/available', validateDonorMatch, getAvailableDonors);
 router.get('/stats', getUserStats);
 router.get('/search', validateSearch, searchUsers);
+router.get('/exports/:token', downloadDataExport);
 
 // Protected routes (authentication required)
 router.use(authenticate);
 
 // User management routes
 router.get('/', validatePagination, getUsers);
+router.get('/me/export', exportMyData);
+router.get('/me/exports', getMyDataExports);
 router.get('/:id', validateObjectId('id'), getUser);
 router.put('/availability', updateUserAvailability);
-router.get('/:id/donations', validateObjectId('id'), getUserDonationHistory);
+router.put('/leaderboard-opt-out', validateLeaderboardOptOut, updateLeaderboardOptOut);
+router.get('/:id/donations', validateObjectId('id'), validatePagination, getUserDonationHistory);
 router.get('/:id/contributions', validateObjectId('id'), getUserContributionSummary);
 router.delete('/account', deleteUserAccount);
+router.post('/account/restore', restoreUserAccount);
 
 export default router;
@@ -0,0 +1,26 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import DonationRecord from '../models/DonationRecord';
+import { refreshAchievements } from '../services/achievementService';
+
+// Compute achievements, tiers and streaks for donors who donated before they existed, without
+// notifying anyone: npm run backfill-achievements
+const backfillAchievements = async (): Promise<void> => {
+  await connectDB();
+
+  const donorIds = await DonationRecord.distinct('donorId', { status: 'completed' });
+  let earned = 0;
+
+  for (const donorId of donorIds) {
+    earned += (await refreshAchievements(donorId, false)).length;
+  }
+
+  console.log(`Checked ${donorIds.length} donors, ${earned} new achievements`);
+  await mongoose.connection.close();
+};
+
+backfillAchievements().catch(async error => {
+  console.error('Failed to backfill achievements:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
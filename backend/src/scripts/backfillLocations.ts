@@ -0,0 +1,42 @@
+import mongoose, { Model } from 'mongoose';
+import connectDB from '../config/database';
+import User from '../models/User';
+import BloodRequest from '../models/BloodRequest';
+import DonationCamp from '../models/DonationCamp';
+import { resolvePincode, toGeoPoint } from '../services/geoService';
+
+// Place users, blood requests and camps saved before locations existed on the map from their
+// pincodes: npm run backfill-locations
+const backfillModel = async (model: Model<any>): Promise<void> => {
+  const documents = await model
+    .find({ pincode: { $exists: true }, 'location.coordinates': { $exists: false } })
+    .select('pincode')
+    .lean();
+  let placed = 0;
+
+  for (const document of documents) {
+    const coordinates = resolvePincode(document.pincode);
+    if (!coordinates) continue;
+
+    await model.updateOne({ _id: document._id }, { $set: { location: toGeoPoint(coordinates) } });
+    placed += 1;
+  }
+
+  console.log(`${model.modelName}: placed ${placed} of ${documents.length} without a location`);
+};
+
+const backfillLocations = async (): Promise<void> => {
+  await connectDB();
+
+  for (const model of [User, BloodRequest, DonationCamp] as Model<any>[]) {
+    await backfillModel(model);
+  }
+
+  await mongoose.connection.close();
+};
+
+backfillLocations().catch(async error => {
+  console.error('Failed to backfill locations:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import BloodRequest, { URGENCY_RANK } from '../models/BloodRequest';
+import { UrgencyLevel } from '../types';
+
+// Give blood requests saved before urgency ranks existed their rank, so lists sort them by
+// severity: npm run backfill-urgency-ranks
+const backfillUrgencyRanks = async (): Promise<void> => {
+  await connectDB();
+
+  for (const [urgency, rank] of Object.entries(URGENCY_RANK) as [UrgencyLevel, number][]) {
+    const result = await BloodRequest.updateMany(
+      { urgency, urgencyRank: { $ne: rank } },
+      { $set: { urgencyRank: rank } }
+    );
+    console.log(`${urgency}: ranked ${result.modifiedCount} request(s)`);
+  }
+
+  await mongoose.connection.close();
+};
+
+backfillUrgencyRanks().catch(async error => {
+  console.error('Failed to backfill urgency ranks:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
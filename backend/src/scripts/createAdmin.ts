@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import User from '../models/User';
+
+// Promote an existing account to admin: npm run create-admin -- user@example.com
+const createAdmin = async (): Promise<void> => {
+  const email = process.argv[2]?.toLowerCase();
+
+  if (!email) {
+    console.error('Usage: npm run create-admin -- <email>');
+    process.exit(1);
+  }
+
+  await connectDB();
+
+  const user = await User.findOne({ email });
+
+  if (!user) {
+    console.error(`No user found with email ${email}`);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+
+  user.userType = 'admin';
+  user.isVerified = true;
+  user.isAvailable = false;
+  await user.save();
+
+  console.log(`${user.name} <${user.email}> is now an admin`);
+  await mongoose.connection.close();
+};
+
+createAdmin().catch(async error => {
+  console.error('Failed to create admin:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
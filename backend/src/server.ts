@@ -2,6 +2,15 @@ import app from './app';
 import connectDB from './config/database';
 import { config } from './config/config';
 import { handleUncaughtException, handleUnhandledRejection } from './middleware/errorHandler';
+import { registerNotificationProvider, consoleProvider } from './services/notificationService';
+import { initSocketServer } from './services/socketService';
+import { startScheduler, stopScheduler } from './services/scheduler';
+import { requestExpiryJob } from './services/requestExpiryJob';
+import { inventoryExpiryJob } from './services/inventoryExpiryJob';
+import { pointsRecalculationJob } from './services/pointsRecalculationJob';
+import { leaderboardJob } from './services/leaderboardJob';
+import { dataExportJob } from './services/dataExportJob';
+import { accountDeletionJob } from './services/accountDeletionJob';
 
 // Handle uncaught exceptions
 handleUncaughtException();
@@ -12,6 +21,12 @@ handleUnhandledRejection();
 // Connect to database
 connectDB();
 
+// Log SMS and push alerts in development; register real providers here in production
+if (config.nodeEnv === 'development') {
+  registerNotificationProvider('sms', consoleProvider('sms'));
+  registerNotificationProvider('push', consoleProvider('push'));
+}
+
 // Start server
 const PORT = config.port;
 
@@ -25,9 +40,16 @@ const server = app.listen(PORT, () => {
   `);
 });
 
+// Real-time blood request feed
+initSocketServer(server);
+
+// Background jobs (locked in the database, so safe to run on every instance)
+startScheduler([requestExpiryJob, inventoryExpiryJob, pointsRecalculationJob, leaderboardJob, dataExportJob, accountDeletionJob]);
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  stopScheduler();
   server.close(() => {
     console.log('Process terminated');
   });
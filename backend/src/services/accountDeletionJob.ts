@@ -0,0 +1,14 @@
+import { config } from '../config/config';
+import { runDueAccountDeletions } from './accountDeletionService';
+import { ScheduledJob } from './scheduler';
+
+export const accountDeletionJob: ScheduledJob = {
+  name: 'account-deletion',
+  intervalMs: config.accountDeletionJobIntervalMs,
+  run: async () => {
+    const anonymised = await runDueAccountDeletions();
+    if (anonymised > 0) {
+      console.log(`Account deletion job: ${anonymised} account(s) anonymised`);
+    }
+  }
+};
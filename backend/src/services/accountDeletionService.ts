@@ -0,0 +1,182 @@
+import mongoose from 'mongoose';
+import { config } from '../config/config';
+import User, { IUserDocument } from '../models/User';
+import DonationRecord from '../models/DonationRecord';
+import BloodRequest from '../models/BloodRequest';
+import Pledge from '../models/Pledge';
+import Notification from '../models/Notification';
+import Session from '../models/Session';
+import ScreeningResponse from '../models/ScreeningResponse';
+import Appointment from '../models/Appointment';
+import CampBooking from '../models/CampBooking';
+import ContactRequest from '../models/ContactRequest';
+import ContactDisclosure from '../models/ContactDisclosure';
+import { cancelPendingPledges, recordDonationCancelled } from './pledgeService';
+import { publishBloodRequestEvent } from './socketService';
+import { removeFromLeaderboards } from './leaderboardService';
+import { revokeAllSessions } from './sessionService';
+import { cancelAppointment } from './appointmentService';
+import { cancelBooking } from './campService';
+import { deleteUserExports } from './dataExportService';
+
+export const DELETED_USER_NAME = 'Deleted user';
+export const DELETED_DONOR_NAME = 'Deleted donor';
+export const WITHHELD_PATIENT_NAME = 'Withheld';
+
+// Start the grace period of an account deletion. The account leaves donor searches and
+// leaderboards at once, and every other device is logged out.
+export const requestAccountDeletion = async (user: IUserDocument, currentSessionId?: string): Promise<Date> => {
+  const scheduledFor = new Date(Date.now() + config.accountDeletionGraceDays * 24 * 60 * 60 * 1000);
+
+  user.deletionRequestedAt = new Date();
+  user.deletionScheduledFor = scheduledFor;
+  user.isAvailable = false;
+  await user.save({ validateBeforeSave: false });
+
+  await removeFromLeaderboards(user._id);
+  await revokeAllSessions(user._id.toString(), 'account_deleted', currentSessionId);
+
+  return scheduledFor;
+};
+
+// Undo a deletion request during the grace period; availability is left for the user to turn back on
+export const cancelAccountDeletion = async (user: IUserDocument): Promise<void> => {
+  user.set({ deletionRequestedAt: undefined, deletionScheduledFor: undefined });
+  await user.save({ validateBeforeSave: false });
+};
+
+// Close what the user still had open: pending donations, active blood requests, pledges, bookings
+// and contact requests
+const closeOpenActivity = async (user: IUserDocument): Promise<void> => {
+  const pendingDonations = await DonationRecord.find({ donorId: user._id, status: 'pending' });
+  for (const donation of pendingDonations) {
+    donation.status = 'cancelled';
+    await donation.save();
+    await recordDonationCancelled(donation);
+  }
+
+  await Pledge.updateMany(
+    { donorId: user._id, status: { $in: ['pending', 'accepted'] } },
+    { $set: { status: 'withdrawn', responseNote: 'Donor deleted their account', respondedAt: new Date() } }
+  );
+
+  // Active requests are cancelled; nobody is left to answer the donors who respond
+  const activeRequests = await BloodRequest.find({ requesterId: user._id, status: 'active' });
+  for (const bloodRequest of activeRequests) {
+    bloodRequest.status = 'cancelled';
+    bloodRequest.addHistory('cancelled', undefined, 'Requester deleted their account');
+    await bloodRequest.save({ validateBeforeSave: false });
+    await cancelPendingPledges(bloodRequest._id, 'Requester deleted their account');
+    publishBloodRequestEvent('bloodRequest:cancelled', bloodRequest);
+  }
+
+  const appointments = await Appointment.find({ donorId: user._id, status: 'booked' });
+  for (const appointment of appointments) {
+    await cancelAppointment(appointment, user, 'Donor deleted their account');
+  }
+
+  const bookings = await CampBooking.find({ donorId: user._id, status: { $in: ['booked', 'waitlisted'] } });
+  for (const booking of bookings) {
+    await cancelBooking(booking);
+  }
+
+  const involved = { $or: [{ requesterId: user._id }, { donorId: user._id }] };
+  await ContactRequest.updateMany({ ...involved, status: 'pending' }, { $set: { status: 'cancelled' } });
+  await ContactRequest.updateMany({ ...involved, status: 'approved' }, { $set: { status: 'revoked' } });
+};
+
+// Replace a user's personal data with placeholders once the grace period is over. Donation facts
+// (date, blood group, units, hospital, points) stay, de-identified, so stats, hospital history and
+// other donors' ranks do not change. Blood requests are kept as anonymous history.
+export const anonymiseUser = async (userId: any): Promise<void> => {
+  const user = await User.findById(userId);
+  if (!user || user.deletedAt) return;
+
+  const id = user._id as mongoose.Types.ObjectId;
+
+  await closeOpenActivity(user);
+
+  await DonationRecord.updateMany(
+    { donorId: id },
+    {
+      $set: { donorName: DELETED_DONOR_NAME },
+      $unset: { notes: 1, verificationCode: 1, verificationCodeExpires: 1 }
+    }
+  );
+
+  await BloodRequest.updateMany(
+    { requesterId: id },
+    {
+      $set: { patientName: WITHHELD_PATIENT_NAME, requesterName: DELETED_USER_NAME, contactPhone: '' },
+      $unset: { description: 1 }
+    }
+  );
+  await BloodRequest.updateMany(
+    { 'history.by': id },
+    { $set: { 'history.$[entry].byName': DELETED_USER_NAME } },
+    { arrayFilters: [{ 'entry.by': id }] }
+  );
+
+  await Pledge.updateMany({ donorId: id }, { $set: { donorName: DELETED_DONOR_NAME }, $unset: { message: 1 } });
+  await ContactRequest.updateMany({ requesterId: id }, { $set: { requesterName: DELETED_USER_NAME } });
+  await ContactRequest.updateMany(
+    { $or: [{ requesterId: id }, { donorId: id }] },
+    { $set: { messages: [] } }
+  );
+  await ContactDisclosure.updateMany({ viewerId: id }, { $set: { viewerName: DELETED_USER_NAME } });
+
+  await Promise.all([
+    ContactDisclosure.deleteMany({ userId: id }),
+    Notification.deleteMany({ userId: id }),
+    Session.deleteMany({ userId: id }),
+    ScreeningResponse.deleteMany({ donorId: id }),
+    deleteUserExports(id),
+    removeFromLeaderboards(id)
+  ]);
+
+  // The email is replaced so the address can be used to register again
+  await User.updateOne(
+    { _id: id },
+    {
+      $set: {
+        name: DELETED_USER_NAME,
+        email: `deleted-${id}@deleted.invalid`,
+        isAvailable: false,
+        leaderboardOptOut: true,
+        deletedAt: new Date()
+      },
+      $unset: {
+        phone: 1,
+        city: 1,
+        pincode: 1,
+        password: 1,
+        passwordResetToken: 1,
+        passwordResetExpires: 1,
+        googleId: 1,
+        profilePicture: 1,
+        location: 1,
+        age: 1,
+        weight: 1,
+        sex: 1,
+        deferrals: 1,
+        nextEligibleDates: 1,
+        eligibilityUpdatedAt: 1,
+        notificationPreferences: 1,
+        pushTokens: 1,
+        calendarFeedToken: 1,
+        statusReason: 1
+      }
+    }
+  );
+};
+
+// Anonymise every account whose grace period has ended; returns how many were processed
+export const runDueAccountDeletions = async (now: Date = new Date()): Promise<number> => {
+  const due = await User.find({ deletionScheduledFor: { $lte: now }, deletedAt: { $exists: false } }).select('_id');
+
+  for (const user of due) {
+    await anonymiseUser(user._id);
+  }
+
+  return due.length;
+};
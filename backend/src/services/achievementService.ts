@@ -0,0 +1,193 @@
+import Achievement, { IAchievementDocument } from '../models/Achievement';
+import BloodRequest from '../models/BloodRequest';
+import DonationRecord from '../models/DonationRecord';
+import User from '../models/User';
+import { AchievementCategory, AchievementCode, DonorTier, IDonationStreak } from '../types';
+import { notifyUserById } from './pledgeService';
+import { RARE_BLOOD_GROUPS } from './bloodCompatibility';
+
+interface AchievementDefinition {
+  category: AchievementCategory;
+  title: string;
+}
+
+interface EarnedAchievement {
+  code: AchievementCode;
+  earnedAt: Date;
+  donationRecordId: any;
+}
+
+// Called for every newly earned achievement, e.g. to notify the donor or post to a feed
+export type AchievementListener = (achievement: IAchievementDocument) => Promise<void>;
+
+export const ACHIEVEMENTS: Record<AchievementCode, AchievementDefinition> = {
+  first_donation: { category: 'milestone', title: 'First donation' },
+  donations_5: { category: 'milestone', title: '5 donations' },
+  donations_10: { category: 'milestone', title: '10 donations' },
+  donations_25: { category: 'milestone', title: '25 donations' },
+  rare_blood_hero: { category: 'milestone', title: 'Rare blood group hero' },
+  critical_responder: { category: 'milestone', title: 'Critical responder' },
+  streak_3_years: { category: 'streak', title: 'Donated 3 years in a row' },
+  streak_5_years: { category: 'streak', title: 'Donated 5 years in a row' },
+  tier_bronze: { category: 'tier', title: 'Bronze donor' },
+  tier_silver: { category: 'tier', title: 'Silver donor' },
+  tier_gold: { category: 'tier', title: 'Gold donor' },
+  tier_platinum: { category: 'tier', title: 'Platinum donor' }
+};
+
+const DONATION_MILESTONES: [number, AchievementCode][] = [
+  [1, 'first_donation'],
+  [5, 'donations_5'],
+  [10, 'donations_10'],
+  [25, 'donations_25']
+];
+
+const STREAK_MILESTONES: [number, AchievementCode][] = [
+  [3, 'streak_3_years'],
+  [5, 'streak_5_years']
+];
+
+// Points from completed donations needed for each tier, lowest first
+export const TIER_THRESHOLDS: [number, DonorTier][] = [
+  [50, 'bronze'],
+  [500, 'silver'],
+  [1500, 'gold'],
+  [3000, 'platinum']
+];
+
+const listeners: AchievementListener[] = [
+  async achievement => notifyUserById(achievement.donorId, {
+    type: 'achievement_earned',
+    title: `Achievement unlocked: ${achievement.title}`,
+    message: `You earned "${achievement.title}". Thank you for donating!`,
+    data: { achievementId: achievement._id, code: achievement.code }
+  }, `achievement:${achievement.donorId}:${achievement.code}`)
+];
+
+// Register an extra listener for newly earned achievements
+export const registerAchievementListener = (listener: AchievementListener): void => {
+  listeners.push(listener);
+};
+
+// Work out every achievement a donor's completed donations earn, with the donation that earned each,
+// plus their tier and yearly streak
+const evaluateDonations = async (donorId: any) => {
+  const donations = await DonationRecord.find({ donorId, status: 'completed' })
+    .sort({ date: 1 })
+    .select('date bloodGroup requestId points');
+
+  const requestIds = donations.filter(donation => donation.requestId).map(donation => donation.requestId);
+  const criticalRequests = requestIds.length > 0
+    ? await BloodRequest.find({ _id: { $in: requestIds }, urgency: 'critical' }).select('_id')
+    : [];
+  const criticalIds = new Set(criticalRequests.map(request => request._id.toString()));
+
+  const earned = new Map<AchievementCode, EarnedAchievement>();
+  const earn = (code: AchievementCode, donation: typeof donations[number]) => {
+    if (!earned.has(code)) {
+      earned.set(code, { code, earnedAt: donation.date, donationRecordId: donation._id });
+    }
+  };
+
+  let points = 0;
+  let tier: DonorTier | undefined;
+  const streak: IDonationStreak = { current: 0, longest: 0 };
+
+  donations.forEach((donation, index) => {
+    const count = index + 1;
+    points += donation.points || 0;
+
+    DONATION_MILESTONES
+      .filter(([needed]) => count === needed)
+      .forEach(([, code]) => earn(code, donation));
+
+    if (RARE_BLOOD_GROUPS.includes(donation.bloodGroup)) {
+      earn('rare_blood_hero', donation);
+    }
+
+    if (donation.requestId && criticalIds.has(donation.requestId.toString())) {
+      earn('critical_responder', donation);
+    }
+
+    TIER_THRESHOLDS
+      .filter(([needed]) => points >= needed)
+      .forEach(([, reached]) => {
+        tier = reached;
+        earn(`tier_${reached}` as AchievementCode, donation);
+      });
+
+    const year = donation.date.getFullYear();
+    if (year !== streak.lastYear) {
+      streak.current = streak.lastYear === year - 1 ? streak.current + 1 : 1;
+      streak.lastYear = year;
+      streak.longest = Math.max(streak.longest, streak.current);
+
+      STREAK_MILESTONES
+        .filter(([needed]) => streak.current === needed)
+        .forEach(([, code]) => earn(code, donation));
+    }
+  });
+
+  return { earned, tier, streak };
+};
+
+// Bring a donor's stored achievements, tier and streak in line with their completed donations.
+// Achievements whose donations were reversed are removed; new ones are announced to the listeners
+// unless `announce` is false.
+export const refreshAchievements = async (donorId: any, announce: boolean = true): Promise<IAchievementDocument[]> => {
+  const { earned, tier, streak } = await evaluateDonations(donorId);
+
+  // Drop achievements no longer earned, or now earned by a different donation after a reversal
+  await Achievement.deleteMany({
+    donorId,
+    ...(earned.size > 0 && {
+      $nor: Array.from(earned.values()).map(({ code, donationRecordId }) => ({ code, donationRecordId }))
+    })
+  });
+
+  // Upserts keep the original earned date and only insert achievements the donor did not have yet
+  const result = earned.size > 0
+    ? await Achievement.bulkWrite(Array.from(earned.values()).map(achievement => ({
+      updateOne: {
+        filter: { donorId, code: achievement.code },
+        update: {
+          $setOnInsert: {
+            ...achievement,
+            donorId,
+            category: ACHIEVEMENTS[achievement.code].category,
+            title: ACHIEVEMENTS[achievement.code].title
+          }
+        },
+        upsert: true
+      }
+    })))
+    : null;
+
+  await User.updateOne(
+    { _id: donorId },
+    tier ? { $set: { tier, streak } } : { $unset: { tier: 1 }, $set: { streak } }
+  );
+
+  const newIds = result ? Object.values(result.upsertedIds) : [];
+  if (newIds.length === 0) return [];
+
+  const newAchievements = await Achievement.find({ _id: { $in: newIds } }).sort({ earnedAt: 1 });
+  if (!announce) return newAchievements;
+
+  for (const achievement of newAchievements) {
+    for (const listener of listeners) {
+      try {
+        await listener(achievement);
+      } catch (error) {
+        console.error('Achievement listener error:', error);
+      }
+    }
+  }
+
+  return newAchievements;
+};
+
+// A donor's achievements for their profile, newest first
+export const getAchievements = (donorId: any): Promise<IAchievementDocument[]> => {
+  return Achievement.find({ donorId }).sort({ earnedAt: -1 });
+};
@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import Appointment from '../models/Appointment';
+import { bookAppointment } from './appointmentService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const schedule: any = {
+  hospitalId: new mongoose.Types.ObjectId(),
+  timezone: 'UTC',
+  slotMinutes: 30,
+  donorsPerSlot: 2,
+  workingHours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, openTime: '09:00', closeTime: '17:00' })),
+  isBlocked: () => false
+};
+
+const hospital: any = { _id: schedule.hospitalId, name: 'City Hospital' };
+
+const makeDonor = (): any => ({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Donor',
+  bloodGroup: 'O+',
+  hasPermanentDeferral: () => false,
+  getNextEligibleDate: () => null
+});
+
+// 10:00 UTC a few days from now
+const slotTime = (days: number): Date => {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(10, 0, 0, 0);
+  return date;
+};
+
+describe('bookAppointment', () => {
+  let booked: any[];
+
+  // Stand-in for the collection that enforces the same unique indexes as the model
+  beforeEach(() => {
+    booked = [];
+    jest.spyOn(Appointment, 'updateMany').mockResolvedValue({} as any);
+    jest.spyOn(Appointment, 'create').mockImplementation((async (doc: any) => {
+      await new Promise(resolve => setImmediate(resolve));
+
+      if (booked.some(other => other.donorId.equals(doc.donorId))) {
+        throw Object.assign(new Error('E11000 duplicate key'), { code: 11000, keyPattern: { donorId: 1 } });
+      }
+      if (booked.some(other => other.startTime.getTime() === doc.startTime.getTime() && other.slotIndex === doc.slotIndex)) {
+        throw Object.assign(new Error('E11000 duplicate key'), {
+          code: 11000,
+          keyPattern: { hospitalId: 1, startTime: 1, slotIndex: 1 }
+        });
+      }
+
+      booked.push(doc);
+      return doc;
+    }) as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps a unique index on booked appointments per donor', () => {
+    const donorIndex = Appointment.schema.indexes().find(([fields]) => Object.keys(fields).join() === 'donorId');
+
+    expect(donorIndex?.[1]).toEqual(expect.objectContaining({
+      unique: true,
+      partialFilterExpression: { status: 'booked' }
+    }));
+  });
+
+  it('books only one of two concurrent bookings by the same donor', async () => {
+    const donor = makeDonor();
+
+    const results = await Promise.allSettled([
+      bookAppointment(schedule, hospital, donor, slotTime(2)),
+      bookAppointment(schedule, hospital, donor, slotTime(3))
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [rejected] = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    expect(rejected.reason).toMatchObject({
+      statusCode: 400,
+      message: 'You already have an upcoming appointment; cancel it before booking another'
+    });
+    expect(booked).toHaveLength(1);
+  });
+
+  it('gives concurrent bookings by different donors the next free place in the slot', async () => {
+    const results = await Promise.all([
+      bookAppointment(schedule, hospital, makeDonor(), slotTime(2)),
+      bookAppointment(schedule, hospital, makeDonor(), slotTime(2))
+    ]);
+
+    expect(results.map(result => result.slotIndex).sort()).toEqual([0, 1]);
+  });
+
+  it('marks the donor\'s missed appointments as no-shows before booking', async () => {
+    const donor = makeDonor();
+
+    await bookAppointment(schedule, hospital, donor, slotTime(2));
+
+    expect(Appointment.updateMany).toHaveBeenCalledWith(
+      { donorId: donor._id, status: 'booked', endTime: { $lte: expect.any(Date) } },
+      { $set: { status: 'no_show' } }
+    );
+  });
+});
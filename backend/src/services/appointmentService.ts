@@ -0,0 +1,246 @@
+import Appointment, { IAppointmentDocument } from '../models/Appointment';
+import { IHospitalScheduleDocument } from '../models/HospitalSchedule';
+import DonationRecord from '../models/DonationRecord';
+import { IUserDocument } from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { notifyUserById } from './pledgeService';
+import { CalendarEvent } from './calendarService';
+
+export interface AppointmentSlot {
+  startTime: Date;
+  endTime: Date;
+  available: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Minutes a timezone is ahead of UTC at a given moment
+const getTimezoneOffset = (timeZone: string, at: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)!.value);
+
+  const localAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((localAsUtc - at.getTime()) / 60000);
+};
+
+// The moment a local date (YYYY-MM-DD) and time (HH:mm) in a timezone corresponds to
+export const toUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day, 0, toMinutes(time));
+  // Re-check the offset at the first guess, which differs when a DST change falls in between
+  const guess = localAsUtc - getTimezoneOffset(timeZone, new Date(localAsUtc)) * 60000;
+  return new Date(localAsUtc - getTimezoneOffset(timeZone, new Date(guess)) * 60000);
+};
+
+// The local date (YYYY-MM-DD) of a moment in a timezone
+export const toLocalDate = (at: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(at);
+
+// Start and end moments of a local date in a timezone
+export const getLocalDayRange = (date: string, timeZone: string): { start: Date; end: Date } => {
+  const [year, month, day] = date.split('-').map(Number);
+  const nextDate = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+
+  return { start: toUtc(date, '00:00', timeZone), end: toUtc(nextDate, '00:00', timeZone) };
+};
+
+// All slots the hospital offers on a local date, ignoring bookings
+const getScheduledSlots = (schedule: IHospitalScheduleDocument, date: string): { startTime: Date; endTime: Date }[] => {
+  if (schedule.isBlocked(date)) return [];
+
+  const [year, month, day] = date.split('-').map(Number);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  return schedule.workingHours
+    .filter(hours => hours.dayOfWeek === dayOfWeek)
+    .flatMap(hours => {
+      const slots = [];
+      const close = toMinutes(hours.closeTime);
+
+      for (let start = toMinutes(hours.openTime); start + schedule.slotMinutes <= close; start += schedule.slotMinutes) {
+        slots.push({
+          startTime: toUtc(date, toTime(start), schedule.timezone),
+          endTime: toUtc(date, toTime(start + schedule.slotMinutes), schedule.timezone)
+        });
+      }
+
+      return slots;
+    })
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Future slots on a local date with the number of places still free in each
+export const getAvailableSlots = async (schedule: IHospitalScheduleDocument, date: string): Promise<AppointmentSlot[]> => {
+  const now = new Date();
+  const slots = getScheduledSlots(schedule, date).filter(slot => slot.startTime > now);
+  if (slots.length === 0) return [];
+
+  const booked = await Appointment.aggregate([
+    {
+      $match: {
+        hospitalId: schedule.hospitalId,
+        status: 'booked',
+        startTime: { $gte: slots[0].startTime, $lte: slots[slots.length - 1].startTime }
+      }
+    },
+    { $group: { _id: '$startTime', count: { $sum: 1 } } }
+  ]);
+  const bookedBySlot = new Map<number, number>(booked.map(({ _id, count }) => [new Date(_id).getTime(), count]));
+
+  return slots.map(slot => ({
+    ...slot,
+    available: Math.max(schedule.donorsPerSlot - (bookedBySlot.get(slot.startTime.getTime()) || 0), 0)
+  }));
+};
+
+// Book a donor into a hospital slot. Each place in a slot and each donor's booking is a unique
+// index entry, so two concurrent bookings can never take the same place or both go to one donor.
+export const bookAppointment = async (
+  schedule: IHospitalScheduleDocument,
+  hospital: IUserDocument,
+  donor: IUserDocument,
+  startTime: Date,
+  notes?: string
+): Promise<IAppointmentDocument> => {
+  if (startTime <= new Date()) {
+    throw new AppError('Appointments must be in the future', 400);
+  }
+
+  if (donor.hasPermanentDeferral()) {
+    throw new AppError('You have been permanently deferred from donating blood', 403);
+  }
+
+  const nextEligibleDate = donor.getNextEligibleDate();
+  if (nextEligibleDate && startTime < nextEligibleDate) {
+    throw new AppError(`You can book appointments from ${nextEligibleDate.toDateString()}, after the wait since your last donation and any deferral`, 400);
+  }
+
+  const date = toLocalDate(startTime, schedule.timezone);
+
+  if (schedule.isBlocked(date)) {
+    throw new AppError('The hospital is not taking appointments on this date', 400);
+  }
+
+  const slot = getScheduledSlots(schedule, date).find(scheduled => scheduled.startTime.getTime() === startTime.getTime());
+
+  if (!slot) {
+    throw new AppError('The hospital has no appointment slot at this time', 400);
+  }
+
+  // Appointments that ended without a check-in were missed; they no longer hold the donor's booking
+  await Appointment.updateMany(
+    { donorId: donor._id, status: 'booked', endTime: { $lte: new Date() } },
+    { $set: { status: 'no_show' } }
+  );
+
+  for (let slotIndex = 0; slotIndex < schedule.donorsPerSlot; slotIndex++) {
+    try {
+      return await Appointment.create({
+        hospitalId: hospital._id,
+        hospitalName: hospital.name,
+        donorId: donor._id,
+        donorName: donor.name,
+        bloodGroup: donor.bloodGroup,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        slotIndex,
+        notes
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      // A donor holds one booked appointment at a time, also when two bookings race
+      if (error.keyPattern?.donorId) {
+        throw new AppError('You already have an upcoming appointment; cancel it before booking another', 400);
+      }
+      // This place is taken, try the next one
+    }
+  }
+
+  throw new AppError('This slot is fully booked', 409);
+};
+
+// Cancel a booked appointment, letting the donor know when the hospital cancelled it
+export const cancelAppointment = async (
+  appointment: IAppointmentDocument,
+  user: IUserDocument,
+  reason?: string
+): Promise<IAppointmentDocument | null> => {
+  const cancelled = await Appointment.findOneAndUpdate(
+    { _id: appointment._id, status: 'booked' },
+    { $set: { status: 'cancelled', cancelledBy: user._id, cancelReason: reason } },
+    { new: true }
+  );
+
+  if (cancelled && cancelled.hospitalId.toString() === user._id.toString()) {
+    await notifyUserById(cancelled.donorId, {
+      type: 'appointment_cancelled',
+      title: 'Your donation appointment was cancelled',
+      message: `${cancelled.hospitalName} cancelled your appointment on ${cancelled.startTime.toDateString()}` +
+        (reason ? `: ${reason}` : '.'),
+      data: { appointmentId: cancelled._id }
+    }, `appointment:${cancelled._id}:cancelled`);
+  }
+
+  return cancelled;
+};
+
+// Mark a donor as arrived and open a pending donation record in the hospital's verification queue
+export const checkInAppointment = async (
+  appointment: IAppointmentDocument,
+  hospital: IUserDocument
+): Promise<IAppointmentDocument> => {
+  const claimed = await Appointment.findOneAndUpdate(
+    { _id: appointment._id, status: 'booked' },
+    { $set: { status: 'completed' } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    throw new AppError('Only booked appointments can be checked in', 400);
+  }
+
+  const donationRecord = await DonationRecord.create({
+    donorId: claimed.donorId,
+    donorName: claimed.donorName,
+    bloodGroup: claimed.bloodGroup,
+    hospital: hospital.name,
+    hospitalId: hospital._id,
+    city: hospital.city,
+    unitsContributed: 1,
+    notes: 'Donated at a booked appointment'
+  });
+
+  claimed.set('donationRecordId', donationRecord._id);
+  await claimed.save();
+
+  return claimed;
+};
+
+// Calendar entry for an appointment
+export const toCalendarEvent = (appointment: IAppointmentDocument): CalendarEvent => ({
+  uid: `appointment-${appointment._id}@bloodbuddy`,
+  start: appointment.startTime,
+  end: appointment.endTime,
+  summary: `Blood donation at ${appointment.hospitalName}`,
+  description: 'Bring a photo ID, eat beforehand and drink plenty of water.' +
+    (appointment.notes ? `\n\nNotes: ${appointment.notes}` : ''),
+  location: appointment.hospitalName,
+  cancelled: appointment.status === 'cancelled',
+  updatedAt: appointment.updatedAt
+});
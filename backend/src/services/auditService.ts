@@ -0,0 +1,37 @@
+import { Request } from 'express';
+import AuditLog, { IAuditLogDocument } from '../models/AuditLog';
+import { IUserDocument } from '../models/User';
+import { AuditAction, AuditTargetType } from '../types';
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: any;
+  reason?: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+}
+
+// Copy the given fields of a document, for the before/after snapshot of an audit entry
+export const pickFields = (doc: any, fields: string[]): Record<string, any> => {
+  return fields.reduce<Record<string, any>>((snapshot, field) => {
+    snapshot[field] = doc?.[field];
+    return snapshot;
+  }, {});
+};
+
+// Record an action taken by the admin making the request
+export const recordAudit = (req: Request, entry: AuditEntry): Promise<IAuditLogDocument> => {
+  const admin = req.user as IUserDocument;
+
+  return AuditLog.create({
+    adminId: admin._id,
+    adminName: admin.name,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    reason: entry.reason,
+    changes: { before: entry.before, after: entry.after },
+    ipAddress: req.ip
+  });
+};
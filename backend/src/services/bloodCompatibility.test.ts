@@ -0,0 +1,105 @@
+import {
+  BLOOD_COMPONENTS,
+  BLOOD_GROUPS,
+  DEFAULT_BLOOD_COMPONENT,
+  getCompatibleDonorGroups,
+  getCompatibleRecipientGroups,
+  isCompatible
+} from './bloodCompatibility';
+import { BloodComponent, BloodGroup } from '../types';
+
+// Donor groups each recipient group can receive, per component
+const EXPECTED_DONORS: Record<BloodComponent, Record<BloodGroup, BloodGroup[]>> = {
+  whole_blood: {
+    'O-': ['O-'],
+    'O+': ['O+', 'O-'],
+    'A-': ['A-'],
+    'A+': ['A+', 'A-'],
+    'B-': ['B-'],
+    'B+': ['B+', 'B-'],
+    'AB-': ['AB-'],
+    'AB+': ['AB+', 'AB-']
+  },
+  red_cells: {
+    'O-': ['O-'],
+    'O+': ['O+', 'O-'],
+    'A-': ['A-', 'O-'],
+    'A+': ['A+', 'A-', 'O+', 'O-'],
+    'B-': ['B-', 'O-'],
+    'B+': ['B+', 'B-', 'O+', 'O-'],
+    'AB-': ['AB-', 'A-', 'B-', 'O-'],
+    'AB+': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-']
+  },
+  plasma: {
+    'O-': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'],
+    'O+': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'],
+    'A-': ['A-', 'A+', 'AB-', 'AB+'],
+    'A+': ['A-', 'A+', 'AB-', 'AB+'],
+    'B-': ['B-', 'B+', 'AB-', 'AB+'],
+    'B+': ['B-', 'B+', 'AB-', 'AB+'],
+    'AB-': ['AB-', 'AB+'],
+    'AB+': ['AB-', 'AB+']
+  },
+  platelets: {
+    'O-': ['O-', 'A-', 'B-', 'AB-'],
+    'O+': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'],
+    'A-': ['A-', 'AB-'],
+    'A+': ['A-', 'A+', 'AB-', 'AB+'],
+    'B-': ['B-', 'AB-'],
+    'B+': ['B-', 'B+', 'AB-', 'AB+'],
+    'AB-': ['AB-'],
+    'AB+': ['AB-', 'AB+']
+  }
+};
+
+const cases = BLOOD_COMPONENTS.flatMap(component =>
+  BLOOD_GROUPS.flatMap(recipient =>
+    BLOOD_GROUPS.map(donor => ({
+      component,
+      recipient,
+      donor,
+      expected: EXPECTED_DONORS[component][recipient].includes(donor)
+    }))
+  )
+);
+
+describe('isCompatible', () => {
+  it.each(cases)('$component: $donor to $recipient is $expected', ({ component, recipient, donor, expected }) => {
+    expect(isCompatible(donor, recipient, component)).toBe(expected);
+  });
+
+  it.each(BLOOD_GROUPS)('defaults to the default component for recipient %s', recipient => {
+    BLOOD_GROUPS.forEach(donor => {
+      expect(isCompatible(donor, recipient)).toBe(isCompatible(donor, recipient, DEFAULT_BLOOD_COMPONENT));
+    });
+  });
+});
+
+describe('getCompatibleDonorGroups', () => {
+  const recipients = BLOOD_COMPONENTS.flatMap(component => BLOOD_GROUPS.map(recipient => ({ component, recipient })));
+
+  it.each(recipients)('$component for $recipient lists the compatible groups, exact match first', ({ component, recipient }) => {
+    const groups = getCompatibleDonorGroups(recipient, component);
+
+    expect([...groups].sort()).toEqual([...EXPECTED_DONORS[component][recipient]].sort());
+    expect(groups[0]).toBe(recipient);
+  });
+
+  it('defaults to the default component', () => {
+    BLOOD_GROUPS.forEach(recipient => {
+      expect(getCompatibleDonorGroups(recipient)).toEqual(getCompatibleDonorGroups(recipient, DEFAULT_BLOOD_COMPONENT));
+    });
+  });
+});
+
+describe('getCompatibleRecipientGroups', () => {
+  const donors = BLOOD_COMPONENTS.flatMap(component => BLOOD_GROUPS.map(donor => ({ component, donor })));
+
+  it.each(donors)('$component from $donor lists every recipient that can receive it', ({ component, donor }) => {
+    const expected = BLOOD_GROUPS.filter(recipient => EXPECTED_DONORS[component][recipient].includes(donor));
+    const groups = getCompatibleRecipientGroups(donor, component);
+
+    expect([...groups].sort()).toEqual([...expected].sort());
+    expect(groups[0]).toBe(donor);
+  });
+});
@@ -0,0 +1,105 @@
+import { BloodGroup, BloodComponent } from '../types';
+
+export const BLOOD_GROUPS: BloodGroup[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+export const BLOOD_COMPONENTS: BloodComponent[] = ['whole_blood', 'red_cells', 'plasma', 'platelets'];
+
+// Component assumed when a request or search does not name one
+export const DEFAULT_BLOOD_COMPONENT: BloodComponent = 'red_cells';
+
+// Rhesus-negative groups, each carried by only a small share of donors
+export const RARE_BLOOD_GROUPS: BloodGroup[] = ['A-', 'B-', 'AB-', 'O-'];
+
+type AboGroup = 'A' | 'B' | 'AB' | 'O';
+
+// Which donor ABO groups each recipient ABO group can receive, per component.
+// Red cells: donor cells must carry no antigen the recipient lacks.
+// Plasma: donor plasma must carry no antibody against the recipient's cells (the reverse of red cells).
+// Whole blood carries both cells and plasma, so it must be ABO-identical.
+// Platelets are suspended in plasma, so they follow the plasma table.
+const ABO_DONORS: Record<BloodComponent, Record<AboGroup, AboGroup[]>> = {
+  whole_blood: {
+    O: ['O'],
+    A: ['A'],
+    B: ['B'],
+    AB: ['AB']
+  },
+  red_cells: {
+    O: ['O'],
+    A: ['A', 'O'],
+    B: ['B', 'O'],
+    AB: ['AB', 'A', 'B', 'O']
+  },
+  plasma: {
+    O: ['O', 'A', 'B', 'AB'],
+    A: ['A', 'AB'],
+    B: ['B', 'AB'],
+    AB: ['AB']
+  },
+  platelets: {
+    O: ['O', 'A', 'B', 'AB'],
+    A: ['A', 'AB'],
+    B: ['B', 'AB'],
+    AB: ['AB']
+  }
+};
+
+// Whether an Rh-negative recipient must receive Rh-negative product.
+// Plasma is cell-free so Rh does not matter; everything else carries red cells.
+const RH_RESTRICTED: Record<BloodComponent, boolean> = {
+  whole_blood: true,
+  red_cells: true,
+  plasma: false,
+  platelets: true
+};
+
+const splitGroup = (group: BloodGroup): { abo: AboGroup; rhPositive: boolean } => ({
+  abo: group.slice(0, -1) as AboGroup,
+  rhPositive: group.endsWith('+')
+});
+
+// Check if a donor's blood group can be given to a recipient for a component
+export const isCompatible = (
+  donor: BloodGroup,
+  recipient: BloodGroup,
+  component: BloodComponent = DEFAULT_BLOOD_COMPONENT
+): boolean => {
+  const d = splitGroup(donor);
+  const r = splitGroup(recipient);
+
+  if (!ABO_DONORS[component][r.abo].includes(d.abo)) return false;
+  if (RH_RESTRICTED[component] && d.rhPositive && !r.rhPositive) return false;
+
+  return true;
+};
+
+// How good a compatible match is: 0 is an exact match, higher is a less preferred substitute
+export const matchRank = (donor: BloodGroup, recipient: BloodGroup): number => {
+  if (donor === recipient) return 0;
+
+  const d = splitGroup(donor);
+  const r = splitGroup(recipient);
+
+  if (d.abo === r.abo) return 1;
+  if (d.rhPositive === r.rhPositive) return 2;
+  return 3;
+};
+
+// Blood groups that can donate a component to a recipient, best matches first
+export const getCompatibleDonorGroups = (
+  recipient: BloodGroup,
+  component: BloodComponent = DEFAULT_BLOOD_COMPONENT
+): BloodGroup[] => {
+  return BLOOD_GROUPS
+    .filter(donor => isCompatible(donor, recipient, component))
+    .sort((a, b) => matchRank(a, recipient) - matchRank(b, recipient));
+};
+
+// Blood groups a donor can give a component to, exact match first
+export const getCompatibleRecipientGroups = (
+  donor: BloodGroup,
+  component: BloodComponent = DEFAULT_BLOOD_COMPONENT
+): BloodGroup[] => {
+  return BLOOD_GROUPS
+    .filter(recipient => isCompatible(donor, recipient, component))
+    .sort((a, b) => matchRank(donor, a) - matchRank(donor, b));
+};
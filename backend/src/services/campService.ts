@@ -0,0 +1,180 @@
+import DonationCamp, { IDonationCampDocument } from '../models/DonationCamp';
+import CampBooking, { ICampBookingDocument } from '../models/CampBooking';
+import DonationRecord from '../models/DonationRecord';
+import User, { IUserDocument } from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { notifyUserById } from './pledgeService';
+
+const ACTIVE_BOOKING_STATUSES = ['booked', 'waitlisted'];
+
+const formatSlot = (camp: IDonationCampDocument, slotId: any): string => {
+  const slot = camp.slots.id(slotId);
+  const date = camp.date.toDateString();
+  return slot ? `${date}, ${slot.startTime}-${slot.endTime}` : date;
+};
+
+// Hand a freed place to the longest-waiting donor, or return it to the slot when nobody is waiting
+const releasePlace = async (campId: any, slotId: any): Promise<void> => {
+  const promoted = await CampBooking.findOneAndUpdate(
+    { campId, slotId, status: 'waitlisted' },
+    { $set: { status: 'booked' } },
+    { new: true, sort: { createdAt: 1 } }
+  );
+
+  if (!promoted) {
+    await DonationCamp.updateOne(
+      { _id: campId, 'slots._id': slotId },
+      { $inc: { 'slots.$.remaining': 1 } }
+    );
+    return;
+  }
+
+  const camp = await DonationCamp.findById(campId);
+  if (!camp) return;
+
+  await notifyUserById(promoted.donorId, {
+    type: 'camp_waitlist_promoted',
+    title: 'Your camp slot is confirmed',
+    message: `A place opened up at ${camp.name} (${formatSlot(camp, slotId)}). You are now booked.`,
+    data: { campId: camp._id, bookingId: promoted._id }
+  }, `camp-promoted:${promoted._id}`);
+};
+
+// Book a slot for a donor, joining the waitlist when the slot is full
+export const bookSlot = async (
+  camp: IDonationCampDocument,
+  slotId: string,
+  donor: IUserDocument
+): Promise<ICampBookingDocument> => {
+  if (!camp.isOpenForBooking()) {
+    throw new AppError('This camp is no longer open for booking', 400);
+  }
+
+  if (!camp.slots.id(slotId)) {
+    throw new AppError('Slot not found', 404);
+  }
+
+  const existing = await CampBooking.exists({
+    campId: camp._id,
+    donorId: donor._id,
+    status: { $in: ACTIVE_BOOKING_STATUSES }
+  });
+
+  if (existing) {
+    throw new AppError('You already have a booking at this camp', 400);
+  }
+
+  // Take a place only if one is free, so concurrent bookings cannot overfill the slot
+  const reserved = await DonationCamp.findOneAndUpdate(
+    { _id: camp._id, status: 'scheduled', slots: { $elemMatch: { _id: slotId, remaining: { $gt: 0 } } } },
+    { $inc: { 'slots.$.remaining': -1 } }
+  );
+
+  try {
+    return await CampBooking.create({
+      campId: camp._id,
+      slotId,
+      donorId: donor._id,
+      donorName: donor.name,
+      bloodGroup: donor.bloodGroup,
+      status: reserved ? 'booked' : 'waitlisted'
+    });
+  } catch (error: any) {
+    // The place taken above is not used, so it goes back to the waitlist or the slot
+    if (reserved) {
+      await releasePlace(camp._id, slotId);
+    }
+
+    // A concurrent request from the same donor got its booking in first
+    if (error.code === 11000) {
+      throw new AppError('You already have a booking at this camp', 400);
+    }
+    throw error;
+  }
+};
+
+// Cancel a donor's booking, passing a booked place on to the waitlist
+export const cancelBooking = async (booking: ICampBookingDocument): Promise<ICampBookingDocument | null> => {
+  const cancelled = await CampBooking.findOneAndUpdate(
+    { _id: booking._id, status: { $in: ACTIVE_BOOKING_STATUSES } },
+    { $set: { status: 'cancelled' } },
+    { new: true }
+  );
+
+  if (cancelled && booking.status === 'booked') {
+    await releasePlace(cancelled.campId, cancelled.slotId);
+  }
+
+  return cancelled;
+};
+
+// Check a booked donor in at the camp and open a pending donation record for the organiser to verify
+export const checkInBooking = async (
+  camp: IDonationCampDocument,
+  booking: ICampBookingDocument
+): Promise<ICampBookingDocument> => {
+  const donor = await User.findById(booking.donorId);
+
+  if (!donor) {
+    throw new AppError('Donor not found', 404);
+  }
+
+  if (donor.hasPermanentDeferral()) {
+    throw new AppError('Donor is permanently deferred from donating', 400);
+  }
+
+  const nextEligibleDate = donor.getNextEligibleDate();
+  if (nextEligibleDate) {
+    throw new AppError(`Donor cannot donate until ${nextEligibleDate.toDateString()}`, 400);
+  }
+
+  // Claim the booking first so a double check-in cannot create two records
+  const claimed = await CampBooking.findOneAndUpdate(
+    { _id: booking._id, status: 'booked' },
+    { $set: { status: 'checked_in', checkedInAt: new Date() } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    throw new AppError('Only booked donors can be checked in', 400);
+  }
+
+  const organizer = await User.findById(camp.organizerId).select('userType');
+
+  const donationRecord = await DonationRecord.create({
+    donorId: donor._id,
+    donorName: donor.name,
+    bloodGroup: donor.bloodGroup,
+    hospital: camp.organizerName,
+    hospitalId: organizer?.userType === 'hospital' ? organizer._id : undefined,
+    campId: camp._id,
+    city: camp.city,
+    unitsContributed: 1,
+    notes: `Donated at ${camp.name}`
+  });
+
+  claimed.set('donationRecordId', donationRecord._id);
+  await claimed.save();
+
+  return claimed;
+};
+
+// Cancel a camp and let every donor holding a booking know
+export const cancelCamp = async (camp: IDonationCampDocument): Promise<void> => {
+  camp.status = 'cancelled';
+  await camp.save();
+
+  const bookings = await CampBooking.find({ campId: camp._id, status: { $in: ACTIVE_BOOKING_STATUSES } });
+
+  await CampBooking.updateMany(
+    { campId: camp._id, status: { $in: ACTIVE_BOOKING_STATUSES } },
+    { $set: { status: 'cancelled' } }
+  );
+
+  await Promise.all(bookings.map(booking => notifyUserById(booking.donorId, {
+    type: 'camp_cancelled',
+    title: 'Donation camp cancelled',
+    message: `${camp.name} on ${camp.date.toDateString()} has been cancelled.`,
+    data: { campId: camp._id, bookingId: booking._id }
+  }, `camp-cancelled:${booking._id}`)));
+};
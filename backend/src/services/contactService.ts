@@ -0,0 +1,74 @@
+import { Request } from 'express';
+import ContactDisclosure from '../models/ContactDisclosure';
+import ContactRequest from '../models/ContactRequest';
+import { IUserDocument } from '../models/User';
+import { ContactDisclosureReason } from '../types';
+import { pickFields } from './auditService';
+
+// What anyone may see of another user. Contact details, exact location and health data are left
+// out; donors share their number only by approving a contact request.
+export const PUBLIC_PROFILE_FIELDS = [
+  '_id',
+  'name',
+  'userType',
+  'bloodGroup',
+  'city',
+  'pincode',
+  'isAvailable',
+  'isVerified',
+  'donationCount',
+  'tier',
+  'profilePicture',
+  'createdAt',
+  // Added by the donor searches
+  'distanceKm',
+  'matchRank'
+];
+
+export const CONTACT_FIELDS = ['phone'];
+
+// Projection for populating another user with only their public fields
+export const PUBLIC_PROFILE_SELECT = PUBLIC_PROFILE_FIELDS.join(' ');
+
+// A user document or search result reduced to its public fields
+export const toPublicProfile = (user: any): Record<string, any> => {
+  const source = typeof user?.toJSON === 'function' ? user.toJSON() : user;
+  const profile = pickFields(source, PUBLIC_PROFILE_FIELDS);
+
+  Object.keys(profile)
+    .filter(field => profile[field] === undefined)
+    .forEach(field => delete profile[field]);
+
+  return profile;
+};
+
+export interface DisclosureEntry {
+  reason: ContactDisclosureReason;
+  contactRequestId?: any;
+  fields?: string[];
+}
+
+// Log that a user's contact details were shown to the user making the request
+export const recordDisclosure = async (req: Request, userId: any, entry: DisclosureEntry): Promise<void> => {
+  const viewer = req.user as IUserDocument;
+
+  await ContactDisclosure.create({
+    userId,
+    viewerId: viewer._id,
+    viewerName: viewer.name,
+    reason: entry.reason,
+    contactRequestId: entry.contactRequestId,
+    fields: entry.fields || CONTACT_FIELDS,
+    ipAddress: req.ip
+  });
+};
+
+// Mark pending contact requests the donor did not answer in time as expired
+export const expireContactRequests = async (filter: Record<string, any> = {}): Promise<number> => {
+  const result = await ContactRequest.updateMany(
+    { ...filter, status: 'pending', expiresAt: { $lte: new Date() } },
+    { $set: { status: 'expired' } }
+  );
+
+  return result.modifiedCount;
+};
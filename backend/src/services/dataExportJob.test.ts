@@ -0,0 +1,48 @@
+import DataExport from '../models/DataExport';
+import { config } from '../config/config';
+import { processDataExport } from './dataExportService';
+import { runNextDataExport } from './dataExportJob';
+
+jest.mock('./dataExportService', () => ({
+  processDataExport: jest.fn().mockResolvedValue(undefined),
+  purgeExpiredExports: jest.fn().mockResolvedValue(0)
+}));
+
+describe('runNextDataExport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(processDataExport).mockClear();
+  });
+
+  it('claims queued exports and ones left processing past the timeout', async () => {
+    const claim = jest.spyOn(DataExport, 'findOneAndUpdate').mockResolvedValue(null);
+    const before = Date.now();
+
+    expect(await runNextDataExport()).toBe(false);
+
+    const [filter, update] = claim.mock.calls[0] as any[];
+    const { $or: [queued, stale] } = filter;
+    expect(queued).toEqual({ status: 'pending' });
+    expect(stale.status).toBe('processing');
+    expect(before - stale.startedAt.$lte.getTime()).toBeGreaterThanOrEqual(config.dataExportTimeoutMinutes * 60 * 1000);
+    expect(update.$set).toEqual({ status: 'processing', startedAt: expect.any(Date) });
+  });
+
+  it('builds the claimed export', async () => {
+    const dataExport = { set: jest.fn(), save: jest.fn() };
+    jest.spyOn(DataExport, 'findOneAndUpdate').mockResolvedValue(dataExport as any);
+
+    expect(await runNextDataExport()).toBe(true);
+    expect(processDataExport).toHaveBeenCalledWith(dataExport);
+  });
+
+  it('marks an export failed when building it throws', async () => {
+    const dataExport = { set: jest.fn(), save: jest.fn().mockResolvedValue(undefined) };
+    jest.spyOn(DataExport, 'findOneAndUpdate').mockResolvedValue(dataExport as any);
+    jest.mocked(processDataExport).mockRejectedValueOnce(new Error('disk full'));
+
+    expect(await runNextDataExport()).toBe(true);
+    expect(dataExport.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', error: 'disk full' }));
+    expect(dataExport.save).toHaveBeenCalled();
+  });
+});
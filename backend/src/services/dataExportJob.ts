@@ -0,0 +1,48 @@
+import { config } from '../config/config';
+import DataExport from '../models/DataExport';
+import { processDataExport, purgeExpiredExports } from './dataExportService';
+import { ScheduledJob } from './scheduler';
+
+// Build the oldest queued data export, if any; returns whether one was run. An export still
+// processing after the timeout was left behind by a crashed run and is built again.
+export const runNextDataExport = async (): Promise<boolean> => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - config.dataExportTimeoutMinutes * 60 * 1000);
+
+  const dataExport = await DataExport.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending' },
+        { status: 'processing', startedAt: { $lte: staleBefore } }
+      ]
+    },
+    { $set: { status: 'processing', startedAt: now } },
+    { new: true, sort: { createdAt: 1 } }
+  );
+
+  if (!dataExport) return false;
+
+  try {
+    await processDataExport(dataExport);
+  } catch (error: any) {
+    dataExport.set({ status: 'failed', error: error.message, completedAt: new Date() });
+    await dataExport.save();
+  }
+
+  return true;
+};
+
+export const dataExportJob: ScheduledJob = {
+  name: 'data-exports',
+  intervalMs: config.dataExportJobIntervalMs,
+  run: async () => {
+    while (await runNextDataExport()) {
+      console.log('Data export job: export finished');
+    }
+
+    const purged = await purgeExpiredExports();
+    if (purged > 0) {
+      console.log(`Data export job: deleted ${purged} expired export(s)`);
+    }
+  }
+};
@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { config } from '../config/config';
+import User from '../models/User';
+import DonationRecord from '../models/DonationRecord';
+import BloodRequest from '../models/BloodRequest';
+import Pledge from '../models/Pledge';
+import Notification from '../models/Notification';
+import Session from '../models/Session';
+import Achievement from '../models/Achievement';
+import ScreeningResponse from '../models/ScreeningResponse';
+import Appointment from '../models/Appointment';
+import CampBooking from '../models/CampBooking';
+import OrganisationMember from '../models/OrganisationMember';
+import ContactRequest from '../models/ContactRequest';
+import ContactDisclosure from '../models/ContactDisclosure';
+import DataExport, { IDataExportDocument } from '../models/DataExport';
+import { createZip } from './zipService';
+import { notifyUserById } from './pledgeService';
+
+const BUCKET_NAME = 'dataexports';
+
+// Credentials and one-time codes are never exported
+const SECRET_USER_FIELDS = [
+  'password',
+  'passwordResetToken',
+  'passwordResetExpires',
+  'calendarFeedToken',
+  'pushTokens'
+];
+
+// Each section becomes <name>.json and <name>.csv in the zip
+const EXPORT_SECTIONS: Record<string, (userId: mongoose.Types.ObjectId) => Promise<any[]>> = {
+  donations: userId => DonationRecord.find({ donorId: userId }).sort({ date: -1 }),
+  blood_requests: userId => BloodRequest.find({ requesterId: userId }).sort({ createdAt: -1 }),
+  pledges: userId => Pledge.find({ donorId: userId }).sort({ createdAt: -1 }),
+  notifications: userId => Notification.find({ userId }).sort({ createdAt: -1 }),
+  sessions: userId => Session.find({ userId }).select('-currentJti').sort({ createdAt: -1 }),
+  achievements: userId => Achievement.find({ donorId: userId }).sort({ earnedAt: -1 }),
+  screening_responses: userId => ScreeningResponse.find({ donorId: userId }).sort({ createdAt: -1 }),
+  appointments: userId => Appointment.find({ donorId: userId }).sort({ createdAt: -1 }),
+  camp_bookings: userId => CampBooking.find({ donorId: userId }).sort({ createdAt: -1 }),
+  organisation_memberships: userId => OrganisationMember.find({ userId }).populate('organisationId', 'name type city'),
+  contact_requests: userId => ContactRequest.find({ $or: [{ requesterId: userId }, { donorId: userId }] }).sort({ createdAt: -1 }),
+  contact_access_log: userId => ContactDisclosure.find({ userId }).sort({ createdAt: -1 })
+};
+
+const COUNTED_SECTIONS: Record<string, (userId: mongoose.Types.ObjectId) => Promise<number>> = {
+  donations: userId => DonationRecord.countDocuments({ donorId: userId }),
+  blood_requests: userId => BloodRequest.countDocuments({ requesterId: userId }),
+  pledges: userId => Pledge.countDocuments({ donorId: userId }),
+  notifications: userId => Notification.countDocuments({ userId }),
+  sessions: userId => Session.countDocuments({ userId }),
+  contact_requests: userId => ContactRequest.countDocuments({ $or: [{ requesterId: userId }, { donorId: userId }] })
+};
+
+const toPlain = (doc: any): Record<string, any> => {
+  return JSON.parse(JSON.stringify(typeof doc?.toJSON === 'function' ? doc.toJSON() : doc));
+};
+
+// Flatten nested objects into dotted column names; arrays are kept as JSON in one cell
+const flatten = (value: Record<string, any>, prefix = '', row: Record<string, string> = {}): Record<string, string> => {
+  Object.entries(value).forEach(([key, field]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (field && typeof field === 'object' && !Array.isArray(field)) {
+      flatten(field, column, row);
+    } else if (Array.isArray(field)) {
+      row[column] = JSON.stringify(field);
+    } else {
+      row[column] = field === null || field === undefined ? '' : String(field);
+    }
+  });
+
+  return row;
+};
+
+const escapeCsv = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// RFC 4180 CSV with a header row holding every column seen in the rows
+export const toCsv = (rows: Record<string, any>[]): string => {
+  const flatRows = rows.map(row => flatten(row));
+  const columns = Array.from(new Set(flatRows.flatMap(row => Object.keys(row))));
+  const lines = [
+    columns.map(escapeCsv).join(','),
+    ...flatRows.map(row => columns.map(column => escapeCsv(row[column] ?? '')).join(','))
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+// How many records an export of this user would hold, to decide whether to build it in the background
+export const countUserRecords = async (userId: any): Promise<number> => {
+  const counts = await Promise.all(
+    Object.values(COUNTED_SECTIONS).map(count => count(new mongoose.Types.ObjectId(String(userId))))
+  );
+
+  return counts.reduce((total, count) => total + count, 1);
+};
+
+// Build the zip of everything held about a user
+export const buildUserExport = async (userId: any): Promise<{ zip: Buffer; records: number }> => {
+  const id = new mongoose.Types.ObjectId(String(userId));
+  const user = await User.findById(id);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // toObject rather than toJSON, so medical details such as deferrals are included
+  const profile = toPlain(user.toObject({ virtuals: true }));
+  SECRET_USER_FIELDS.forEach(field => delete profile[field]);
+  delete profile.id;
+
+  const files = [
+    { name: 'profile.json', content: JSON.stringify(profile, null, 2) },
+    { name: 'profile.csv', content: toCsv([profile]) }
+  ];
+  let records = 1;
+
+  for (const [name, load] of Object.entries(EXPORT_SECTIONS)) {
+    const rows = (await load(id)).map(toPlain);
+    records += rows.length;
+    files.push(
+      { name: `${name}.json`, content: JSON.stringify(rows, null, 2) },
+      { name: `${name}.csv`, content: toCsv(rows) }
+    );
+  }
+
+  return { zip: createZip(files), records };
+};
+
+export const exportFileName = (date: Date = new Date()): string => {
+  return `blood-buddy-export-${date.toISOString().slice(0, 10)}.zip`;
+};
+
+const getBucket = () => new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: BUCKET_NAME });
+
+// Build a queued export, store it and send the user a download link that expires
+export const processDataExport = async (dataExport: IDataExportDocument): Promise<void> => {
+  const { zip, records } = await buildUserExport(dataExport.userId);
+  const fileName = exportFileName();
+
+  const upload = getBucket().openUploadStream(fileName, { metadata: { userId: dataExport.userId, exportId: dataExport._id } });
+  await new Promise<void>((resolve, reject) => {
+    Readable.from([zip]).pipe(upload).on('finish', () => resolve()).on('error', reject);
+  });
+
+  const token = dataExport.createDownloadToken();
+  dataExport.set({
+    status: 'ready',
+    fileId: upload.id,
+    fileName,
+    size: zip.length,
+    records,
+    expiresAt: new Date(Date.now() + config.dataExportExpireHours * 60 * 60 * 1000),
+    completedAt: new Date()
+  });
+  await dataExport.save();
+
+  await notifyUserById(dataExport.userId, {
+    type: 'data_export_ready',
+    title: 'Your data export is ready',
+    message: `Download it within ${config.dataExportExpireHours} hours: ${config.apiUrl}/api/users/exports/${token}`,
+    data: { exportId: dataExport._id, expiresAt: dataExport.expiresAt }
+  }, `data-export:${dataExport._id}:ready`);
+};
+
+// Find a ready export by the token in its download link
+export const findExportByToken = (token: string) => {
+  const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+  return DataExport.findOne({ downloadToken: hashedToken, status: 'ready', expiresAt: { $gt: new Date() } });
+};
+
+export const openExportDownload = (dataExport: IDataExportDocument) => {
+  return getBucket().openDownloadStream(dataExport.fileId!);
+};
+
+// Delete the files of exports whose link has expired
+export const purgeExpiredExports = async (): Promise<number> => {
+  const expired = await DataExport.find({ status: 'ready', expiresAt: { $lte: new Date() } });
+
+  for (const dataExport of expired) {
+    if (dataExport.fileId) {
+      await getBucket().delete(dataExport.fileId).catch(() => undefined);
+    }
+    dataExport.set({ status: 'expired', fileId: undefined });
+    await dataExport.save();
+  }
+
+  return expired.length;
+};
+
+// Delete all of a user's exports and their files, e.g. when the account is anonymised
+export const deleteUserExports = async (userId: any): Promise<void> => {
+  const exports = await DataExport.find({ userId, fileId: { $exists: true } });
+
+  for (const dataExport of exports) {
+    await getBucket().delete(dataExport.fileId!).catch(() => undefined);
+  }
+
+  await DataExport.deleteMany({ userId });
+};
@@ -0,0 +1,149 @@
+import DonationRecord, { IDonationRecordDocument } from '../models/DonationRecord';
+import User, { IUserDocument } from '../models/User';
+import { DonationType, DonationVerificationMethod } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { recordDonationCompleted, recordDonationReversed } from './pledgeService';
+import { addDonationStock, discardDonationStock } from './inventoryService';
+import { computeNextEligibleDates } from './eligibilityPolicy';
+import { refreshAchievements } from './achievementService';
+import { awardPoints } from './pointsService';
+
+// Recompute when each donation type is next allowed for a donor from their completed donations.
+// Only the last year matters: the latest donation sets the interval, the rest the annual caps.
+export const refreshEligibleDates = async (donorId: any): Promise<void> => {
+  const donor = await User.findById(donorId).select('sex');
+  if (!donor) return;
+
+  const [recent, latest] = await Promise.all([
+    DonationRecord.find({
+      donorId,
+      status: 'completed',
+      date: { $gt: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000) }
+    }).select('date donationType'),
+    DonationRecord.findOne({ donorId, status: 'completed' }).sort({ date: -1 }).select('date donationType')
+  ]);
+
+  const history = [...recent, ...(latest ? [latest] : [])]
+    .map(donation => ({ date: donation.date, donationType: donation.donationType }));
+
+  await User.updateOne(
+    { _id: donorId },
+    {
+      $set: {
+        nextEligibleDates: computeNextEligibleDates(history, donor.sex),
+        eligibilityUpdatedAt: new Date()
+      }
+    }
+  );
+};
+
+// Mark a pending donation completed on behalf of a hospital and count it for the donor. The hospital
+// states the type of donation it collected, which decides the donor's next wait.
+// Returns null if the donation was no longer pending (e.g. verified by someone else meanwhile) or
+// belongs to another hospital.
+export const verifyDonation = async (
+  donationId: any,
+  hospital: IUserDocument,
+  method: DonationVerificationMethod,
+  donationType: DonationType
+): Promise<IDonationRecordDocument | null> => {
+  const now = new Date();
+
+  const pending = await DonationRecord.findOne({ _id: donationId, status: 'pending' }).select('donorId');
+  if (!pending) return null;
+
+  const donor = await User.findById(pending.donorId);
+  const nextEligibleDate = donor?.getNextEligibleDate(donationType);
+
+  if (nextEligibleDate) {
+    throw new AppError(
+      `The donor cannot give ${donationType.replace(/_/g, ' ')} until ${nextEligibleDate.toDateString()}`,
+      400
+    );
+  }
+
+  // Claim the donation atomically so it can only be counted once, and only by its own hospital.
+  // A donation recorded without a hospital belongs to the one that verifies it.
+  const donation = await DonationRecord.findOneAndUpdate(
+    {
+      _id: donationId,
+      status: 'pending',
+      $or: [{ hospitalId: hospital._id }, { hospitalId: { $exists: false } }]
+    },
+    {
+      $set: {
+        status: 'completed',
+        hospitalId: hospital._id,
+        donationType,
+        verifiedBy: hospital._id,
+        verifiedAt: now,
+        verificationMethod: method
+      },
+      $unset: { verificationCode: 1, verificationCodeExpires: 1, verificationAttempts: 1 }
+    },
+    { new: true }
+  );
+
+  if (!donation) return null;
+
+  await awardPoints(donation);
+
+  // Only verified donations count toward the donor's total and donation gap
+  await User.findByIdAndUpdate(donation.donorId, {
+    $inc: { donationCount: 1 },
+    $max: { lastDonation: donation.date }
+  });
+  await refreshEligibleDates(donation.donorId);
+
+  await recordDonationCompleted(donation);
+  await refreshAchievements(donation.donorId);
+
+  // The collected blood goes into the stock of the donation's hospital, which verified it
+  await addDonationStock(donation);
+
+  return donation;
+};
+
+// Undo a verified donation found to be fraudulent, removing it from the donor's stats and its request.
+// Returns null if the donation was not completed.
+export const reverseDonation = async (
+  donationId: any,
+  admin: IUserDocument,
+  reason: string
+): Promise<IDonationRecordDocument | null> => {
+  const donation = await DonationRecord.findOneAndUpdate(
+    { _id: donationId, status: 'completed' },
+    {
+      $set: {
+        status: 'reversed',
+        reversedBy: admin._id,
+        reversedAt: new Date(),
+        reversalReason: reason
+      }
+    },
+    { new: true }
+  );
+
+  if (!donation) return null;
+
+  // The donation gap restarts from the donor's latest donation that still counts
+  const latest = await DonationRecord.findOne({ donorId: donation.donorId, status: 'completed' })
+    .sort({ date: -1 })
+    .select('date');
+
+  await User.updateOne(
+    { _id: donation.donorId, donationCount: { $gt: 0 } },
+    { $inc: { donationCount: -1 } }
+  );
+  await User.updateOne(
+    { _id: donation.donorId },
+    latest ? { $set: { lastDonation: latest.date } } : { $unset: { lastDonation: 1 } }
+  );
+  await refreshEligibleDates(donation.donorId);
+
+  await recordDonationReversed(donation, reason);
+  await refreshAchievements(donation.donorId);
+  await discardDonationStock(donation, `Donation reversed: ${reason}`);
+
+  return donation;
+};
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { config } from '../config/config';
+import { BloodComponent, DonationType, DonorSex } from '../types';
+import bundledPolicy from '../data/donationPolicy.json';
+
+interface DonationRule {
+  intervalDays: Record<DonorSex, number>;
+  annualCap: Record<DonorSex, number>;
+}
+
+export interface DonationHistoryEntry {
+  date: Date;
+  donationType: DonationType;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DONATION_TYPES: DonationType[] = ['whole_blood', 'double_red_cells', 'platelets', 'plasma'];
+
+// The bundled policy follows common blood bank guidance; a local policy can be dropped in via DONATION_POLICY_PATH
+const loadPolicy = (): Record<DonationType, DonationRule> => {
+  const policy = bundledPolicy as Record<DonationType, DonationRule>;
+
+  if (config.donationPolicyPath) {
+    try {
+      const overrides = JSON.parse(fs.readFileSync(config.donationPolicyPath, 'utf8'));
+      return Object.fromEntries(DONATION_TYPES.map(type => [type, {
+        intervalDays: { ...policy[type].intervalDays, ...overrides[type]?.intervalDays },
+        annualCap: { ...policy[type].annualCap, ...overrides[type]?.annualCap }
+      }])) as Record<DonationType, DonationRule>;
+    } catch (error) {
+      console.error(`Could not load donation policy from ${config.donationPolicyPath}, using bundled policy:`, error);
+    }
+  }
+
+  return policy;
+};
+
+const policy = loadPolicy();
+
+// Days to wait after a donation of this type; without a known sex the stricter rule applies
+export const getDonationInterval = (type: DonationType, sex?: DonorSex): number => {
+  const { intervalDays } = policy[type];
+  return sex ? intervalDays[sex] : Math.max(intervalDays.male, intervalDays.female);
+};
+
+// Donations of this type allowed in any 365 days; without a known sex the stricter rule applies
+export const getAnnualCap = (type: DonationType, sex?: DonorSex): number => {
+  const { annualCap } = policy[type];
+  return sex ? annualCap[sex] : Math.min(annualCap.male, annualCap.female);
+};
+
+// The kind of donation that supplies a requested blood component
+export const donationTypeForComponent = (component?: BloodComponent): DonationType => {
+  if (component === 'platelets' || component === 'plasma') return component;
+  return 'whole_blood';
+};
+
+// Earliest date each donation type is allowed after a donor's completed donations, ignoring deferrals.
+// Any donation starts the wait of its own type before the next one of any type, and each type
+// is also limited to its annual cap over a rolling 365 days.
+export const computeNextEligibleDates = (
+  history: DonationHistoryEntry[],
+  sex?: DonorSex
+): Record<DonationType, Date | null> => {
+  const latest = history.reduce<DonationHistoryEntry | null>(
+    (current, entry) => (!current || entry.date > current.date ? entry : current),
+    null
+  );
+  const intervalEnd = latest
+    ? new Date(latest.date.getTime() + getDonationInterval(latest.donationType, sex) * DAY_MS)
+    : null;
+  const yearAgo = Date.now() - 365 * DAY_MS;
+
+  return Object.fromEntries(DONATION_TYPES.map(type => {
+    const lastYear = history
+      .filter(entry => entry.donationType === type && entry.date.getTime() > yearAgo)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    const cap = getAnnualCap(type, sex);
+
+    // At the cap, the next donation has to wait until enough of this year's donations are a year old
+    const capEnd = cap > 0 && lastYear.length >= cap
+      ? new Date(lastYear[lastYear.length - cap].date.getTime() + 365 * DAY_MS)
+      : null;
+
+    const dates = [intervalEnd, capEnd].filter((date): date is Date => date !== null);
+    const nextEligible = dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : null;
+
+    return [type, nextEligible];
+  })) as Record<DonationType, Date | null>;
+};
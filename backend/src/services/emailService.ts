@@ -0,0 +1,66 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/config';
+
+export interface EmailOptions {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+// Lazily create the SMTP transport so the app can boot without mail settings
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.emailHost,
+      port: config.emailPort,
+      secure: config.emailSecure,
+      auth: config.emailUser
+        ? { user: config.emailUser, pass: config.emailPass }
+        : undefined
+    });
+  }
+  return transporter;
+};
+
+// Escape text placed in an HTML email, e.g. a user's name
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// Send a single email
+export const sendEmail = async (options: EmailOptions): Promise<void> => {
+  await getTransporter().sendMail({
+    from: config.emailFrom,
+    to: options.to,
+    subject: options.subject,
+    text: options.text,
+    html: options.html
+  });
+};
+
+// Send password reset instructions
+export const sendPasswordResetEmail = async (
+  to: string,
+  name: string,
+  resetToken: string
+): Promise<void> => {
+  const resetUrl = `${config.frontendUrl}/reset-password?token=${resetToken}`;
+
+  await sendEmail({
+    to,
+    subject: 'Reset your Blood Buddy password',
+    text: `Hi ${name},\n\n` +
+      `We received a request to reset your password. Use the link below to choose a new one:\n\n` +
+      `${resetUrl}\n\n` +
+      `The link expires in ${config.passwordResetExpireMinutes} minutes. ` +
+      `If you did not ask for this, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(name)},</p>` +
+      `<p>We received a request to reset your password. Use the link below to choose a new one:</p>` +
+      `<p><a href="${resetUrl}">Reset password</a></p>` +
+      `<p>The link expires in ${config.passwordResetExpireMinutes} minutes. ` +
+      `If you did not ask for this, you can ignore this email.</p>`
+  });
+};
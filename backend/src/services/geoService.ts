@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { config } from '../config/config';
+import { IGeoPoint } from '../types';
+import bundledPincodes from '../data/pincodes.json';
+
+interface PincodeEntry {
+  lat: number;
+  lng: number;
+  name?: string;
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// The bundled file covers major post offices; a full India Post export can be dropped in via PINCODE_DATA_PATH
+const loadPincodes = (): Record<string, PincodeEntry> => {
+  if (config.pincodeDataPath) {
+    try {
+      return JSON.parse(fs.readFileSync(config.pincodeDataPath, 'utf8'));
+    } catch (error) {
+      console.error(`Could not load pincode data from ${config.pincodeDataPath}, using bundled data:`, error);
+    }
+  }
+  return bundledPincodes as Record<string, PincodeEntry>;
+};
+
+const pincodes = loadPincodes();
+
+// Centroid of known pincodes per 3-digit sorting district, used when the exact pincode is unknown
+const districtCentroids: Record<string, Coordinates> = (() => {
+  const sums: Record<string, { lat: number; lng: number; count: number }> = {};
+
+  Object.entries(pincodes).forEach(([pincode, entry]) => {
+    const district = pincode.slice(0, 3);
+    sums[district] = sums[district] || { lat: 0, lng: 0, count: 0 };
+    sums[district].lat += entry.lat;
+    sums[district].lng += entry.lng;
+    sums[district].count += 1;
+  });
+
+  return Object.fromEntries(
+    Object.entries(sums).map(([district, sum]) => [
+      district,
+      { lat: sum.lat / sum.count, lng: sum.lng / sum.count }
+    ])
+  );
+})();
+
+// Resolve a 6-digit pincode to coordinates, falling back to its district
+export const resolvePincode = (pincode?: string): Coordinates | null => {
+  if (!pincode) return null;
+
+  const entry = pincodes[pincode];
+  if (entry) {
+    return { lat: entry.lat, lng: entry.lng };
+  }
+
+  return districtCentroids[pincode.slice(0, 3)] || null;
+};
+
+// Build a GeoJSON point (GeoJSON stores longitude first)
+export const toGeoPoint = ({ lat, lng }: Coordinates): IGeoPoint => ({
+  type: 'Point',
+  coordinates: [lng, lat]
+});
+
+// Coordinates of a stored point, or null when none was set. Mongoose returns an empty object for an
+// unset location, so the coordinates themselves are checked.
+export const fromGeoPoint = (point?: Partial<IGeoPoint> | null): Coordinates | null => {
+  if (point?.coordinates?.length !== 2) return null;
+  return { lat: point.coordinates[1], lng: point.coordinates[0] };
+};
+
+export const kmToMeters = (km: number): number => km * 1000;
+
+export const metersToKm = (meters: number): number => Math.round(meters / 10) / 100;
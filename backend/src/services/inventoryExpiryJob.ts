@@ -0,0 +1,37 @@
+import { config } from '../config/config';
+import InventoryUnit from '../models/InventoryUnit';
+import { checkShortage } from './inventoryService';
+import { ScheduledJob } from './scheduler';
+
+// Mark stock past its expiry date as expired and raise requests for groups that fall below par
+export const expireInventoryUnits = async (now: Date = new Date()): Promise<number> => {
+  const affected = await InventoryUnit.aggregate([
+    { $match: { status: 'available', expiresAt: { $lte: now } } },
+    { $group: { _id: { hospitalId: '$hospitalId', bloodGroup: '$bloodGroup', component: '$component' } } }
+  ]);
+
+  if (affected.length === 0) return 0;
+
+  const result = await InventoryUnit.updateMany(
+    { status: 'available', expiresAt: { $lte: now } },
+    { $set: { status: 'expired', statusChangedAt: now } }
+  );
+
+  for (const { _id } of affected) {
+    await checkShortage(_id.hospitalId, _id.bloodGroup, _id.component);
+  }
+
+  return result.modifiedCount;
+};
+
+export const inventoryExpiryJob: ScheduledJob = {
+  name: 'inventory-expiry',
+  intervalMs: config.inventoryJobIntervalMs,
+  run: async () => {
+    const expired = await expireInventoryUnits();
+
+    if (expired > 0) {
+      console.log(`Inventory expiry job: ${expired} unit(s) expired`);
+    }
+  }
+};
@@ -0,0 +1,234 @@
+import mongoose from 'mongoose';
+import { config } from '../config/config';
+import InventoryUnit, { IInventoryUnitDocument } from '../models/InventoryUnit';
+import InventoryThreshold from '../models/InventoryThreshold';
+import BloodRequest, { IBloodRequestDocument } from '../models/BloodRequest';
+import User from '../models/User';
+import { IDonationRecordDocument } from '../models/DonationRecord';
+import { BloodGroup, BloodComponent, DonationType, InventoryUnitStatus } from '../types';
+import { alertDonorsForRequest } from './notificationService';
+import { publishBloodRequestEvent } from './socketService';
+
+// Storage life of each component from collection
+export const SHELF_LIFE_DAYS: Record<BloodComponent, number> = {
+  whole_blood: 35,
+  red_cells: 42,
+  plasma: 365,
+  platelets: 5
+};
+
+export interface StockLevel {
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  units: number;
+  expiringSoon: number;
+  nextExpiry: Date | null;
+  minUnits: number | null;
+  belowPar: boolean;
+}
+
+// Expiry date of a unit collected at the given time
+export const getDefaultExpiry = (component: BloodComponent, collectedAt: Date = new Date()): Date => {
+  return new Date(collectedAt.getTime() + SHELF_LIFE_DAYS[component] * 24 * 60 * 60 * 1000);
+};
+
+const usableFilter = (hospitalId: any, bloodGroup: BloodGroup, component: BloodComponent) => ({
+  hospitalId,
+  bloodGroup,
+  component,
+  status: 'available',
+  expiresAt: { $gt: new Date() }
+});
+
+// Count the units a hospital can still issue
+export const countUsableUnits = (hospitalId: any, bloodGroup: BloodGroup, component: BloodComponent): Promise<number> => {
+  return InventoryUnit.countDocuments(usableFilter(hospitalId, bloodGroup, component));
+};
+
+// Usable stock per blood group and component, with par levels, for one hospital
+export const getStockLevels = async (hospitalId: any): Promise<StockLevel[]> => {
+  const now = new Date();
+  const warningDate = new Date(now.getTime() + config.inventoryExpiryWarningDays * 24 * 60 * 60 * 1000);
+  const hospitalObjectId = new mongoose.Types.ObjectId(hospitalId.toString());
+
+  const [stock, thresholds] = await Promise.all([
+    InventoryUnit.aggregate([
+      { $match: { hospitalId: hospitalObjectId, status: 'available', expiresAt: { $gt: now } } },
+      {
+        $group: {
+          _id: { bloodGroup: '$bloodGroup', component: '$component' },
+          units: { $sum: 1 },
+          expiringSoon: { $sum: { $cond: [{ $lte: ['$expiresAt', warningDate] }, 1, 0] } },
+          nextExpiry: { $min: '$expiresAt' }
+        }
+      }
+    ]),
+    InventoryThreshold.find({ hospitalId: hospitalObjectId })
+  ]);
+
+  const levels = new Map<string, StockLevel>();
+  const key = (bloodGroup: string, component: string) => `${bloodGroup}:${component}`;
+
+  stock.forEach(({ _id, units, expiringSoon, nextExpiry }) => {
+    levels.set(key(_id.bloodGroup, _id.component), {
+      bloodGroup: _id.bloodGroup,
+      component: _id.component,
+      units,
+      expiringSoon,
+      nextExpiry,
+      minUnits: null,
+      belowPar: false
+    });
+  });
+
+  // Groups with a par level but no stock still need to show up, as empty
+  thresholds.forEach(threshold => {
+    const level = levels.get(key(threshold.bloodGroup, threshold.component)) || {
+      bloodGroup: threshold.bloodGroup,
+      component: threshold.component,
+      units: 0,
+      expiringSoon: 0,
+      nextExpiry: null,
+      minUnits: null,
+      belowPar: false
+    };
+    level.minUnits = threshold.minUnits;
+    level.belowPar = level.units < threshold.minUnits;
+    levels.set(key(threshold.bloodGroup, threshold.component), level);
+  });
+
+  return Array.from(levels.values()).sort((a, b) =>
+    a.bloodGroup.localeCompare(b.bloodGroup) || a.component.localeCompare(b.component)
+  );
+};
+
+// Take units out of usable stock, first expiring first out. Each unit is claimed atomically;
+// if there are not enough, the claimed ones are put back and null is returned.
+export const claimUnits = async (
+  hospitalId: any,
+  bloodGroup: BloodGroup,
+  component: BloodComponent,
+  quantity: number,
+  status: InventoryUnitStatus,
+  changes: Record<string, any>
+): Promise<IInventoryUnitDocument[] | null> => {
+  const claimed: IInventoryUnitDocument[] = [];
+
+  for (let i = 0; i < quantity; i++) {
+    const unit = await InventoryUnit.findOneAndUpdate(
+      usableFilter(hospitalId, bloodGroup, component),
+      { $set: { ...changes, status, statusChangedAt: new Date() } },
+      { new: true, sort: { expiresAt: 1 } }
+    );
+
+    if (!unit) {
+      await InventoryUnit.updateMany(
+        { _id: { $in: claimed.map(claimedUnit => claimedUnit._id) } },
+        {
+          $set: { status: 'available' },
+          $unset: { ...Object.fromEntries(Object.keys(changes).map(field => [field, 1])), statusChangedAt: 1 }
+        }
+      );
+      return null;
+    }
+
+    claimed.push(unit);
+  }
+
+  return claimed;
+};
+
+// Raise a blood request for the hospital when usable stock of a group falls below its par level.
+// At most one automatic request per group is open at a time.
+export const checkShortage = async (
+  hospitalId: any,
+  bloodGroup: BloodGroup,
+  component: BloodComponent
+): Promise<IBloodRequestDocument | null> => {
+  const threshold = await InventoryThreshold.findOne({ hospitalId, bloodGroup, component });
+  if (!threshold || !threshold.autoRequest || threshold.minUnits === 0) return null;
+
+  const units = await countUsableUnits(hospitalId, bloodGroup, component);
+  if (units >= threshold.minUnits) return null;
+
+  if (threshold.lastRequestId) {
+    const openRequest = await BloodRequest.exists({ _id: threshold.lastRequestId, status: 'active' });
+    if (openRequest) return null;
+  }
+
+  const hospital = await User.findById(hospitalId);
+  if (!hospital) return null;
+
+  // Reserve the request ID on the threshold first, so concurrent checks raise only one request
+  const requestId = new mongoose.Types.ObjectId();
+  const reserved = await InventoryThreshold.findOneAndUpdate(
+    { _id: threshold._id, lastRequestId: threshold.lastRequestId ?? { $exists: false } },
+    { $set: { lastRequestId: requestId } }
+  );
+  if (!reserved) return null;
+
+  const bloodRequest = new BloodRequest({
+    _id: requestId,
+    patientName: 'Blood bank restock',
+    bloodGroup,
+    component,
+    urgency: units === 0 ? 'critical' : 'urgent',
+    hospital: hospital.name,
+    city: hospital.city,
+    pincode: hospital.pincode,
+    unitsNeeded: Math.min(threshold.minUnits - units, 10),
+    contactPhone: hospital.phone,
+    description: `${bloodGroup} ${component.replace('_', ' ')} stock is ${units} unit(s), below the par level of ${threshold.minUnits}.`,
+    requesterId: hospital._id,
+    requesterName: hospital.name
+  });
+  bloodRequest.addHistory('created', undefined, 'Raised automatically for low blood bank stock');
+  await bloodRequest.save();
+
+  alertDonorsForRequest(bloodRequest, 'created').catch(error => {
+    console.error('Donor alerting error:', error);
+  });
+  publishBloodRequestEvent('bloodRequest:created', bloodRequest);
+
+  return bloodRequest;
+};
+
+type DonationUnit = Pick<
+  IInventoryUnitDocument,
+  'hospitalId' | 'bloodGroup' | 'component' | 'collectedAt' | 'expiresAt' | 'source' | 'donationRecordId'
+>;
+
+// Add a verified donation to the stock of the hospital where it was given
+export const addDonationStock = async (donation: IDonationRecordDocument): Promise<IInventoryUnitDocument[]> => {
+  // Apheresis donations collect the component directly; whole blood goes in as requested
+  const apheresisComponents: Partial<Record<DonationType, BloodComponent>> = {
+    double_red_cells: 'red_cells',
+    platelets: 'platelets',
+    plasma: 'plasma'
+  };
+  const request = donation.requestId && !apheresisComponents[donation.donationType]
+    ? await BloodRequest.findById(donation.requestId).select('component')
+    : null;
+  const component: BloodComponent = apheresisComponents[donation.donationType] || request?.component || 'whole_blood';
+
+  const units: DonationUnit[] = Array.from({ length: donation.unitsContributed }, () => ({
+    hospitalId: new mongoose.Types.ObjectId(donation.hospitalId),
+    bloodGroup: donation.bloodGroup,
+    component,
+    collectedAt: donation.date,
+    expiresAt: getDefaultExpiry(component, donation.date),
+    source: 'donation',
+    donationRecordId: donation._id
+  }));
+
+  return InventoryUnit.insertMany(units);
+};
+
+// Discard the still-available stock that came from a reversed donation
+export const discardDonationStock = async (donation: IDonationRecordDocument, reason: string): Promise<number> => {
+  const result = await InventoryUnit.updateMany(
+    { donationRecordId: donation._id, status: 'available' },
+    { $set: { status: 'discarded', discardReason: reason, statusChangedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,11 @@
+import { config } from '../config/config';
+import { refreshLeaderboards } from './leaderboardService';
+import { ScheduledJob } from './scheduler';
+
+export const leaderboardJob: ScheduledJob = {
+  name: 'leaderboard-snapshots',
+  intervalMs: config.leaderboardJobIntervalMs,
+  run: async () => {
+    await refreshLeaderboards();
+  }
+};
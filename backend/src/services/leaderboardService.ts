@@ -0,0 +1,262 @@
+import DonationRecord from '../models/DonationRecord';
+import LeaderboardEntry, { ILeaderboardEntryDocument } from '../models/LeaderboardEntry';
+import { IUserDocument } from '../models/User';
+import { BloodGroup, LeaderboardPeriod } from '../types';
+import { computeTeamLeaderboard } from './organisationService';
+import { toPage } from './listQueryService';
+
+export interface LeaderboardWindow {
+  period: LeaderboardPeriod;
+  periodKey: string;
+  start?: Date;
+  end?: Date;
+}
+
+export interface LeaderboardFilter {
+  city?: string;
+  bloodGroup?: BloodGroup;
+  // Members of an organisation, resolved by the caller
+  donorIds?: any[];
+}
+
+export interface DonorRank {
+  period: LeaderboardPeriod;
+  periodKey: string;
+  rank: number | null;
+  participants: number;
+  totalPoints: number;
+  totalDonations: number;
+  optedOut: boolean;
+}
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['all_time', 'year', 'quarter', 'month'];
+
+// Best first; ties go to more donations, then to the earlier account
+const RANKING_SORT = { totalPoints: -1, totalDonations: -1, donorId: 1 } as const;
+
+// The calendar period (in UTC) containing a moment
+export const getLeaderboardWindow = (period: LeaderboardPeriod, at: Date = new Date()): LeaderboardWindow => {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+
+  switch (period) {
+    case 'year':
+      return { period, periodKey: `${year}`, start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+    case 'quarter': {
+      const quarter = Math.floor(month / 3);
+      return {
+        period,
+        periodKey: `${year}-Q${quarter + 1}`,
+        start: new Date(Date.UTC(year, quarter * 3, 1)),
+        end: new Date(Date.UTC(year, quarter * 3 + 3, 1))
+      };
+    }
+    case 'month':
+      return {
+        period,
+        periodKey: `${year}-${String(month + 1).padStart(2, '0')}`,
+        start: new Date(Date.UTC(year, month, 1)),
+        end: new Date(Date.UTC(year, month + 1, 1))
+      };
+    default:
+      return { period: 'all_time', periodKey: 'all' };
+  }
+};
+
+const entryFilter = (window: LeaderboardWindow, filter: LeaderboardFilter) => ({
+  period: window.period,
+  periodKey: window.periodKey,
+  ...(filter.city && { cityKey: filter.city.trim().toLowerCase() }),
+  ...(filter.bloodGroup && { bloodGroup: filter.bloodGroup }),
+  ...(filter.donorIds && { donorId: { $in: filter.donorIds } })
+});
+
+// Recompute the snapshot of one leaderboard period from completed donations. Donors who opted out,
+// banned accounts and accounts being deleted are left out.
+export const computeLeaderboard = async (window: LeaderboardWindow): Promise<number> => {
+  const computedAt = new Date();
+
+  await DonationRecord.aggregate([
+    {
+      $match: {
+        status: 'completed',
+        ...(window.start && { date: { $gte: window.start, $lt: window.end } })
+      }
+    },
+    {
+      $group: {
+        _id: '$donorId',
+        totalPoints: { $sum: '$points' },
+        totalDonations: { $sum: 1 },
+        totalUnits: { $sum: '$unitsContributed' },
+        lastDonation: { $max: '$date' }
+      }
+    },
+    { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'donor' } },
+    { $unwind: '$donor' },
+    {
+      $match: {
+        'donor.leaderboardOptOut': { $ne: true },
+        'donor.accountStatus': { $ne: 'banned' },
+        'donor.deletionRequestedAt': { $exists: false }
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        period: window.period,
+        periodKey: window.periodKey,
+        donorId: '$_id',
+        donorName: '$donor.name',
+        bloodGroup: '$donor.bloodGroup',
+        city: '$donor.city',
+        cityKey: { $toLower: { $trim: { input: { $ifNull: ['$donor.city', ''] } } } },
+        totalPoints: 1,
+        totalDonations: 1,
+        totalUnits: 1,
+        lastDonation: 1,
+        computedAt: { $literal: computedAt }
+      }
+    },
+    {
+      $merge: {
+        into: LeaderboardEntry.collection.collectionName,
+        on: ['period', 'periodKey', 'donorId'],
+        whenMatched: 'merge',
+        whenNotMatched: 'insert'
+      }
+    }
+  ]);
+
+  // Donors no longer on the board (opted out, banned or donations reversed) were not refreshed
+  await LeaderboardEntry.deleteMany({
+    period: window.period,
+    periodKey: window.periodKey,
+    computedAt: { $lt: computedAt }
+  });
+
+  return LeaderboardEntry.countDocuments({ period: window.period, periodKey: window.periodKey });
+};
+
+// Recompute the donor and team boards of every current period, and the previous one of each so
+// late verifications still count
+export const refreshLeaderboards = async (now: Date = new Date()): Promise<void> => {
+  for (const period of LEADERBOARD_PERIODS) {
+    const current = getLeaderboardWindow(period, now);
+    const windows = current.start
+      ? [current, getLeaderboardWindow(period, new Date(current.start.getTime() - 1))]
+      : [current];
+
+    for (const window of windows) {
+      await computeLeaderboard(window);
+      await computeTeamLeaderboard(window);
+    }
+  }
+};
+
+// Periods this process has made sure have snapshots
+const ensuredWindows = new Set<string>();
+
+// Compute the donor and team boards of a period that has no snapshot yet. The snapshot job only
+// refreshes the current and previous periods, so older ones are computed the first time they are asked for.
+export const ensureLeaderboards = async (window: LeaderboardWindow, now: Date = new Date()): Promise<void> => {
+  const key = `${window.period}:${window.periodKey}`;
+  if (ensuredWindows.has(key)) return;
+
+  // Periods that have not started have nothing to rank yet
+  if (window.start && window.start > now) return;
+
+  if (!(await LeaderboardEntry.exists({ period: window.period, periodKey: window.periodKey }))) {
+    await computeLeaderboard(window);
+    await computeTeamLeaderboard(window);
+  }
+  ensuredWindows.add(key);
+};
+
+// A page of a leaderboard, with each donor's rank
+export const getLeaderboard = async (
+  window: LeaderboardWindow,
+  filter: LeaderboardFilter,
+  page: number,
+  limit: number
+) => {
+  await ensureLeaderboards(window);
+
+  const skip = (page - 1) * limit;
+  const boardFilter = entryFilter(window, filter);
+  const [entries, total] = await Promise.all([
+    LeaderboardEntry.find(boardFilter)
+      .sort(RANKING_SORT)
+      .skip(skip)
+      .limit(limit)
+      .select('-_id -cityKey -__v'),
+    LeaderboardEntry.countDocuments(boardFilter)
+  ]);
+
+  return toPage(entries.map((entry, index) => ({ rank: skip + index + 1, ...entry.toObject() })), page, limit, total);
+};
+
+// Where a donor stands on a leaderboard. Donors who opted out, or who are not on the board yet,
+// get the rank their own totals would have; donors outside the filtered city or blood group get none.
+export const getDonorRank = async (
+  donor: IUserDocument,
+  window: LeaderboardWindow,
+  filter: LeaderboardFilter
+): Promise<DonorRank> => {
+  await ensureLeaderboards(window);
+
+  const donorId = donor._id;
+  const optedOut = !!donor.leaderboardOptOut;
+  const boardFilter = entryFilter(window, filter);
+  const inFilter = (!filter.city || donor.city?.trim().toLowerCase() === boardFilter.cityKey) &&
+    (!filter.bloodGroup || donor.bloodGroup === filter.bloodGroup) &&
+    (!filter.donorIds || filter.donorIds.some(id => id.toString() === donorId.toString()));
+  const entry: Pick<ILeaderboardEntryDocument, 'totalPoints' | 'totalDonations'> | null =
+    await LeaderboardEntry.findOne({ ...boardFilter, donorId });
+
+  let totals = entry;
+  if (!totals && inFilter) {
+    const [live] = await DonationRecord.aggregate([
+      {
+        $match: {
+          donorId,
+          status: 'completed',
+          ...(window.start && { date: { $gte: window.start, $lt: window.end } })
+        }
+      },
+      { $group: { _id: null, totalPoints: { $sum: '$points' }, totalDonations: { $sum: 1 } } }
+    ]);
+    totals = live || null;
+  }
+
+  const participants = await LeaderboardEntry.countDocuments(boardFilter);
+
+  if (!totals) {
+    return { period: window.period, periodKey: window.periodKey, rank: null, participants, totalPoints: 0, totalDonations: 0, optedOut };
+  }
+
+  const ahead = await LeaderboardEntry.countDocuments({
+    ...boardFilter,
+    donorId: { $ne: donorId, ...(filter.donorIds && { $in: filter.donorIds }) },
+    $or: [
+      { totalPoints: { $gt: totals.totalPoints } },
+      { totalPoints: totals.totalPoints, totalDonations: { $gt: totals.totalDonations } },
+      { totalPoints: totals.totalPoints, totalDonations: totals.totalDonations, donorId: { $lt: donorId } }
+    ]
+  });
+
+  return {
+    period: window.period,
+    periodKey: window.periodKey,
+    rank: ahead + 1,
+    participants: entry ? participants : participants + 1,
+    totalPoints: totals.totalPoints,
+    totalDonations: totals.totalDonations,
+    optedOut
+  };
+};
+
+// Take a donor off every leaderboard at once, without waiting for the next snapshot
+export const removeFromLeaderboards = async (donorId: any): Promise<void> => {
+  await LeaderboardEntry.deleteMany({ donorId });
+};
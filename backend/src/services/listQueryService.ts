@@ -0,0 +1,229 @@
+import { Request } from 'express';
+import { Model, PopulateOptions } from 'mongoose';
+import { AppError } from '../middleware/errorHandler';
+import { IPaginatedResponse } from '../types';
+
+type SortOrder = 1 | -1;
+
+export interface RangeFilter {
+  field: string;
+  type: 'date' | 'number';
+}
+
+// What a list route lets clients sort, filter and select
+export interface ListQuerySpec {
+  // Fields accepted by sort=; sort fields should always be set, as missing values break cursors
+  sortFields: string[];
+  defaultSort: Record<string, SortOrder>;
+  // Range filters read from <name>From and <name>To, both inclusive
+  ranges?: Record<string, RangeFilter>;
+  // Fields accepted by fields=; defaults to every top-level field that is not selected out
+  fields?: string[];
+  defaultLimit?: number;
+}
+
+export interface ListQueryOptions {
+  populate?: PopulateOptions | (string | PopulateOptions)[];
+  // Projection used when the client does not ask for fields, e.g. '-googleId'
+  select?: string;
+}
+
+const MAX_LIMIT = 100;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+interface Cursor {
+  sort: string;
+  values: any[];
+}
+
+const sortKey = (sort: [string, SortOrder][]): string => sort.map(([field, order]) => `${field}:${order}`).join(',');
+
+// Cursors hold the sort values of the last item, so the next page starts after it even if
+// items are added in between
+const encodeCursor = (doc: any, sort: [string, SortOrder][]): string => {
+  const cursor: Cursor = { sort: sortKey(sort), values: sort.map(([field]) => doc.get(field) ?? null) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (value: string, sort: [string, SortOrder][]): any[] => {
+  let cursor: Cursor;
+
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (!cursor || cursor.sort !== sortKey(sort) || !Array.isArray(cursor.values) || cursor.values.length !== sort.length) {
+    throw new AppError('Cursor does not match the requested sort order', 400);
+  }
+
+  return cursor.values;
+};
+
+// Items after the cursor: equal on the earlier sort keys and past it on the next one.
+// Mongoose casts the stored strings back to dates and ids.
+const afterCursor = (sort: [string, SortOrder][], values: any[]): Record<string, any> => ({
+  $or: sort.map(([field, order], index) => ({
+    ...Object.fromEntries(sort.slice(0, index).map(([previous], i) => [previous, values[i]])),
+    [field]: { [order === 1 ? '$gt' : '$lt']: values[index] }
+  }))
+});
+
+const parseSort = (query: Request['query'], spec: ListQuerySpec): [string, SortOrder][] => {
+  let sort: [string, SortOrder][];
+
+  if (query.sort) {
+    const field = query.sort as string;
+    if (!spec.sortFields.includes(field)) {
+      throw new AppError(`Cannot sort by ${field}; use one of: ${spec.sortFields.join(', ')}`, 400);
+    }
+    sort = [[field, query.order === 'desc' ? -1 : 1]];
+  } else {
+    sort = Object.entries(spec.defaultSort);
+  }
+
+  // _id breaks ties so every item has a single place in the order
+  return sort.some(([field]) => field === '_id') ? sort : [...sort, ['_id', sort[sort.length - 1][1]]];
+};
+
+const parseRangeValue = (name: string, value: unknown, range: RangeFilter, isEnd: boolean): Date | number => {
+  if (range.type === 'number') {
+    const number = parseFloat(value as string);
+    if (Number.isNaN(number)) throw new AppError(`${name} must be a number`, 400);
+    return number;
+  }
+
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) throw new AppError(`${name} must be a date`, 400);
+
+  // A day given as the end of a range includes the whole day
+  if (isEnd && DATE_ONLY.test(value as string)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+const parseRanges = (query: Request['query'], spec: ListQuerySpec): Record<string, any>[] => {
+  return Object.entries(spec.ranges || {}).flatMap(([name, range]) => {
+    const condition: Record<string, Date | number> = {};
+
+    if (query[`${name}From`] !== undefined) {
+      condition.$gte = parseRangeValue(`${name}From`, query[`${name}From`], range, false);
+    }
+    if (query[`${name}To`] !== undefined) {
+      condition.$lte = parseRangeValue(`${name}To`, query[`${name}To`], range, true);
+    }
+
+    return Object.keys(condition).length ? [{ [range.field]: condition }] : [];
+  });
+};
+
+const selectableFields = (model: Model<any>, spec: ListQuerySpec, options: ListQueryOptions): string[] => {
+  if (spec.fields) return spec.fields;
+
+  const excluded = (options.select || '').split(/\s+/).filter(field => field.startsWith('-')).map(field => field.slice(1));
+  const fields = new Set<string>();
+
+  model.schema.eachPath((path, schemaType: any) => {
+    const field = path.split('.')[0];
+    if (field !== '__v' && schemaType.options?.select !== false && !excluded.includes(field)) {
+      fields.add(field);
+    }
+  });
+
+  return Array.from(fields);
+};
+
+// fields=a,b as a projection; the sort fields are always included so the next cursor can be built
+const parseProjection = (
+  query: Request['query'],
+  model: Model<any>,
+  spec: ListQuerySpec,
+  options: ListQueryOptions,
+  sort: [string, SortOrder][]
+): string | undefined => {
+  if (!query.fields) return options.select;
+  // fields=a&fields=b arrives as an array
+  if (typeof query.fields !== 'string') {
+    throw new AppError('Fields must be a comma-separated list of field names', 400);
+  }
+
+  const allowed = selectableFields(model, spec, options);
+  const requested = query.fields.split(',').map(field => field.trim()).filter(Boolean);
+  const unknown = requested.filter(field => !allowed.includes(field));
+
+  if (unknown.length) {
+    throw new AppError(`Unknown fields: ${unknown.join(', ')}`, 400);
+  }
+
+  return Array.from(new Set([...requested, ...sort.map(([field]) => field)])).join(' ');
+};
+
+// The page envelope for lists that are paged by hand, such as ranked boards
+export const toPage = <T>(data: T[], page: number, limit: number, total: number): IPaginatedResponse<T> => {
+  const pages = Math.ceil(total / limit);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages, hasNext: page < pages, hasPrev: page > 1 }
+  };
+};
+
+// Run a list query with the shared paging, sorting, range filter and field selection parameters:
+// page, limit, sort, order, cursor, fields and <range>From / <range>To. With cursor the page starts
+// after the item the cursor was taken from; page is then worked out from the item's position.
+export const findPage = async <T>(
+  model: Model<T>,
+  filter: Record<string, any>,
+  query: Request['query'],
+  spec: ListQuerySpec,
+  options: ListQueryOptions = {}
+): Promise<IPaginatedResponse<T>> => {
+  const limit = Math.min(parseInt(query.limit as string) || spec.defaultLimit || 10, MAX_LIMIT);
+  const sort = parseSort(query, spec);
+  const projection = parseProjection(query, model, spec, options, sort);
+  const conditions = [filter, ...parseRanges(query, spec)];
+  const listFilter = conditions.length === 1 ? filter : { $and: conditions };
+
+  let pageFilter = listFilter;
+  let page = parseInt(query.page as string) || 1;
+  let skip = (page - 1) * limit;
+
+  if (query.cursor) {
+    pageFilter = { $and: [...conditions, afterCursor(sort, decodeCursor(query.cursor as string, sort))] };
+    skip = 0;
+  }
+
+  let find = model.find(pageFilter).sort(Object.fromEntries(sort)).skip(skip).limit(limit);
+  if (projection) find = find.select(projection);
+  if (options.populate) find = find.populate(options.populate);
+
+  const [items, total, remaining] = await Promise.all([
+    find,
+    model.countDocuments(listFilter),
+    query.cursor ? model.countDocuments(pageFilter) : Promise.resolve(0)
+  ]);
+
+  const before = query.cursor ? total - remaining : skip;
+  if (query.cursor) {
+    page = Math.floor(before / limit) + 1;
+  }
+
+  const pages = Math.ceil(total / limit);
+  const hasNext = before + items.length < total;
+
+  return {
+    data: items as T[],
+    pagination: {
+      page,
+      limit,
+      total,
+      pages,
+      hasNext,
+      hasPrev: before > 0,
+      ...(hasNext && items.length ? { nextCursor: encodeCursor(items[items.length - 1], sort) } : {})
+    }
+  };
+};
@@ -0,0 +1,199 @@
+import { config } from '../config/config';
+import Notification from '../models/Notification';
+import User, { IUserDocument, NearbyDonor } from '../models/User';
+import { IBloodRequestDocument } from '../models/BloodRequest';
+import { sendEmail } from './emailService';
+import { donationTypeForComponent } from './eligibilityPolicy';
+import { fromGeoPoint } from './geoService';
+import { INotificationPreferences, NotificationChannel, NotificationType } from '../types';
+
+export interface NotificationPayload {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+export interface NotifyOptions {
+  dedupeKey: string;
+  // Deliver on external channels even during the user's quiet hours
+  bypassQuietHours?: boolean;
+}
+
+// SMS and push are delivered through pluggable providers (e.g. Twilio, FCM)
+export interface NotificationProvider {
+  send(user: IUserDocument, payload: NotificationPayload): Promise<void>;
+}
+
+type ExternalChannel = 'sms' | 'push';
+
+const providers: Partial<Record<ExternalChannel, NotificationProvider>> = {};
+
+// Register the provider used for an external channel
+export const registerNotificationProvider = (channel: ExternalChannel, provider: NotificationProvider): void => {
+  providers[channel] = provider;
+};
+
+// Provider that only logs, for development without SMS or push credentials
+export const consoleProvider = (channel: ExternalChannel): NotificationProvider => ({
+  send: async (user, payload) => {
+    console.log(`[${channel}] to ${user.email}: ${payload.title} - ${payload.message}`);
+  }
+});
+
+const DEFAULT_PREFERENCES: INotificationPreferences = {
+  inApp: true,
+  email: true,
+  sms: false,
+  push: true
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Check if a moment falls inside the user's quiet hours, in the user's timezone
+export const isWithinQuietHours = (preferences: INotificationPreferences, now: Date = new Date()): boolean => {
+  const quietHours = preferences.quietHours;
+  if (!quietHours?.enabled) return false;
+
+  let localTime: string;
+  try {
+    localTime = new Intl.DateTimeFormat('en-GB', {
+      timeZone: quietHours.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).format(now);
+  } catch (error) {
+    // Unknown timezone: treat as no quiet hours rather than dropping alerts
+    return false;
+  }
+
+  const current = toMinutes(localTime);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  // Windows such as 22:00-07:00 wrap past midnight
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+const deliver = async (
+  channel: NotificationChannel,
+  user: IUserDocument,
+  payload: NotificationPayload
+): Promise<boolean> => {
+  try {
+    switch (channel) {
+      case 'email':
+        await sendEmail({ to: user.email, subject: payload.title, text: payload.message });
+        return true;
+      case 'sms':
+      case 'push': {
+        const provider = providers[channel];
+        if (!provider) return false;
+        if (channel === 'push' && !user.pushTokens?.length) return false;
+        await provider.send(user, payload);
+        return true;
+      }
+      default:
+        return true;
+    }
+  } catch (error) {
+    console.error(`Notification ${channel} delivery error:`, error);
+    return false;
+  }
+};
+
+// Notify a user on every channel they allow; returns false if they already got this dedupe key
+export const notifyUser = async (
+  user: IUserDocument,
+  payload: NotificationPayload,
+  options: NotifyOptions
+): Promise<boolean> => {
+  const preferences = user.notificationPreferences || DEFAULT_PREFERENCES;
+
+  let notification;
+  try {
+    // The unique (userId, dedupeKey) index makes this the de-duplication point
+    notification = await Notification.create({
+      userId: user._id,
+      ...payload,
+      dedupeKey: options.dedupeKey,
+      channels: preferences.inApp ? ['inApp'] : []
+    });
+  } catch (error: any) {
+    if (error.code === 11000) return false;
+    throw error;
+  }
+
+  const quiet = !options.bypassQuietHours && isWithinQuietHours(preferences);
+  const external = (['email', 'sms', 'push'] as const).filter(channel => preferences[channel] && !quiet);
+
+  const results = await Promise.all(external.map(channel => deliver(channel, user, payload)));
+  const delivered = external.filter((_, index) => results[index]);
+
+  if (delivered.length > 0) {
+    notification.channels.push(...delivered);
+    await notification.save();
+  }
+
+  return true;
+};
+
+// Find compatible, eligible donors near a request and notify each of them once per urgency level
+export const alertDonorsForRequest = async (
+  bloodRequest: IBloodRequestDocument,
+  reason: 'created' | 'escalated'
+): Promise<number> => {
+  if (bloodRequest.status !== 'active') return 0;
+
+  const near = fromGeoPoint(bloodRequest.location);
+  const candidates: (IUserDocument | NearbyDonor)[] = near
+    ? await User.findNearbyDonors(bloodRequest.bloodGroup, near, config.donorSearchRadiusKm, bloodRequest.component)
+    : await User.findAvailableDonors(bloodRequest.bloodGroup, bloodRequest.city, undefined, bloodRequest.component);
+
+  // requesterId may already be populated with the requester's profile
+  const requesterId = (bloodRequest.populated('requesterId') ?? bloodRequest.requesterId).toString();
+  const donationType = donationTypeForComponent(bloodRequest.component);
+  const donorIds = candidates
+    .filter(donor => donor._id.toString() !== requesterId)
+    // Nearby donors come from an aggregation, so load them as documents to apply the eligibility policy
+    .filter(donor => (donor instanceof User ? donor : User.hydrate(donor)).getNextEligibleDate(donationType) === null)
+    .slice(0, config.maxDonorAlertsPerRequest)
+    .map(donor => donor._id);
+
+  if (donorIds.length === 0) return 0;
+
+  const donors = await User.find({ _id: { $in: donorIds } }).select('+pushTokens');
+
+  const payload: NotificationPayload = {
+    type: reason === 'escalated' ? 'blood_request_escalated' : 'blood_request',
+    title: reason === 'escalated'
+      ? `Now ${bloodRequest.urgency}: ${bloodRequest.bloodGroup} blood needed in ${bloodRequest.city}`
+      : `${bloodRequest.bloodGroup} blood needed in ${bloodRequest.city}`,
+    message: `${bloodRequest.unitsNeeded} unit(s) of ${bloodRequest.bloodGroup} are needed at ` +
+      `${bloodRequest.hospital}, ${bloodRequest.city} (${bloodRequest.urgency}). ` +
+      `Open Blood Buddy to respond: ${config.frontendUrl}/requests/${bloodRequest._id}`,
+    data: {
+      requestId: bloodRequest._id,
+      bloodGroup: bloodRequest.bloodGroup,
+      urgency: bloodRequest.urgency
+    }
+  };
+
+  const results = await Promise.all(donors.map(donor =>
+    notifyUser(donor, payload, {
+      dedupeKey: `blood_request:${bloodRequest._id}:${bloodRequest.urgency}`,
+      bypassQuietHours: bloodRequest.urgency === 'critical'
+    }).catch(error => {
+      console.error('Donor alert error:', error);
+      return false;
+    })
+  ));
+
+  return results.filter(Boolean).length;
+};
@@ -0,0 +1,55 @@
+import { apiRoutes } from '../routes';
+import { buildOpenApiSpec } from './openApiService';
+
+// Every method and path registered on the API routers, written the way the document writes them
+const registeredOperations = (): { method: string; path: string }[] => {
+  return apiRoutes.flatMap(mount =>
+    (mount.router.stack as any[])
+      .filter(layer => layer.route)
+      .flatMap(layer =>
+        Object.keys(layer.route.methods)
+          .filter(method => method !== '_all')
+          .map(method => ({
+            method,
+            path: `${mount.path}${layer.route.path === '/' ? '' : layer.route.path}`.replace(/:(\w+)/g, '{$1}')
+          }))
+      )
+  );
+};
+
+describe('buildOpenApiSpec', () => {
+  const spec = buildOpenApiSpec(apiRoutes);
+  const operations = registeredOperations();
+
+  it('finds routes on every router', () => {
+    apiRoutes.forEach(mount => {
+      expect(operations.some(operation => operation.path.startsWith(mount.path))).toBe(true);
+    });
+  });
+
+  it.each(operations)('documents $method $path', ({ method, path }) => {
+    expect(spec.paths[path]?.[method]).toBeDefined();
+  });
+
+  it('only documents registered routes', () => {
+    const documented = Object.entries(spec.paths).flatMap(([path, methods]) =>
+      Object.keys(methods as object).map(method => `${method} ${path}`)
+    );
+
+    expect(documented.sort()).toEqual(Array.from(new Set(operations.map(({ method, path }) => `${method} ${path}`))).sort());
+  });
+
+  it('has no nested routers, whose routes it would miss', () => {
+    apiRoutes.forEach(mount => {
+      expect((mount.router.stack as any[]).filter(layer => layer.name === 'router')).toHaveLength(0);
+    });
+  });
+
+  it('gives every operation a unique ID', () => {
+    const ids = Object.values(spec.paths).flatMap(methods =>
+      Object.values(methods as Record<string, any>).map(operation => operation.operationId)
+    );
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,428 @@
+import mongoose from 'mongoose';
+import { config } from '../config/config';
+import { ApiRouteMount } from '../routes';
+import User from '../models/User';
+import BloodRequest from '../models/BloodRequest';
+import DonationRecord from '../models/DonationRecord';
+import * as adminController from '../controllers/adminController';
+import * as appointmentController from '../controllers/appointmentController';
+import * as authController from '../controllers/authController';
+import * as bloodRequestController from '../controllers/bloodRequestController';
+import * as campController from '../controllers/campController';
+import * as contactRequestController from '../controllers/contactRequestController';
+import * as donationController from '../controllers/donationController';
+import * as inventoryController from '../controllers/inventoryController';
+import * as notificationController from '../controllers/notificationController';
+import * as organisationController from '../controllers/organisationController';
+import * as pledgeController from '../controllers/pledgeController';
+import * as pointsRuleController from '../controllers/pointsRuleController';
+import * as screeningController from '../controllers/screeningController';
+import * as userController from '../controllers/userController';
+
+type JsonSchema = Record<string, any>;
+
+const CONTROLLERS: Record<string, unknown>[] = [
+  adminController,
+  appointmentController,
+  authController,
+  bloodRequestController,
+  campController,
+  contactRequestController,
+  donationController,
+  inventoryController,
+  notificationController,
+  organisationController,
+  pledgeController,
+  pointsRuleController,
+  screeningController,
+  userController
+];
+
+// Component schemas built from the models behind IUser, IBloodRequest and IDonationRecord
+const MODEL_SCHEMAS: Record<string, mongoose.Model<any>> = {
+  User,
+  BloodRequest,
+  DonationRecord
+};
+
+const MONGO_ID_PATTERN = '^[0-9a-fA-F]{24}$';
+
+// Handlers are wrapped by catchAsync and lose their names, so they are looked up by reference
+const handlerNames = (): Map<unknown, string> => {
+  const names = new Map<unknown, string>();
+
+  CONTROLLERS.forEach(controller => {
+    Object.entries(controller).forEach(([name, handler]) => {
+      if (typeof handler === 'function') {
+        names.set(handler, name);
+      }
+    });
+  });
+
+  return names;
+};
+
+// 'deleteUserAccount' -> 'Delete user account'
+const humanise = (name: string): string => {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const schemaTypeToJson = (schemaType: any): JsonSchema => {
+  switch (schemaType.instance) {
+    case 'String': {
+      const schema: JsonSchema = { type: 'string' };
+      if (schemaType.enumValues?.length) schema.enum = schemaType.enumValues;
+      return schema;
+    }
+    case 'Number':
+      return { type: 'number' };
+    case 'Boolean':
+      return { type: 'boolean' };
+    case 'Date':
+      return { type: 'string', format: 'date-time' };
+    case 'ObjectId':
+      return { type: 'string', pattern: MONGO_ID_PATTERN };
+    case 'Array':
+      if (schemaType.schema) {
+        return { type: 'array', items: mongooseSchemaToJson(schemaType.schema) };
+      }
+      return { type: 'array', items: schemaType.caster ? schemaTypeToJson(schemaType.caster) : {} };
+    case 'Embedded':
+      return mongooseSchemaToJson(schemaType.schema);
+    default:
+      return {};
+  }
+};
+
+// Set a dotted path ('location.coordinates') inside an object schema, creating the levels between
+const setNestedProperty = (root: JsonSchema, path: string, schema: JsonSchema, required: boolean): void => {
+  const parts = path.split('.');
+  let node = root;
+
+  parts.slice(0, -1).forEach(part => {
+    node.properties = node.properties || {};
+    node.properties[part] = node.properties[part] || { type: 'object' };
+    node = node.properties[part];
+  });
+
+  const last = parts[parts.length - 1];
+  node.properties = node.properties || {};
+  node.properties[last] = schema;
+
+  if (required) {
+    node.required = [...(node.required || []), last];
+  }
+};
+
+// Fields selected out by default (passwords, tokens) are never returned, so they are left out
+const mongooseSchemaToJson = (schema: mongoose.Schema): JsonSchema => {
+  const json: JsonSchema = { type: 'object' };
+
+  schema.eachPath((path, schemaType: any) => {
+    if (path === '__v' || schemaType.options?.select === false) return;
+    setNestedProperty(json, path, schemaTypeToJson(schemaType), !!schemaType.isRequired);
+  });
+
+  return json;
+};
+
+// What one express-validator check says about the value's shape
+const applyValidation = (schema: JsonSchema, name: string, options: any[] = [], negated: boolean): void => {
+  if (negated) return;
+
+  const [option] = options;
+
+  switch (name) {
+    case 'isLength':
+      schema.type = schema.type || 'string';
+      if (option?.min !== undefined) schema.minLength = option.min;
+      if (option?.max !== undefined) schema.maxLength = option.max;
+      break;
+    case 'isIn':
+      if (Array.isArray(option)) schema.enum = option;
+      break;
+    case 'isInt':
+    case 'isFloat':
+      schema.type = name === 'isInt' ? 'integer' : 'number';
+      if (option?.min !== undefined) schema.minimum = option.min;
+      if (option?.max !== undefined) schema.maximum = option.max;
+      break;
+    case 'isBoolean':
+      schema.type = 'boolean';
+      break;
+    case 'isMongoId':
+      schema.type = 'string';
+      schema.pattern = MONGO_ID_PATTERN;
+      break;
+    case 'isEmail':
+      schema.type = 'string';
+      schema.format = 'email';
+      break;
+    case 'isURL':
+      schema.type = 'string';
+      schema.format = 'uri';
+      break;
+    case 'isISO8601':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+    case 'isHexadecimal':
+      schema.type = 'string';
+      schema.pattern = '^[0-9a-fA-F]+$';
+      break;
+    case 'matches':
+      schema.type = schema.type || 'string';
+      schema.pattern = option instanceof RegExp ? option.source : String(option);
+      break;
+    case 'isArray':
+      schema.type = 'array';
+      schema.items = schema.items || {};
+      if (option?.min !== undefined) schema.minItems = option.min;
+      if (option?.max !== undefined) schema.maxItems = option.max;
+      break;
+    case 'isObject':
+      schema.type = 'object';
+      break;
+    case 'isString':
+    case 'notEmpty':
+      schema.type = schema.type || 'string';
+      if (name === 'notEmpty') schema.minLength = Math.max(schema.minLength || 0, 1);
+      break;
+  }
+};
+
+interface FieldRule {
+  location: string;
+  field: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+// Read the fields, locations and checks out of an express-validator chain
+const describeChain = (chain: any): FieldRule[] => {
+  const context = chain.builder.build();
+  const schema: JsonSchema = {};
+  const conditional = context.stack.some((item: any) => /Condition$/.test(item.constructor.name));
+
+  context.stack.forEach((item: any) => {
+    if (item.constructor.name !== 'StandardValidation') return;
+
+    applyValidation(schema, item.validator.name, item.options, item.negated);
+  });
+
+  return context.fields.flatMap((field: string) => context.locations.map((location: string) => ({
+    location,
+    field,
+    required: context.optional === false && !conditional,
+    schema: { ...schema }
+  })));
+};
+
+// Place a body field, including 'items.*.units' style paths, in the request body schema
+const addBodyField = (body: JsonSchema, rule: FieldRule): void => {
+  const parts = rule.field.split('.');
+  let node = body;
+
+  parts.forEach((part, index) => {
+    const isLast = index === parts.length - 1;
+
+    if (part === '*') {
+      node.type = 'array';
+      node.items = node.items || { type: 'object' };
+      if (isLast) Object.assign(node.items, rule.schema);
+      node = node.items;
+      return;
+    }
+
+    node.type = node.type || 'object';
+    node.properties = node.properties || {};
+
+    if (isLast) {
+      node.properties[part] = { ...(node.properties[part] || {}), ...rule.schema };
+      if (rule.required) node.required = [...new Set([...(node.required || []), part])];
+      return;
+    }
+
+    node.properties[part] = node.properties[part] || {};
+    node = node.properties[part];
+  });
+};
+
+const dataResponse = (data?: JsonSchema): JsonSchema => ({
+  description: 'Success',
+  content: {
+    'application/json': {
+      schema: data
+        ? { allOf: [{ $ref: '#/components/schemas/ApiResponse' }, { type: 'object', properties: { data } }] }
+        : { $ref: '#/components/schemas/ApiResponse' }
+    }
+  }
+});
+
+const errorResponse = (description: string): JsonSchema => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } }
+});
+
+// Build an operation for one route from the validators and handler on it
+const describeRoute = (
+  mount: ApiRouteMount,
+  routePath: string,
+  method: string,
+  handlers: any[],
+  isProtected: boolean,
+  names: Map<unknown, string>
+): JsonSchema => {
+  const rules = handlers.filter(handler => handler?.builder).flatMap(describeChain);
+  const handlerName = names.get(handlers[handlers.length - 1]);
+  const pathParams = (routePath.match(/:(\w+)/g) || []).map(param => param.slice(1));
+
+  const parameters = [
+    ...pathParams.map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: rules.find(rule => rule.location === 'params' && rule.field === name)?.schema || { type: 'string' }
+    })),
+    ...rules
+      .filter(rule => rule.location === 'query')
+      .map(rule => ({ name: rule.field, in: 'query', required: rule.required, schema: rule.schema }))
+  ];
+
+  const body: JsonSchema = { type: 'object' };
+  rules.filter(rule => rule.location === 'body').forEach(rule => addBodyField(body, rule));
+
+  let data: JsonSchema | undefined;
+  if (mount.schema && method === 'get' && routePath === '/:id') {
+    data = { $ref: `#/components/schemas/${mount.schema}` };
+  } else if (mount.schema && method === 'get' && routePath === '/') {
+    data = {
+      allOf: [
+        { $ref: '#/components/schemas/Pagination' },
+        { type: 'object', properties: { data: { type: 'array', items: { $ref: `#/components/schemas/${mount.schema}` } } } }
+      ]
+    };
+  }
+
+  const operation: JsonSchema = {
+    tags: [mount.tag],
+    summary: handlerName ? humanise(handlerName) : `${method.toUpperCase()} ${mount.path}${routePath}`,
+    operationId: handlerName,
+    parameters,
+    responses: {
+      200: dataResponse(data),
+      ...(rules.length ? { 400: errorResponse('Validation failed') } : {}),
+      ...(isProtected ? { 401: errorResponse('Not authenticated'), 403: errorResponse('Not allowed') } : {})
+    }
+  };
+
+  if (!operation.operationId) delete operation.operationId;
+  if (body.properties) {
+    operation.requestBody = {
+      required: !!body.required?.length,
+      content: { 'application/json': { schema: body } }
+    };
+  }
+  if (isProtected) {
+    operation.security = [{ bearerAuth: [] }];
+  }
+
+  return operation;
+};
+
+// The routes of a router in registration order. Everything after a router-level middleware
+// (router.use(authenticate)) requires a logged-in user.
+const listRoutes = (router: any): { path: string; method: string; handlers: any[]; isProtected: boolean }[] => {
+  let isProtected = false;
+
+  return router.stack.flatMap((layer: any) => {
+    if (!layer.route) {
+      isProtected = true;
+      return [];
+    }
+
+    return Object.keys(layer.route.methods)
+      .filter(method => method !== '_all')
+      .map(method => ({
+        path: layer.route.path,
+        method,
+        handlers: layer.route.stack.filter((routeLayer: any) => routeLayer.method === method || !routeLayer.method)
+          .map((routeLayer: any) => routeLayer.handle),
+        isProtected
+      }));
+  });
+};
+
+// Build the OpenAPI 3 document for the mounted API routers
+export const buildOpenApiSpec = (mounts: ApiRouteMount[]): JsonSchema => {
+  const names = handlerNames();
+  const operationIds = new Set<string>();
+  const paths: JsonSchema = {};
+
+  mounts.forEach(mount => {
+    listRoutes(mount.router).forEach(route => {
+      const path = `${mount.path}${route.path === '/' ? '' : route.path}`.replace(/:(\w+)/g, '{$1}');
+      const operation = describeRoute(mount, route.path, route.method, route.handlers, route.isProtected, names);
+
+      // Operation IDs must be unique; admin and user controllers both have a getUsers
+      if (operation.operationId && operationIds.has(operation.operationId)) {
+        operation.operationId += mount.tag.replace(/\s/g, '');
+      }
+      if (operation.operationId) operationIds.add(operation.operationId);
+
+      paths[path] = paths[path] || {};
+      paths[path][route.method] = operation;
+    });
+  });
+
+  const modelSchemas = Object.fromEntries(
+    Object.entries(MODEL_SCHEMAS).map(([name, model]) => [name, mongooseSchemaToJson(model.schema)])
+  );
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Blood Buddy Pro API',
+      version: process.env.npm_package_version || '1.0.0',
+      description: 'Generated from the Express routers and request validators.'
+    },
+    servers: [{ url: config.apiUrl }],
+    tags: mounts.map(mount => ({ name: mount.tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      },
+      schemas: {
+        ApiResponse: {
+          type: 'object',
+          required: ['success', 'message'],
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {},
+            error: { type: 'string' }
+          }
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'integer' },
+                limit: { type: 'integer' },
+                total: { type: 'integer' },
+                pages: { type: 'integer' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' }
+              }
+            }
+          }
+        },
+        ...modelSchemas
+      }
+    }
+  };
+};
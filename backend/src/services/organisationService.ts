@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import DonationRecord from '../models/DonationRecord';
+import Organisation from '../models/Organisation';
+import OrganisationMember, { IOrganisationMemberDocument } from '../models/OrganisationMember';
+import TeamLeaderboardEntry from '../models/TeamLeaderboardEntry';
+import { AppError } from '../middleware/errorHandler';
+import { OrganisationRole } from '../types';
+import { LeaderboardWindow, ensureLeaderboards } from './leaderboardService';
+import { toPage } from './listQueryService';
+
+// Blood groups with fewer donors than this are folded into 'other' in organisation stats, so a
+// small team's report cannot be used to work out a colleague's blood group
+export const MIN_REPORTED_GROUP_SIZE = 5;
+
+const MANAGER_ROLES: OrganisationRole[] = ['owner', 'admin'];
+
+// Best first; ties go to more donations, then to the older organisation
+const TEAM_RANKING_SORT = { totalPoints: -1, totalDonations: -1, organisationId: 1 } as const;
+
+export const generateInviteCode = (): string => crypto.randomBytes(5).toString('hex').toUpperCase();
+
+export const getMembership = (organisationId: any, userId: any): Promise<IOrganisationMemberDocument | null> => {
+  return OrganisationMember.findOne({ organisationId, userId });
+};
+
+export const isManager = (membership: IOrganisationMemberDocument | null): boolean => {
+  return !!membership && MANAGER_ROLES.includes(membership.role);
+};
+
+// The ids of an organisation's members, e.g. to filter the donor leaderboard to a team
+export const getMemberIds = async (organisationId: any): Promise<mongoose.Types.ObjectId[]> => {
+  const members = await OrganisationMember.find({ organisationId }).select('userId');
+  return members.map(member => member.userId);
+};
+
+// Throws when a change would leave an organisation without an owner
+export const assertOwnerRemains = async (membership: IOrganisationMemberDocument): Promise<void> => {
+  if (membership.role !== 'owner') return;
+
+  const owners = await OrganisationMember.countDocuments({ organisationId: membership.organisationId, role: 'owner' });
+  if (owners <= 1) {
+    throw new AppError('An organisation needs at least one owner; make another member an owner first', 400);
+  }
+};
+
+// Completed donations made by an organisation's members since they joined, optionally within a window
+const teamDonationsPipeline = (window?: LeaderboardWindow) => [
+  {
+    $lookup: {
+      from: DonationRecord.collection.collectionName,
+      let: { userId: '$userId', joinedAt: '$joinedAt' },
+      pipeline: [
+        {
+          $match: {
+            status: 'completed',
+            ...(window?.start && { date: { $gte: window.start, $lt: window.end } }),
+            $expr: {
+              $and: [
+                { $eq: ['$donorId', '$$userId'] },
+                { $gte: ['$date', '$$joinedAt'] }
+              ]
+            }
+          }
+        },
+        { $project: { date: 1, points: 1, unitsContributed: 1, bloodGroup: 1 } }
+      ],
+      as: 'donation'
+    }
+  },
+  { $unwind: '$donation' }
+];
+
+// Recompute the team leaderboard snapshot of one period. Inactive organisations are left out.
+export const computeTeamLeaderboard = async (window: LeaderboardWindow): Promise<number> => {
+  const computedAt = new Date();
+
+  await OrganisationMember.aggregate([
+    ...teamDonationsPipeline(window),
+    {
+      $group: {
+        _id: '$organisationId',
+        totalPoints: { $sum: '$donation.points' },
+        totalDonations: { $sum: 1 },
+        totalUnits: { $sum: '$donation.unitsContributed' },
+        donors: { $addToSet: '$userId' }
+      }
+    },
+    { $lookup: { from: Organisation.collection.collectionName, localField: '_id', foreignField: '_id', as: 'organisation' } },
+    { $unwind: '$organisation' },
+    { $match: { 'organisation.isActive': true } },
+    {
+      $project: {
+        _id: 0,
+        period: window.period,
+        periodKey: window.periodKey,
+        organisationId: '$_id',
+        organisationName: '$organisation.name',
+        totalPoints: 1,
+        totalDonations: 1,
+        totalUnits: 1,
+        donors: { $size: '$donors' },
+        computedAt: { $literal: computedAt }
+      }
+    },
+    {
+      $merge: {
+        into: TeamLeaderboardEntry.collection.collectionName,
+        on: ['period', 'periodKey', 'organisationId'],
+        whenMatched: 'merge',
+        whenNotMatched: 'insert'
+      }
+    }
+  ]);
+
+  // Teams without donations in the period any more, or deactivated, were not refreshed
+  await TeamLeaderboardEntry.deleteMany({
+    period: window.period,
+    periodKey: window.periodKey,
+    computedAt: { $lt: computedAt }
+  });
+
+  return TeamLeaderboardEntry.countDocuments({ period: window.period, periodKey: window.periodKey });
+};
+
+// A page of the team leaderboard, with each organisation's rank
+export const getTeamLeaderboard = async (window: LeaderboardWindow, page: number, limit: number) => {
+  await ensureLeaderboards(window);
+
+  const skip = (page - 1) * limit;
+  const boardFilter = { period: window.period, periodKey: window.periodKey };
+  const [entries, total] = await Promise.all([
+    TeamLeaderboardEntry.find(boardFilter)
+      .sort(TEAM_RANKING_SORT)
+      .skip(skip)
+      .limit(limit)
+      .select('-_id -__v'),
+    TeamLeaderboardEntry.countDocuments(boardFilter)
+  ]);
+
+  return toPage(entries.map((entry, index) => ({ rank: skip + index + 1, ...entry.toObject() })), page, limit, total);
+};
+
+// Aggregate donation stats of an organisation for CSR reporting. Nothing here identifies a member:
+// no names, no per-person figures, and small blood group counts are withheld.
+export const getOrganisationStats = async (organisationId: any, window: LeaderboardWindow) => {
+  const orgId = new mongoose.Types.ObjectId(String(organisationId));
+
+  const [members, [stats]] = await Promise.all([
+    OrganisationMember.countDocuments({ organisationId: orgId }),
+    OrganisationMember.aggregate([
+      { $match: { organisationId: orgId } },
+      ...teamDonationsPipeline(window),
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                totalDonations: { $sum: 1 },
+                totalUnits: { $sum: '$donation.unitsContributed' },
+                totalPoints: { $sum: '$donation.points' },
+                donors: { $addToSet: '$userId' }
+              }
+            },
+            { $project: { _id: 0, totalDonations: 1, totalUnits: 1, totalPoints: 1, activeDonors: { $size: '$donors' } } }
+          ],
+          monthly: [
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m', date: '$donation.date' } },
+                donations: { $sum: 1 },
+                units: { $sum: '$donation.unitsContributed' }
+              }
+            },
+            { $sort: { _id: 1 } },
+            { $project: { _id: 0, month: '$_id', donations: 1, units: 1 } }
+          ],
+          byBloodGroup: [
+            {
+              $group: {
+                _id: '$donation.bloodGroup',
+                donors: { $addToSet: '$userId' },
+                donations: { $sum: 1 },
+                units: { $sum: '$donation.unitsContributed' }
+              }
+            },
+            { $sort: { donations: -1 } },
+            { $project: { _id: 0, bloodGroup: '$_id', donors: { $size: '$donors' }, donations: 1, units: 1 } }
+          ]
+        }
+      }
+    ])
+  ]);
+
+  const totals = stats?.totals[0] || { totalDonations: 0, totalUnits: 0, totalPoints: 0, activeDonors: 0 };
+  const byBloodGroup = (stats?.byBloodGroup || []) as { bloodGroup: string; donors: number; donations: number; units: number }[];
+  const reported = byBloodGroup.filter(group => group.donors >= MIN_REPORTED_GROUP_SIZE);
+  const withheld = byBloodGroup.filter(group => group.donors < MIN_REPORTED_GROUP_SIZE);
+
+  return {
+    period: window.period,
+    periodKey: window.periodKey,
+    members,
+    ...totals,
+    participationRate: members ? Math.round((totals.activeDonors / members) * 100) : 0,
+    monthly: stats?.monthly || [],
+    byBloodGroup: withheld.length
+      ? [...reported, {
+          bloodGroup: 'other',
+          donors: withheld.reduce((sum, group) => sum + group.donors, 0),
+          donations: withheld.reduce((sum, group) => sum + group.donations, 0),
+          units: withheld.reduce((sum, group) => sum + group.units, 0)
+        }]
+      : reported
+  };
+};
+
+// Take an organisation off the team leaderboards at once, e.g. when it is deactivated
+export const removeFromTeamLeaderboards = async (organisationId: any): Promise<void> => {
+  await TeamLeaderboardEntry.deleteMany({ organisationId });
+};
+
+// Create an organisation with its creator as owner
+export const createOrganisation = async (data: Record<string, any>, creatorId: any) => {
+  const organisation = await Organisation.create({
+    ...data,
+    inviteCode: generateInviteCode(),
+    createdBy: creatorId
+  });
+
+  await OrganisationMember.create({ organisationId: organisation._id, userId: creatorId, role: 'owner' });
+
+  return organisation;
+};
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest';
+import Pledge from '../models/Pledge';
+import User from '../models/User';
+import DonationRecord, { IDonationRecordDocument } from '../models/DonationRecord';
+import { notifyUser, NotificationPayload } from './notificationService';
+import { publishBloodRequestEvent } from './socketService';
+
+type Id = mongoose.Types.ObjectId | string;
+
+// Notify a user by ID, logging instead of failing the caller
+export const notifyUserById = async (userId: Id, payload: NotificationPayload, dedupeKey: string): Promise<void> => {
+  try {
+    const user = await User.findById(userId).select('+pushTokens');
+    if (user) {
+      await notifyUser(user, payload, { dedupeKey });
+    }
+  } catch (error) {
+    console.error('Pledge notification error:', error);
+  }
+};
+
+// Close pledges still waiting for an answer once a request no longer needs donors
+export const cancelPendingPledges = async (requestId: Id | { $in: Id[] }, note: string): Promise<void> => {
+  await Pledge.updateMany(
+    { requestId, status: 'pending' },
+    { $set: { status: 'cancelled', responseNote: note, respondedAt: new Date() } }
+  );
+};
+
+// Count a completed donation toward its request and its pledge, fulfilling the request when enough units are in
+export const recordDonationCompleted = async (donation: IDonationRecordDocument): Promise<void> => {
+  if (donation.pledgeId) {
+    await Pledge.updateOne(
+      { _id: donation.pledgeId, status: 'accepted' },
+      { $set: { status: 'completed' } }
+    );
+  }
+
+  if (!donation.requestId) return;
+
+  const current = await BloodRequest.findById(donation.requestId).select('status');
+  if (!current) return;
+
+  // Atomic increment so concurrent completions cannot lose units
+  const bloodRequest = await BloodRequest.findByIdAndUpdate(
+    donation.requestId,
+    {
+      $inc: { unitsFulfilled: donation.unitsContributed },
+      $addToSet: { fulfilledBy: donation.donorId },
+      $push: {
+        history: {
+          action: 'donation_completed',
+          status: current.status,
+          by: donation.donorId,
+          byName: donation.donorName,
+          note: `${donation.unitsContributed} unit(s) donated`,
+          at: new Date()
+        }
+      }
+    },
+    { new: true }
+  );
+
+  if (!bloodRequest) return;
+
+  if (bloodRequest.status !== 'active' || (bloodRequest.unitsFulfilled || 0) < bloodRequest.unitsNeeded) {
+    publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+    return;
+  }
+
+  const fulfilledRequest = await BloodRequest.findOneAndUpdate(
+    { _id: bloodRequest._id, status: 'active' },
+    {
+      $set: { status: 'fulfilled' },
+      $push: {
+        history: {
+          action: 'fulfilled',
+          status: 'fulfilled',
+          note: `${bloodRequest.unitsFulfilled} of ${bloodRequest.unitsNeeded} unit(s) donated`,
+          at: new Date()
+        }
+      }
+    },
+    { new: true }
+  );
+
+  if (fulfilledRequest) {
+    await cancelPendingPledges(fulfilledRequest._id, 'Request has been fulfilled');
+    publishBloodRequestEvent('bloodRequest:fulfilled', fulfilledRequest);
+  }
+};
+
+// Release the pledge behind a cancelled donation and note it on the request
+export const recordDonationCancelled = async (donation: IDonationRecordDocument): Promise<void> => {
+  if (donation.pledgeId) {
+    await Pledge.updateOne(
+      { _id: donation.pledgeId, status: { $in: ['pending', 'accepted'] } },
+      { $set: { status: 'cancelled' } }
+    );
+  }
+
+  if (!donation.requestId) return;
+
+  const bloodRequest = await BloodRequest.findById(donation.requestId);
+  if (bloodRequest) {
+    bloodRequest.addHistory('donation_cancelled', { _id: donation.donorId, name: donation.donorName });
+    await bloodRequest.save();
+  }
+};
+
+// Take a reversed donation back out of its request's progress; the request is not reopened automatically
+export const recordDonationReversed = async (donation: IDonationRecordDocument, reason: string): Promise<void> => {
+  if (donation.pledgeId) {
+    await Pledge.updateOne(
+      { _id: donation.pledgeId, status: 'completed' },
+      { $set: { status: 'cancelled', responseNote: reason } }
+    );
+  }
+
+  if (!donation.requestId) return;
+
+  const bloodRequest = await BloodRequest.findById(donation.requestId);
+  if (!bloodRequest) return;
+
+  bloodRequest.unitsFulfilled = Math.max((bloodRequest.unitsFulfilled || 0) - donation.unitsContributed, 0);
+  bloodRequest.addHistory('donation_reversed', undefined, reason);
+
+  // Keep the donor listed only if another of their donations to this request still counts
+  const otherDonations = await DonationRecord.countDocuments({
+    requestId: bloodRequest._id,
+    donorId: donation.donorId,
+    status: 'completed'
+  });
+  if (otherDonations === 0) {
+    bloodRequest.fulfilledBy = (bloodRequest.fulfilledBy || []).filter(
+      donorId => donorId.toString() !== donation.donorId.toString()
+    );
+  }
+
+  await bloodRequest.save();
+  publishBloodRequestEvent('bloodRequest:updated', bloodRequest);
+};
@@ -0,0 +1,35 @@
+import { config } from '../config/config';
+import PointsRecalculation from '../models/PointsRecalculation';
+import { rescoreDonations } from './pointsService';
+import { ScheduledJob } from './scheduler';
+
+// Run the oldest requested points recalculation, if any; returns whether one was run
+export const runNextPointsRecalculation = async (): Promise<boolean> => {
+  const recalculation = await PointsRecalculation.findOneAndUpdate(
+    { status: 'pending' },
+    { $set: { status: 'running', startedAt: new Date() } },
+    { new: true, sort: { createdAt: 1 } }
+  );
+
+  if (!recalculation) return false;
+
+  try {
+    const { processed, changed } = await rescoreDonations(recalculation.from, recalculation.to);
+    recalculation.set({ status: 'completed', processed, changed, completedAt: new Date() });
+  } catch (error: any) {
+    recalculation.set({ status: 'failed', error: error.message, completedAt: new Date() });
+  }
+
+  await recalculation.save();
+  return true;
+};
+
+export const pointsRecalculationJob: ScheduledJob = {
+  name: 'points-recalculation',
+  intervalMs: config.pointsJobIntervalMs,
+  run: async () => {
+    while (await runNextPointsRecalculation()) {
+      console.log('Points recalculation job: recalculation finished');
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import PointsRule, { IPointsRuleDocument } from '../models/PointsRule';
+import DonationRecord, { IDonationRecordDocument, PointsRuleValues } from '../models/DonationRecord';
+import BloodRequest from '../models/BloodRequest';
+import { UrgencyLevel } from '../types';
+import { refreshAchievements } from './achievementService';
+
+// Used for donations dated before the first stored rule; matches the original flat scoring
+export const DEFAULT_POINTS_RULE: PointsRuleValues = {
+  basePoints: 50,
+  extraUnitPoints: 25,
+  requestPoints: { critical: 25, urgent: 25, normal: 25 },
+  rareBloodGroupPoints: 0,
+  campPoints: 0,
+  firstDonationPoints: 0
+};
+
+// The rule in effect on a date, or null when the default applies
+export const getPointsRule = (date: Date = new Date()): Promise<IPointsRuleDocument | null> => {
+  return PointsRule.findOne({ effectiveFrom: { $lte: date } }).sort({ effectiveFrom: -1 });
+};
+
+// Score a donation by the rule in effect on its date
+export const scoreDonation = async (
+  donation: IDonationRecordDocument
+): Promise<{ points: number; pointsRuleId?: any }> => {
+  const [rule, request, earlierDonation] = await Promise.all([
+    getPointsRule(donation.date),
+    donation.requestId ? BloodRequest.findById(donation.requestId).select('urgency') : null,
+    DonationRecord.exists({
+      donorId: donation.donorId,
+      status: 'completed',
+      _id: { $ne: donation._id },
+      date: { $lt: donation.date }
+    })
+  ]);
+
+  const points = donation.calculatePoints(rule || DEFAULT_POINTS_RULE, {
+    requestUrgency: request?.urgency as UrgencyLevel | undefined,
+    firstDonation: !earlierDonation
+  });
+
+  return { points, pointsRuleId: rule?._id };
+};
+
+// Store the score of a donation that has just been verified
+export const awardPoints = async (donation: IDonationRecordDocument): Promise<IDonationRecordDocument> => {
+  const { points, pointsRuleId } = await scoreDonation(donation);
+
+  donation.points = points;
+  donation.set('pointsRuleId', pointsRuleId);
+  await DonationRecord.updateOne(
+    { _id: donation._id },
+    pointsRuleId ? { $set: { points, pointsRuleId } } : { $set: { points }, $unset: { pointsRuleId: 1 } }
+  );
+
+  return donation;
+};
+
+// Rescore completed donations dated in [from, to) by the rules now stored, e.g. after a rule was
+// corrected, and bring the affected donors' tiers up to date
+export const rescoreDonations = async (from: Date, to: Date): Promise<{ processed: number; changed: number }> => {
+  const donations = DonationRecord.find({ status: 'completed', date: { $gte: from, $lt: to } })
+    .sort({ date: 1 })
+    .cursor();
+
+  let processed = 0;
+  let changed = 0;
+  const affectedDonors = new Set<string>();
+
+  for await (const donation of donations) {
+    const previousPoints = donation.points;
+    const previousRuleId = donation.pointsRuleId?.toString();
+    await awardPoints(donation);
+
+    processed++;
+    if (donation.points !== previousPoints || donation.pointsRuleId?.toString() !== previousRuleId) {
+      changed++;
+      affectedDonors.add(donation.donorId.toString());
+    }
+  }
+
+  for (const donorId of affectedDonors) {
+    await refreshAchievements(donorId);
+  }
+
+  return { processed, changed };
+};
@@ -0,0 +1,93 @@
+import { config } from '../config/config';
+import BloodRequest from '../models/BloodRequest';
+import User from '../models/User';
+import { notifyUser } from './notificationService';
+import { publishBloodRequestEvent } from './socketService';
+import { cancelPendingPledges } from './pledgeService';
+import { ScheduledJob } from './scheduler';
+
+// Requests handled per run, so one slow run cannot hold the lock for long
+const BATCH_SIZE = 500;
+
+// Mark every active request past its expiry date as expired
+export const expireOverdueRequests = async (now: Date = new Date()): Promise<number> => {
+  const overdue = await BloodRequest.find({ status: 'active', expiresAt: { $lte: now } })
+    .limit(BATCH_SIZE);
+
+  if (overdue.length === 0) return 0;
+
+  // Re-check the status so a request fulfilled in the meantime is left alone
+  const result = await BloodRequest.updateMany(
+    { _id: { $in: overdue.map(request => request._id) }, status: 'active' },
+    {
+      $set: { status: 'expired' },
+      $push: { history: { action: 'expired', status: 'expired', at: now } }
+    }
+  );
+
+  await cancelPendingPledges({ $in: overdue.map(request => request._id) }, 'Request has expired');
+
+  overdue.forEach(request => {
+    request.status = 'expired';
+    publishBloodRequestEvent('bloodRequest:expired', request);
+  });
+
+  return result.modifiedCount;
+};
+
+// Tell requesters their active request is about to expire, once per expiry date
+export const warnExpiringRequests = async (now: Date = new Date()): Promise<number> => {
+  const warningWindowEnd = new Date(now.getTime() + config.requestExpiryWarningHours * 60 * 60 * 1000);
+
+  const expiring = await BloodRequest.find({
+    status: 'active',
+    expiresAt: { $gt: now, $lte: warningWindowEnd },
+    expiryWarningSentAt: { $exists: false }
+  }).limit(BATCH_SIZE);
+
+  let warned = 0;
+
+  for (const request of expiring) {
+    // One failing request is retried on the next run and does not hold up the others
+    try {
+      const requester = await User.findById(request.requesterId).select('+pushTokens');
+
+      if (requester) {
+        const canExtend = (request.extensionCount || 0) < config.maxRequestExtensions;
+
+        await notifyUser(requester, {
+          type: 'blood_request_expiring',
+          title: `Your ${request.bloodGroup} request for ${request.patientName} expires soon`,
+          message: `Your request at ${request.hospital} expires at ${request.expiresAt!.toISOString()}. ` +
+            (canExtend
+              ? `You can extend it once from ${config.frontendUrl}/requests/${request._id}.`
+              : 'It has already been extended and will close when it expires.'),
+          data: { requestId: request._id, expiresAt: request.expiresAt, canExtend }
+        }, {
+          dedupeKey: `blood_request_expiring:${request._id}:${request.expiresAt!.getTime()}`
+        });
+        warned += 1;
+      }
+
+      request.expiryWarningSentAt = now;
+      await request.save();
+    } catch (error) {
+      console.error(`Expiry warning for request ${request._id} failed:`, error);
+    }
+  }
+
+  return warned;
+};
+
+export const requestExpiryJob: ScheduledJob = {
+  name: 'blood-request-expiry',
+  intervalMs: config.requestExpiryJobIntervalMs,
+  run: async () => {
+    const expired = await expireOverdueRequests();
+    const warned = await warnExpiringRequests();
+
+    if (expired > 0 || warned > 0) {
+      console.log(`Request expiry job: ${expired} expired, ${warned} warned`);
+    }
+  }
+};
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import os from 'os';
+import JobLock from '../models/JobLock';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+// Identifies this process when several API instances share a database
+const instanceId = `${os.hostname()}:${process.pid}`;
+
+const timers: NodeJS.Timeout[] = [];
+
+// Take the named lock for one run unless any run, here or elsewhere, holds an unexpired one.
+// Returns the run's token, or null when the lock is taken.
+const acquireLock = async (name: string, ttlMs: number): Promise<string | null> => {
+  const now = new Date();
+  const token = `${instanceId}:${crypto.randomBytes(8).toString('hex')}`;
+
+  try {
+    const lock = await JobLock.findOneAndUpdate(
+      { name, lockedUntil: { $lte: now } },
+      { $set: { lockedBy: token, lockedUntil: new Date(now.getTime() + ttlMs) } },
+      { upsert: true, new: true }
+    );
+    return lock ? token : null;
+  } catch (error: any) {
+    // Another run created or holds the lock (upsert lost the race on the unique name)
+    if (error.code === 11000) return null;
+    throw error;
+  }
+};
+
+// Push the lock's expiry back while its run is still going
+const renewLock = async (name: string, token: string, ttlMs: number): Promise<void> => {
+  await JobLock.updateOne(
+    { name, lockedBy: token },
+    { $set: { lockedUntil: new Date(Date.now() + ttlMs) } }
+  );
+};
+
+const releaseLock = async (name: string, token: string): Promise<void> => {
+  await JobLock.updateOne(
+    { name, lockedBy: token },
+    { $set: { lockedUntil: new Date(), lastRunAt: new Date() } }
+  );
+};
+
+// Run a job once if this run wins its lock
+export const runJob = async (job: ScheduledJob): Promise<boolean> => {
+  // A crashed holder's lock lapses after one interval; a live run keeps renewing it
+  const token = await acquireLock(job.name, job.intervalMs);
+  if (!token) return false;
+
+  const renewal = setInterval(() => {
+    renewLock(job.name, token, job.intervalMs).catch(error => {
+      console.error(`Could not renew the lock of job ${job.name}:`, error);
+    });
+  }, job.intervalMs / 2);
+  renewal.unref();
+
+  try {
+    await job.run();
+  } finally {
+    clearInterval(renewal);
+    await releaseLock(job.name, token);
+  }
+  return true;
+};
+
+// Start running jobs on their intervals
+export const startScheduler = (jobs: ScheduledJob[]): void => {
+  jobs.forEach(job => {
+    const tick = () => {
+      runJob(job).catch(error => {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+      });
+    };
+
+    const timer = setInterval(tick, job.intervalMs);
+    // Do not keep the process alive just for scheduled jobs
+    timer.unref();
+    timers.push(timer);
+  });
+};
+
+// Stop all scheduled jobs
+export const stopScheduler = (): void => {
+  timers.splice(0).forEach(timer => clearInterval(timer));
+};
@@ -0,0 +1,229 @@
+import User, { IUserDocument, IDeferralDocument } from '../models/User';
+import ScreeningResponse, { IScreeningResponseDocument } from '../models/ScreeningResponse';
+import { AppError } from '../middleware/errorHandler';
+import { DeferralCategory, DeferralType, ScreeningAnswer, ScreeningQuestionType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deferral an answer leads to; temporary ones end `days` after `from` (default: now)
+interface DeferralOutcome {
+  type: DeferralType;
+  reason: string;
+  days?: number;
+  from?: Date;
+}
+
+interface ScreeningQuestion {
+  id: string;
+  text: string;
+  category: DeferralCategory;
+  type: ScreeningQuestionType;
+  required: boolean;
+  unit?: string;
+  evaluate(answer: any): DeferralOutcome | null;
+}
+
+interface ScreeningQuestionnaire {
+  version: number;
+  questions: ScreeningQuestion[];
+}
+
+const daysAgo = (date: string): number => Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS);
+
+// Questionnaires are never edited in place: change the questions by adding a new version, so
+// stored answers can always be read against the questions they were given for
+const QUESTIONNAIRES: ScreeningQuestionnaire[] = [
+  {
+    version: 1,
+    questions: [
+      {
+        id: 'recentIllness',
+        text: 'Have you had a fever, cold, flu, diarrhoea or any other infection in the last 14 days?',
+        category: 'illness',
+        type: 'boolean',
+        required: true,
+        evaluate: answer => answer
+          ? { type: 'temporary', reason: 'Recent illness or infection', days: 14 }
+          : null
+      },
+      {
+        id: 'lastTattooOrPiercing',
+        text: 'When did you last get a tattoo, piercing or acupuncture? Leave blank if never.',
+        category: 'tattoo',
+        type: 'date',
+        required: false,
+        evaluate: answer => answer && daysAgo(answer) < 365
+          ? { type: 'temporary', reason: 'Tattoo, piercing or acupuncture in the last 12 months', days: 365, from: new Date(answer) }
+          : null
+      },
+      {
+        id: 'malariaTravelReturn',
+        text: 'If you have been to a malaria-endemic area in the last 3 months, when did you return? Leave blank if not.',
+        category: 'travel',
+        type: 'date',
+        required: false,
+        evaluate: answer => answer && daysAgo(answer) < 90
+          ? { type: 'temporary', reason: 'Recent travel to a malaria-endemic area', days: 90, from: new Date(answer) }
+          : null
+      },
+      {
+        id: 'antibioticsLast7Days',
+        text: 'Have you taken antibiotics in the last 7 days?',
+        category: 'medication',
+        type: 'boolean',
+        required: true,
+        evaluate: answer => answer
+          ? { type: 'temporary', reason: 'Antibiotics in the last 7 days', days: 7 }
+          : null
+      },
+      {
+        id: 'anticoagulants',
+        text: 'Are you currently taking blood thinners (anticoagulants)?',
+        category: 'medication',
+        type: 'boolean',
+        required: true,
+        evaluate: answer => answer
+          ? { type: 'temporary', reason: 'Taking anticoagulant medication; screen again after stopping', days: 7 }
+          : null
+      },
+      {
+        id: 'pregnant',
+        text: 'Are you currently pregnant or breastfeeding?',
+        category: 'pregnancy',
+        type: 'boolean',
+        required: false,
+        evaluate: answer => answer
+          ? { type: 'temporary', reason: 'Pregnant or breastfeeding; screen again afterwards', days: 180 }
+          : null
+      },
+      {
+        id: 'lastPregnancyEnded',
+        text: 'If a pregnancy ended in the last 12 months, when did it end? Leave blank if not.',
+        category: 'pregnancy',
+        type: 'date',
+        required: false,
+        evaluate: answer => answer && daysAgo(answer) < 365
+          ? { type: 'temporary', reason: 'Pregnancy ended in the last 12 months', days: 365, from: new Date(answer) }
+          : null
+      },
+      {
+        id: 'haemoglobin',
+        text: 'What was your most recent haemoglobin reading? Leave blank if unknown.',
+        category: 'haemoglobin',
+        type: 'number',
+        unit: 'g/dL',
+        required: false,
+        evaluate: answer => typeof answer === 'number' && answer < 12.5
+          ? { type: 'temporary', reason: `Haemoglobin ${answer} g/dL is below 12.5 g/dL`, days: 30 }
+          : null
+      },
+      {
+        id: 'bloodBorneInfection',
+        text: 'Have you ever tested positive for HIV, hepatitis B, hepatitis C or syphilis?',
+        category: 'infection',
+        type: 'boolean',
+        required: true,
+        evaluate: answer => answer
+          ? { type: 'permanent', reason: 'History of a transfusion-transmissible infection' }
+          : null
+      }
+    ]
+  }
+];
+
+export const CURRENT_SCREENING_VERSION = QUESTIONNAIRES[QUESTIONNAIRES.length - 1].version;
+
+// A questionnaire as shown to donors, without its deferral rules
+export const getQuestionnaire = (version: number = CURRENT_SCREENING_VERSION) => {
+  const questionnaire = QUESTIONNAIRES.find(entry => entry.version === version);
+  if (!questionnaire) return null;
+
+  return {
+    version: questionnaire.version,
+    questions: questionnaire.questions.map(({ evaluate, ...question }) => question)
+  };
+};
+
+// Check each answer has the question's type; returns the IDs of invalid answers
+const findInvalidAnswers = (questions: ScreeningQuestion[], answers: Record<string, ScreeningAnswer>): string[] => {
+  return questions
+    .filter(question => {
+      const answer = answers[question.id];
+
+      if (answer === undefined || answer === null || answer === '') return question.required;
+
+      switch (question.type) {
+        case 'boolean':
+          return typeof answer !== 'boolean';
+        case 'number':
+          return typeof answer !== 'number' || !Number.isFinite(answer);
+        case 'date':
+          return typeof answer !== 'string' || Number.isNaN(Date.parse(answer)) || Date.parse(answer) > Date.now();
+        default:
+          return true;
+      }
+    })
+    .map(question => question.id);
+};
+
+// Score a donor's answers to the current questionnaire, store them and add any resulting deferrals
+export const submitScreening = async (
+  donor: IUserDocument,
+  version: number,
+  answers: Record<string, ScreeningAnswer>
+): Promise<{ response: IScreeningResponseDocument; deferrals: IDeferralDocument[] }> => {
+  if (version !== CURRENT_SCREENING_VERSION) {
+    throw new AppError(`The questionnaire has changed; please answer version ${CURRENT_SCREENING_VERSION}`, 409);
+  }
+
+  const questionnaire = QUESTIONNAIRES.find(entry => entry.version === version)!;
+  const invalid = findInvalidAnswers(questionnaire.questions, answers);
+
+  if (invalid.length > 0) {
+    throw new AppError(`Missing or invalid answers: ${invalid.join(', ')}`, 400);
+  }
+
+  // Keep only answers to known questions
+  const storedAnswers = Object.fromEntries(
+    questionnaire.questions.map(question => [question.id, answers[question.id] ?? null])
+  );
+
+  const response = new ScreeningResponse({
+    donorId: donor._id,
+    questionnaireVersion: version,
+    answers: storedAnswers,
+    eligible: true
+  });
+
+  const now = new Date();
+  const outcomes = questionnaire.questions
+    .map(question => ({ question, outcome: question.evaluate(storedAnswers[question.id]) }))
+    .filter((entry): entry is { question: ScreeningQuestion; outcome: DeferralOutcome } => entry.outcome !== null);
+
+  const deferrals = outcomes.map(({ question, outcome }) => ({
+    category: question.category,
+    type: outcome.type,
+    reason: outcome.reason,
+    startDate: now,
+    endDate: outcome.type === 'temporary'
+      ? new Date((outcome.from || now).getTime() + outcome.days! * DAY_MS)
+      : undefined,
+    source: 'screening',
+    screeningId: response._id
+  }));
+
+  const updatedDonor = deferrals.length > 0
+    ? await User.findByIdAndUpdate(donor._id, { $push: { deferrals: { $each: deferrals } } }, { new: true })
+    : donor;
+
+  response.eligible = !updatedDonor!.hasPermanentDeferral() && updatedDonor!.getNextEligibleDate() === null;
+  response.nextEligibleDate = updatedDonor!.hasPermanentDeferral()
+    ? undefined
+    : updatedDonor!.getNextEligibleDate() ?? undefined;
+  await response.save();
+
+  return {
+    response,
+    deferrals: updatedDonor!.deferrals.filter(deferral => deferral.screeningId?.toString() === response._id.toString())
+  };
+};
@@ -0,0 +1,203 @@
+import { Model } from 'mongoose';
+import { ISearchHighlight } from '../types';
+
+// Most documents a search ranks; pages beyond this are empty
+export const MAX_SEARCH_CANDIDATES = 200;
+
+// Shorter query words only match whole words
+const MIN_PREFIX_LENGTH = 2;
+
+// Prefix candidates share this many leading characters with a query word, so typos after them are found
+const CANDIDATE_PREFIX_LENGTH = 3;
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 40;
+
+const MAX_QUERY_WORDS = 8;
+
+// Escape regular expression characters so user input is matched literally
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive pattern matching the text as typed anywhere in a field
+export const textPattern = (text: string): RegExp => new RegExp(escapeRegex(text.trim()), 'i');
+
+// Lower case without accents, so 'José' matches 'jose'
+const normalise = (text: string): string => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+export const tokenise = (text: string): string[] => {
+  return Array.from(new Set(normalise(text).match(WORD_PATTERN) || [])).slice(0, MAX_QUERY_WORDS);
+};
+
+// Optimal string alignment distance: insertions, deletions, substitutions and swapped neighbours
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+const allowedTypos = (token: string): number => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+// How well a query word matches a word of the document, and how many of its characters to highlight
+const matchWord = (token: string, word: string): { quality: number; length: number } => {
+  if (word === token) return { quality: 1, length: word.length };
+
+  if (token.length >= MIN_PREFIX_LENGTH && word.startsWith(token)) {
+    return { quality: 0.8, length: token.length };
+  }
+
+  const typos = allowedTypos(token);
+  if (typos && editDistance(token, word) <= typos) {
+    return { quality: 0.6, length: word.length };
+  }
+  // A word still being typed, with a typo in it
+  if (typos && word.length > token.length && editDistance(token, word.slice(0, token.length)) <= typos) {
+    return { quality: 0.5, length: token.length };
+  }
+
+  return { quality: 0, length: 0 };
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// The part of a field around its first match, HTML-escaped, with matches wrapped in <mark>
+const buildSnippet = (text: string, marks: { start: number; end: number }[]): string => {
+  let from = 0;
+  let to = text.length;
+
+  if (text.length > SNIPPET_LENGTH) {
+    from = Math.max(0, marks[0].start - SNIPPET_CONTEXT);
+    to = Math.min(text.length, from + SNIPPET_LENGTH);
+  }
+
+  let snippet = from > 0 ? '…' : '';
+  let position = from;
+
+  marks.filter(mark => mark.start >= from && mark.end <= to).forEach(mark => {
+    snippet += escapeHtml(text.slice(position, mark.start)) + `<mark>${escapeHtml(text.slice(mark.start, mark.end))}</mark>`;
+    position = mark.end;
+  });
+
+  snippet += escapeHtml(text.slice(position, to));
+  return to < text.length ? `${snippet}…` : snippet;
+};
+
+export interface ScoredMatch {
+  score: number;
+  highlights: ISearchHighlight[];
+}
+
+// Score a document against the query words. Every word must match some field; each counts with the
+// weight of the field it matches best. Returns null when the document does not match.
+export const scoreDocument = (doc: any, tokens: string[], weights: Record<string, number>): ScoredMatch | null => {
+  const best = tokens.map(() => 0);
+  const highlights: ISearchHighlight[] = [];
+
+  Object.entries(weights).forEach(([field, weight]) => {
+    const text: unknown = doc.get ? doc.get(field) : doc[field];
+    if (typeof text !== 'string' || !text) return;
+
+    const marks: { start: number; end: number }[] = [];
+
+    for (const found of text.matchAll(WORD_PATTERN)) {
+      const word = normalise(found[0]);
+
+      tokens.forEach((token, index) => {
+        const { quality, length } = matchWord(token, word);
+        if (!quality) return;
+
+        best[index] = Math.max(best[index], quality * weight);
+        if (!marks.some(mark => mark.start === found.index)) {
+          marks.push({ start: found.index!, end: found.index! + Math.min(length, found[0].length) });
+        }
+      });
+    }
+
+    if (marks.length) {
+      highlights.push({ field, snippet: buildSnippet(text, marks) });
+    }
+  });
+
+  if (best.some(score => score === 0)) return null;
+
+  return {
+    score: Math.round(best.reduce((total, score) => total + score, 0) * 100) / 100,
+    highlights
+  };
+};
+
+export interface TextSearchOptions {
+  q: string;
+  filter: Record<string, any>;
+  weights: Record<string, number>;
+  page: number;
+  limit: number;
+  select?: string;
+}
+
+export interface TextSearchResult<T> {
+  results: (ScoredMatch & { doc: T })[];
+  total: number;
+}
+
+// Ranked search over the weighted fields of a collection. Candidates come from the collection's text
+// index (whole words, stemmed) and from words starting like the query words (prefixes and typos);
+// both are scored the same way and paged in memory.
+export const textSearch = async <T>(model: Model<T>, options: TextSearchOptions): Promise<TextSearchResult<T>> => {
+  const tokens = tokenise(options.q);
+  if (!tokens.length) return { results: [], total: 0 };
+
+  const prefixes = Array.from(new Set(tokens.map(token => token.slice(0, CANDIDATE_PREFIX_LENGTH))));
+  const prefixFilter = {
+    $and: [
+      options.filter,
+      {
+        $or: Object.keys(options.weights).flatMap(field =>
+          prefixes.map(prefix => ({ [field]: new RegExp(`\\b${escapeRegex(prefix)}`, 'i') }))
+        )
+      }
+    ]
+  };
+
+  const [textMatches, prefixMatches] = await Promise.all([
+    model.find({ ...options.filter, $text: { $search: tokens.join(' ') } }, { score: { $meta: 'textScore' } })
+      .select(options.select || '')
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(MAX_SEARCH_CANDIDATES),
+    model.find(prefixFilter)
+      .select(options.select || '')
+      .limit(MAX_SEARCH_CANDIDATES)
+  ]);
+
+  const candidates = new Map<string, any>();
+  [...textMatches, ...prefixMatches].forEach((doc: any) => {
+    if (!candidates.has(doc._id.toString())) candidates.set(doc._id.toString(), doc);
+  });
+
+  const ranked = Array.from(candidates.values())
+    .map(doc => ({ doc, match: scoreDocument(doc, tokens, options.weights) }))
+    .filter(({ match }) => match)
+    .map(({ doc, match }) => ({ doc: doc as T, ...match! }))
+    .sort((a, b) => b.score - a.score);
+
+  const skip = (options.page - 1) * options.limit;
+
+  return {
+    results: ranked.slice(skip, skip + options.limit),
+    total: ranked.length
+  };
+};
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { FilterQuery } from 'mongoose';
+import Session, { ISessionDocument } from '../models/Session';
+import { generateToken, generateRefreshToken, verifyRefreshToken } from '../middleware/auth';
+import { IAuthTokens, SessionRevokeReason } from '../types';
+
+export type RotateResult =
+  | { status: 'rotated'; tokens: IAuthTokens; userId: string }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+const newJti = (): string => crypto.randomBytes(16).toString('hex');
+
+interface SignedTokens {
+  tokens: IAuthTokens;
+  jti: string;
+  expiresAt: Date;
+}
+
+// Sign an access/refresh pair for a session under a new token ID
+const signTokens = (userId: string, sessionId: string): SignedTokens => {
+  const jti = newJti();
+
+  const accessToken = generateToken(userId, sessionId);
+  const refreshToken = generateRefreshToken(userId, sessionId, jti);
+
+  const { exp } = jwt.decode(refreshToken) as { exp: number };
+
+  return { tokens: { accessToken, refreshToken }, jti, expiresAt: new Date(exp * 1000) };
+};
+
+// Sign an access/refresh pair for a session and move its expiry to the new refresh token's
+const issueTokens = (session: ISessionDocument): IAuthTokens => {
+  const { tokens, jti, expiresAt } = signTokens(session.userId.toString(), session._id.toString());
+
+  session.currentJti = jti;
+  session.expiresAt = expiresAt;
+
+  return tokens;
+};
+
+// Start a new device session for a user and return its first token pair
+export const startSession = async (userId: string, req: Request): Promise<IAuthTokens> => {
+  const session = new Session({
+    userId,
+    currentJti: newJti(),
+    userAgent: req.get('user-agent')?.slice(0, 500),
+    ipAddress: req.ip,
+    expiresAt: new Date()
+  });
+
+  const tokens = issueTokens(session);
+  await session.save();
+
+  return tokens;
+};
+
+// Exchange a refresh token for a new pair, revoking the session if an old token is replayed
+export const rotateSession = async (refreshToken: string, req: Request): Promise<RotateResult> => {
+  const decoded = verifyRefreshToken(refreshToken);
+  if (!decoded || !decoded.sessionId || !decoded.jti) {
+    return { status: 'invalid' };
+  }
+
+  const { tokens, jti, expiresAt } = signTokens(decoded.userId, decoded.sessionId);
+  const now = new Date();
+
+  const update: Record<string, unknown> = { currentJti: jti, expiresAt, lastUsedAt: now };
+  const userAgent = req.get('user-agent')?.slice(0, 500);
+  if (userAgent) update.userAgent = userAgent;
+  if (req.ip) update.ipAddress = req.ip;
+
+  // Claim the token in one step, so two refreshes with the same token cannot both succeed
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: decoded.sessionId,
+      userId: decoded.userId,
+      currentJti: decoded.jti,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now }
+    },
+    { $set: update }
+  );
+
+  if (session) {
+    return { status: 'rotated', tokens, userId: decoded.userId };
+  }
+
+  // No match: the session is gone, or the token was already rotated. An already-rotated token
+  // coming back is assumed to have leaked, so the whole session is ended.
+  const reused = await Session.findOneAndUpdate(
+    {
+      _id: decoded.sessionId,
+      userId: decoded.userId,
+      currentJti: { $ne: decoded.jti },
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now }
+    },
+    { $set: { revokedAt: now, revokedReason: 'reuse_detected' } }
+  );
+
+  return reused ? { status: 'reused' } : { status: 'invalid' };
+};
+
+// Revoke a single session owned by a user
+export const revokeSession = async (
+  sessionId: string,
+  userId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Revoke every active session of a user, optionally keeping one
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: FilterQuery<ISessionDocument> = { userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(
+    filter,
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+// List the sessions a user can still use
+export const getActiveSessions = (userId: string) => {
+  return Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+};
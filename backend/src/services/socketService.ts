@@ -0,0 +1,134 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { config } from '../config/config';
+import User, { IUserDocument } from '../models/User';
+import { IBloodRequestDocument } from '../models/BloodRequest';
+import { verifyToken, isSessionActive } from '../middleware/auth';
+import { getCompatibleDonorGroups, BLOOD_GROUPS, DEFAULT_BLOOD_COMPONENT } from './bloodCompatibility';
+import { BloodGroup } from '../types';
+
+export type BloodRequestEvent =
+  | 'bloodRequest:created'
+  | 'bloodRequest:updated'
+  | 'bloodRequest:fulfilled'
+  | 'bloodRequest:expired'
+  | 'bloodRequest:cancelled';
+
+interface SubscribePayload {
+  city?: string;
+  bloodGroup?: BloodGroup;
+}
+
+let io: Server | null = null;
+
+const normalizeCity = (city: string): string => city.trim().toLowerCase();
+
+// Everything posted in a city (hospital dashboards)
+const cityRoom = (city: string): string => `city:${normalizeCity(city)}`;
+
+// Requests in a city that a donor blood group can give to
+const feedRoom = (city: string, bloodGroup: BloodGroup): string => `feed:${normalizeCity(city)}:${bloodGroup}`;
+
+const roomsFor = ({ city, bloodGroup }: SubscribePayload): string[] => {
+  if (!city) return [];
+  return bloodGroup ? [feedRoom(city, bloodGroup)] : [cityRoom(city)];
+};
+
+// Authenticate the handshake with the same access token the REST API uses
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  try {
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token ||
+      (header && header.startsWith('Bearer ') ? header.substring(7) : undefined);
+
+    const decoded = token ? verifyToken(token) : null;
+    if (!decoded) {
+      return next(new Error('Invalid or expired token.'));
+    }
+
+    const user = await User.findById(decoded.userId).select('-googleId');
+    if (!user || user.changedPasswordAfter(decoded.iat) || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      return next(new Error('Session has ended. Please log in again.'));
+    }
+
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error('Socket authentication error:', error);
+    next(new Error('Internal server error during authentication.'));
+  }
+};
+
+const handleConnection = (socket: Socket): void => {
+  const user = socket.data.user as IUserDocument;
+
+  // Donors follow requests they can give to in their city; everyone else follows the whole city
+  if (user.city) {
+    socket.join(roomsFor({
+      city: user.city,
+      bloodGroup: user.userType === 'donor' ? user.bloodGroup : undefined
+    }));
+  }
+
+  socket.on('subscribe', (payload: SubscribePayload = {}, ack?: (response: any) => void) => {
+    if (payload.bloodGroup && !BLOOD_GROUPS.includes(payload.bloodGroup)) {
+      ack?.({ success: false, message: 'Invalid blood group' });
+      return;
+    }
+
+    const rooms = roomsFor(payload);
+    if (rooms.length === 0) {
+      ack?.({ success: false, message: 'City is required' });
+      return;
+    }
+
+    socket.join(rooms);
+    ack?.({ success: true, message: 'Subscribed', data: rooms });
+  });
+
+  socket.on('unsubscribe', (payload: SubscribePayload = {}, ack?: (response: any) => void) => {
+    roomsFor(payload).forEach(room => socket.leave(room));
+    ack?.({ success: true, message: 'Unsubscribed' });
+  });
+};
+
+// Attach Socket.IO to the HTTP server
+export const initSocketServer = (server: HttpServer): Server => {
+  io = new Server(server, {
+    cors: {
+      origin: config.frontendUrl,
+      credentials: true
+    }
+  });
+
+  io.use((socket, next) => {
+    authenticateSocket(socket, next);
+  });
+  io.on('connection', handleConnection);
+
+  return io;
+};
+
+// Push a blood request change to everyone following its city or a compatible blood group there
+export const publishBloodRequestEvent = (event: BloodRequestEvent, bloodRequest: IBloodRequestDocument): void => {
+  if (!io) return;
+
+  const rooms = [
+    cityRoom(bloodRequest.city),
+    ...getCompatibleDonorGroups(bloodRequest.bloodGroup, bloodRequest.component || DEFAULT_BLOOD_COMPONENT)
+      .map(group => feedRoom(bloodRequest.city, group))
+  ];
+
+  io.to(rooms).emit(event, bloodRequest.toJSON());
+};
+
+// Publish an update, using the more specific event when the status has moved on
+export const publishBloodRequestUpdate = (bloodRequest: IBloodRequestDocument): void => {
+  const statusEvents: Record<string, BloodRequestEvent> = {
+    fulfilled: 'bloodRequest:fulfilled',
+    expired: 'bloodRequest:expired',
+    cancelled: 'bloodRequest:cancelled'
+  };
+
+  publishBloodRequestEvent(statusEvents[bloodRequest.status] || 'bloodRequest:updated', bloodRequest);
+};
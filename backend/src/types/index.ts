@@ -1,38 +1,183 @@
 export type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+export type BloodComponent = 'whole_blood' | 'red_cells' | 'plasma' | 'platelets';
 export type UrgencyLevel = 'critical' | 'urgent' | 'normal';
-export type UserType = 'donor' | 'patient' | 'hospital';
+export type UserType = 'donor' | 'patient' | 'hospital' | 'admin';
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+export type AuditTargetType = 'user' | 'blood_request' | 'donation' | 'points_rule' | 'points_recalculation';
+export type AuditAction =
+  | 'suspend_user'
+  | 'ban_user'
+  | 'reinstate_user'
+  | 'verify_hospital'
+  | 'unverify_hospital'
+  | 'update_blood_request'
+  | 'remove_blood_request'
+  | 'reverse_donation'
+  | 'create_points_rule'
+  | 'update_points_rule'
+  | 'delete_points_rule'
+  | 'recalculate_points';
 export type RequestStatus = 'active' | 'fulfilled' | 'expired' | 'cancelled';
-export type DonationStatus = 'pending' | 'completed' | 'cancelled';
+export type DonationStatus = 'pending' | 'completed' | 'cancelled' | 'reversed';
+export type DonationVerificationMethod = 'code' | 'approval';
+export type InventoryUnitStatus = 'available' | 'issued' | 'transferred' | 'discarded' | 'expired';
+export type InventoryUnitSource = 'donation' | 'manual' | 'transfer';
+export type CampStatus = 'scheduled' | 'cancelled' | 'completed';
+export type CampBookingStatus = 'booked' | 'waitlisted' | 'cancelled' | 'checked_in' | 'no_show';
+export type AppointmentStatus = 'booked' | 'cancelled' | 'completed' | 'no_show';
+export type DonorSex = 'male' | 'female';
+export type DonationType = 'whole_blood' | 'double_red_cells' | 'platelets' | 'plasma';
+export type DeferralType = 'temporary' | 'permanent';
+export type DeferralCategory =
+  | 'illness'
+  | 'tattoo'
+  | 'travel'
+  | 'medication'
+  | 'pregnancy'
+  | 'haemoglobin'
+  | 'infection'
+  | 'other';
+export type DeferralSource = 'screening' | 'hospital';
+export type ScreeningQuestionType = 'boolean' | 'date' | 'number';
+export type ScreeningAnswer = boolean | number | string | null;
+export type ContactRequestStatus = 'pending' | 'approved' | 'declined' | 'cancelled' | 'revoked' | 'expired';
+// phone: the requester may see the donor's number; relay: they only talk through platform messages
+export type ContactShareMode = 'phone' | 'relay';
+export type ContactDisclosureReason = 'contact_request' | 'admin';
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+export type PledgeStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'completed' | 'cancelled';
+export type RequestHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'extended'
+  | 'pledged'
+  | 'pledge_accepted'
+  | 'pledge_declined'
+  | 'pledge_withdrawn'
+  | 'donation_completed'
+  | 'donation_cancelled'
+  | 'donation_reversed'
+  | 'fulfilled'
+  | 'expired'
+  | 'cancelled';
+
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+export type NotificationChannel = 'inApp' | 'email' | 'sms' | 'push';
+export type NotificationType =
+  | 'blood_request'
+  | 'blood_request_escalated'
+  | 'blood_request_expiring'
+  | 'pledge_received'
+  | 'pledge_accepted'
+  | 'pledge_declined'
+  | 'pledge_withdrawn'
+  | 'camp_waitlist_promoted'
+  | 'camp_cancelled'
+  | 'appointment_cancelled'
+  | 'achievement_earned'
+  | 'contact_request'
+  | 'contact_request_approved'
+  | 'contact_request_declined'
+  | 'contact_message'
+  | 'data_export_ready';
+
+export interface INotificationPreferences {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+  push: boolean;
+  quietHours?: {
+    enabled: boolean;
+    start: string; // HH:mm
+    end: string;   // HH:mm
+    timezone: string;
+  };
+}
+
+export interface IDeferral {
+  _id?: string;
+  category: DeferralCategory;
+  type: DeferralType;
+  reason: string;
+  startDate: Date;
+  endDate?: Date; // Not set for permanent deferrals
+  source: DeferralSource;
+  screeningId?: string;
+  recordedBy?: string;
+  liftedAt?: Date;
+  liftedBy?: string;
+  liftReason?: string;
+}
 
 export interface IUser {
   _id?: string;
   name: string;
   email: string;
+  password?: string;
+  passwordChangedAt?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
   userType: UserType;
   bloodGroup?: BloodGroup;
   phone: string;
   city: string;
   pincode: string;
+  location?: IGeoPoint;
   age?: number;
   weight?: number;
   donationCount?: number;
   isAvailable: boolean;
   lastDonation?: Date;
+  sex?: DonorSex;
+  // Earliest date for each donation type under the donation policy, ignoring deferrals
+  nextEligibleDates?: Partial<Record<DonationType, Date | null>>;
+  eligibilityUpdatedAt?: Date;
   googleId?: string;
   profilePicture?: string;
   isVerified: boolean;
+  accountStatus: AccountStatus;
+  suspendedUntil?: Date;
+  statusReason?: string;
+  notificationPreferences?: INotificationPreferences;
+  pushTokens?: string[];
+  calendarFeedToken?: string;
+  deferrals?: IDeferral[];
+  tier?: DonorTier;
+  streak?: IDonationStreak;
+  leaderboardOptOut?: boolean;
+  // Set when the user asks to delete their account; personal fields are anonymised once the grace period ends
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  deletedAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface IRequestHistoryEntry {
+  action: RequestHistoryAction;
+  status: RequestStatus;
+  by?: string;
+  byName?: string;
+  note?: string;
+  at: Date;
+}
+
 export interface IBloodRequest {
   _id?: string;
   patientName: string;
   bloodGroup: BloodGroup;
+  component: BloodComponent;
   urgency: UrgencyLevel;
+  // 1 (normal) to 3 (critical), for sorting by severity
+  urgencyRank?: number;
   hospital: string;
   city: string;
   pincode: string;
+  location?: IGeoPoint;
   unitsNeeded: number;
   contactPhone: string;
   description?: string;
@@ -40,6 +185,10 @@ export interface IBloodRequest {
   requesterName: string;
   status: RequestStatus;
   fulfilledBy?: string[];
+  unitsFulfilled?: number;
+  history?: IRequestHistoryEntry[];
+  extensionCount?: number;
+  expiryWarningSentAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
   expiresAt?: Date;
@@ -52,16 +201,404 @@ export interface IDonationRecord {
   bloodGroup: BloodGroup;
   requestId?: string;
   date: Date;
+  donationType: DonationType;
   hospital: string;
   city: string;
   unitsContributed: number;
   points: number;
+  pointsRuleId?: string;
   status: DonationStatus;
+  pledgeId?: string;
+  campId?: string;
+  hospitalId?: string;
+  verificationCode?: string;
+  verificationCodeExpires?: Date;
+  verificationAttempts?: number;
+  verifiedBy?: string;
+  verifiedAt?: Date;
+  verificationMethod?: DonationVerificationMethod;
+  rejectionReason?: string;
+  reversedBy?: string;
+  reversedAt?: Date;
+  reversalReason?: string;
   notes?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface INotification {
+  _id?: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+  dedupeKey: string;
+  channels: NotificationChannel[];
+  readAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IJobLock {
+  _id?: string;
+  name: string;
+  lockedBy?: string;
+  lockedUntil: Date;
+  lastRunAt?: Date;
+}
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'revoked' | 'reuse_detected' | 'password_changed' | 'account_blocked' | 'account_deleted';
+
+export interface ISession {
+  _id?: string;
+  userId: string;
+  currentJti: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IContactMessage {
+  senderId: string;
+  body: string;
+  sentAt: Date;
+}
+
+export interface IContactRequest {
+  _id?: string;
+  requesterId: string;
+  requesterName: string;
+  donorId: string;
+  bloodRequestId?: string;
+  message: string;
+  status: ContactRequestStatus;
+  shareMode?: ContactShareMode;
+  responseNote?: string;
+  respondedAt?: Date;
+  expiresAt: Date;
+  messages?: IContactMessage[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// One disclosure of a user's contact details to someone else
+export interface IContactDisclosure {
+  _id?: string;
+  userId: string;
+  viewerId: string;
+  viewerName: string;
+  reason: ContactDisclosureReason;
+  contactRequestId?: string;
+  fields: string[];
+  ipAddress?: string;
+  createdAt?: Date;
+}
+
+// A personal data export built in the background; the zip is kept in GridFS until it expires
+export interface IDataExport {
+  _id?: string;
+  userId: string;
+  status: DataExportStatus;
+  fileId?: string;
+  fileName?: string;
+  size?: number;
+  records?: number;
+  downloadToken?: string;
+  expiresAt?: Date;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt?: Date;
+}
+
+export interface IPledge {
+  _id?: string;
+  requestId: string;
+  donorId: string;
+  donorName: string;
+  bloodGroup: BloodGroup;
+  unitsPledged: number;
+  status: PledgeStatus;
+  message?: string;
+  responseNote?: string;
+  respondedAt?: Date;
+  donationRecordId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IInventoryUnit {
+  _id?: string;
+  hospitalId: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  bagNumber?: string;
+  collectedAt: Date;
+  expiresAt: Date;
+  status: InventoryUnitStatus;
+  source: InventoryUnitSource;
+  donationRecordId?: string;
+  transferredFrom?: string;
+  transferredTo?: string;
+  issuedTo?: string;
+  requestId?: string;
+  discardReason?: string;
+  statusChangedAt?: Date;
+  statusChangedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IInventoryThreshold {
+  _id?: string;
+  hospitalId: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  minUnits: number;
+  autoRequest: boolean;
+  lastRequestId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ICampSlot {
+  _id?: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  capacity: number;
+  remaining: number;
+}
+
+export interface IDonationCamp {
+  _id?: string;
+  name: string;
+  description?: string;
+  organizerId: string;
+  organizerName: string;
+  venue: string;
+  address: string;
+  city: string;
+  pincode: string;
+  location?: IGeoPoint;
+  date: Date;
+  slots: ICampSlot[];
+  status: CampStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ICampBooking {
+  _id?: string;
+  campId: string;
+  slotId: string;
+  donorId: string;
+  donorName: string;
+  bloodGroup: BloodGroup;
+  status: CampBookingStatus;
+  checkedInAt?: Date;
+  donationRecordId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IWorkingHours {
+  dayOfWeek: number; // 0 = Sunday
+  openTime: string; // HH:mm
+  closeTime: string; // HH:mm
+}
+
+export interface IBlockedDate {
+  date: string; // YYYY-MM-DD in the hospital's timezone
+  reason?: string;
+}
+
+export interface IHospitalSchedule {
+  _id?: string;
+  hospitalId: string;
+  timezone: string;
+  slotMinutes: number;
+  donorsPerSlot: number;
+  workingHours: IWorkingHours[];
+  blockedDates: IBlockedDate[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IAppointment {
+  _id?: string;
+  hospitalId: string;
+  hospitalName: string;
+  donorId: string;
+  donorName: string;
+  bloodGroup: BloodGroup;
+  startTime: Date;
+  endTime: Date;
+  slotIndex: number;
+  status: AppointmentStatus;
+  notes?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
+  donationRecordId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IScreeningResponse {
+  _id?: string;
+  donorId: string;
+  questionnaireVersion: number;
+  answers: Record<string, ScreeningAnswer>;
+  eligible: boolean;
+  nextEligibleDate?: Date;
+  createdAt?: Date;
+}
+
+export type AchievementCode =
+  | 'first_donation'
+  | 'donations_5'
+  | 'donations_10'
+  | 'donations_25'
+  | 'rare_blood_hero'
+  | 'critical_responder'
+  | 'streak_3_years'
+  | 'streak_5_years'
+  | 'tier_bronze'
+  | 'tier_silver'
+  | 'tier_gold'
+  | 'tier_platinum';
+export type AchievementCategory = 'milestone' | 'tier' | 'streak';
+export type DonorTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+// Consecutive calendar years with at least one completed donation, up to lastYear
+export interface IDonationStreak {
+  current: number;
+  longest: number;
+  lastYear?: number;
+}
+
+export interface IAchievement {
+  _id?: string;
+  donorId: string;
+  code: AchievementCode;
+  category: AchievementCategory;
+  title: string;
+  earnedAt: Date;
+  donationRecordId?: string;
+  createdAt?: Date;
+}
+
+// Point values for donations made on or after effectiveFrom, until the next rule takes over
+export interface IPointsRule {
+  _id?: string;
+  effectiveFrom: Date;
+  basePoints: number;
+  extraUnitPoints: number;
+  requestPoints: Record<UrgencyLevel, number>;
+  rareBloodGroupPoints: number;
+  campPoints: number;
+  firstDonationPoints: number;
+  note?: string;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type PointsRecalculationStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IPointsRecalculation {
+  _id?: string;
+  from: Date;
+  to: Date;
+  reason: string;
+  status: PointsRecalculationStatus;
+  requestedBy: string;
+  processed: number;
+  changed: number;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt?: Date;
+}
+
+export type LeaderboardPeriod = 'all_time' | 'year' | 'quarter' | 'month';
+
+// One donor's standing in a leaderboard period, precomputed by the leaderboard job
+export interface ILeaderboardEntry {
+  _id?: string;
+  period: LeaderboardPeriod;
+  periodKey: string;
+  donorId: string;
+  donorName: string;
+  bloodGroup?: BloodGroup;
+  city?: string;
+  cityKey?: string;
+  totalPoints: number;
+  totalDonations: number;
+  totalUnits: number;
+  lastDonation: Date;
+  computedAt: Date;
+}
+
+export type OrganisationType = 'company' | 'college' | 'ngo' | 'community' | 'other';
+export type OrganisationRole = 'owner' | 'admin' | 'member';
+
+export interface IOrganisation {
+  _id?: string;
+  name: string;
+  type: OrganisationType;
+  description?: string;
+  city?: string;
+  website?: string;
+  inviteCode: string;
+  createdBy: string;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Donations a member makes from joinedAt count toward the team
+export interface IOrganisationMember {
+  _id?: string;
+  organisationId: string;
+  userId: string;
+  role: OrganisationRole;
+  joinedAt: Date;
+}
+
+// One organisation's totals in a leaderboard period, precomputed by the leaderboard job
+export interface ITeamLeaderboardEntry {
+  _id?: string;
+  period: LeaderboardPeriod;
+  periodKey: string;
+  organisationId: string;
+  organisationName: string;
+  totalPoints: number;
+  totalDonations: number;
+  totalUnits: number;
+  donors: number;
+  computedAt: Date;
+}
+
+export interface IAuditLog {
+  _id?: string;
+  adminId: string;
+  adminName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  reason?: string;
+  changes?: { before?: Record<string, any>; after?: Record<string, any> };
+  ipAddress?: string;
+  createdAt?: Date;
+}
+
 export interface IAuthTokens {
   accessToken: string;
   refreshToken: string;
@@ -97,5 +634,18 @@ export interface IPaginatedResponse<T> {
     pages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    // Pass as cursor= to get the page after this one
+    nextCursor?: string;
   };
 }
+
+// A field of a search result with the matched words wrapped in <mark> (the rest is HTML-escaped)
+export interface ISearchHighlight {
+  field: string;
+  snippet: string;
+}
+
+export type ISearchResult<T> = T & {
+  score: number;
+  highlights: ISearchHighlight[];
+};
@@ -27,10 +27,17 @@ EMAIL_PORT=587
 EMAIL_USER=your-email@gmail.com
 EMAIL_PASS=your-app-password
 EMAIL_FROM=noreply@bloodbuddy.com
+EMAIL_SECURE=false
+
+# Password reset
+PASSWORD_RESET_EXPIRE_MINUTES=30
 
 # Frontend URL
 FRONTEND_URL=http://localhost:5173
 
+# Public URL of this API, used in links such as calendar feeds
+API_URL=http://localhost:3001
+
 # Rate Limiting
 RATE_LIMIT_WINDOW_MS=900000
 RATE_LIMIT_MAX_REQUESTS=100
@@ -38,6 +45,52 @@ RATE_LIMIT_MAX_REQUESTS=100
 # File Upload
 MAX_FILE_SIZE=5242880
 UPLOAD_PATH=./uploads
+
+# Donor search
+# Optional JSON file of { "<pincode>": { "lat": ..., "lng": ... } } replacing the bundled dataset
+PINCODE_DATA_PATH=
+DONOR_SEARCH_RADIUS_KM=25
+
+# Donor alerts
+MAX_DONOR_ALERTS_PER_REQUEST=50
+
+# Blood request expiry
+REQUEST_EXPIRY_JOB_INTERVAL_MS=60000
+REQUEST_EXPIRY_WARNING_HOURS=6
+MAX_REQUEST_EXTENSIONS=1
+
+# Donation verification codes
+DONATION_CODE_EXPIRE_MINUTES=30
+DONATION_CODE_MAX_ATTEMPTS=5
+
+# Blood bank inventory
+INVENTORY_JOB_INTERVAL_MS=3600000
+INVENTORY_EXPIRY_WARNING_DAYS=3
+
+# Donation eligibility
+# Optional JSON file overriding the intervals and annual caps in src/data/donationPolicy.json
+DONATION_POLICY_PATH=
+
+# Points recalculation job
+POINTS_JOB_INTERVAL_MS=60000
+
+# Leaderboard snapshots
+LEADERBOARD_JOB_INTERVAL_MS=900000
+
+# Donor contact requests
+CONTACT_REQUEST_EXPIRE_HOURS=72
+MAX_CONTACT_REQUESTS_PER_DAY=10
+
+# Personal data exports
+# Exports with more records than this are built in the background and sent as a download link
+DATA_EXPORT_SYNC_MAX_RECORDS=2000
+DATA_EXPORT_EXPIRE_HOURS=48
+DATA_EXPORT_JOB_INTERVAL_MS=60000
+
+# Account deletion
+# Days in which a deletion can still be undone before personal data is anonymised
+ACCOUNT_DELETION_GRACE_DAYS=30
+ACCOUNT_DELETION_JOB_INTERVAL_MS=3600000
 EOF
 
 # Create frontend .env file